@@ -0,0 +1,146 @@
+/**
+ * Map Parser
+ * Runs the parsers shared with the frontend (frontend/src/shared, compiled to dist/ by `npm run build`)
+ * on files: read whole, streamed line by line, or on a worker thread
+ */
+
+const fs = require('fs');
+const path = require('path');
+const { StringDecoder } = require('string_decoder');
+const { Worker } = require('worker_threads');
+const { parseMap: parseMapBytes, detectMapFormat } = require('../dist/shared/parser');
+const { createGnuMapParser } = require('../dist/shared/parser/parseMapFile');
+const { isElf, readSourceUnits } = require('../dist/shared/parser/parseElf');
+const { attributeSourcePaths } = require('../dist/shared/parser/dwarf');
+const { crossCheckElf } = require('../dist/shared/utils/elfCrossCheck');
+
+/**
+ * Parse a linker map file of any supported format, or an ELF image in its place
+ * @param {string} filePath - Path to the .map (or .elf) file
+ * @returns {Promise<Object>} Parsed data with memory regions and detailed sections
+ */
+function parseMap(filePath) {
+  return parseMapBytes(fs.readFileSync(filePath));
+}
+
+// Streamed maps are read in chunks of this size; the format is detected from the first chunk,
+// as every linker names itself or its block layout within the first lines
+const CHUNK_SIZE = 1024 * 1024;
+
+/**
+ * Read a text file line by line without holding it in memory
+ * Lines are split as content.split('\n') would split the whole text
+ * @param {number} fd - Open file descriptor, read from the start
+ * @param {number} totalBytes - File size
+ * @param {Function} onLine - Called with each line, without its newline
+ * @param {Function} onProgress - Called with (bytesRead, totalBytes) after each chunk
+ */
+function readLines(fd, totalBytes, onLine, onProgress) {
+  const decoder = new StringDecoder('utf8');
+  const chunk = Buffer.alloc(CHUNK_SIZE);
+  let bytesRead = 0;
+  let rest = '';
+  let count;
+
+  while ((count = fs.readSync(fd, chunk, 0, CHUNK_SIZE, bytesRead)) > 0) {
+    bytesRead += count;
+    const lines = (rest + decoder.write(chunk.subarray(0, count))).split('\n');
+    rest = lines.pop();
+    lines.forEach(line => onLine(line));
+    onProgress(bytesRead, totalBytes);
+  }
+  onLine(rest + decoder.end());
+}
+
+/**
+ * Parse a map file with bounded memory: GNU ld maps are parsed line by line as they are read
+ * Other formats and ELF images are read whole, as parseMap does
+ * @param {string} filePath - Path to the .map (or .elf) file
+ * @param {Function} [onProgress] - Called with (bytesRead, totalBytes) as the file is read
+ * @returns {Promise<Object>} Parsed data, the same as parseMap returns
+ */
+async function parseMapStream(filePath, onProgress = () => {}) {
+  const fd = fs.openSync(filePath, 'r');
+  let totalBytes;
+  try {
+    totalBytes = fs.fstatSync(fd).size;
+    const head = Buffer.alloc(Math.min(CHUNK_SIZE, totalBytes));
+    fs.readSync(fd, head, 0, head.length, 0);
+
+    if (!isElf(head) && detectMapFormat(head.toString('utf-8')) === 'gnu-ld') {
+      const parser = createGnuMapParser();
+      readLines(fd, totalBytes, line => parser.push(line), onProgress);
+      return parser.finish();
+    }
+  } finally {
+    fs.closeSync(fd);
+  }
+
+  const result = await parseMap(filePath);
+  onProgress(totalBytes, totalBytes);
+  return result;
+}
+
+/**
+ * Parse a map file as parseMapStream does, then check it against the ELF image it was linked into:
+ * the sections are cross-checked and the ELF's debug info attributes sections and symbols to source files
+ * @param {string} filePath - Path to the .map (or .elf) file
+ * @param {string|null} elfPath - Path to the ELF file, or null to parse the map alone
+ * @param {Function} [onProgress] - Called with (bytesRead, totalBytes) as the map is read
+ * @returns {Promise<Object>} Parsed data, with elfCheck and source paths when an ELF is given
+ */
+async function parseMapWithElf(filePath, elfPath, onProgress = () => {}) {
+  const result = await parseMapStream(filePath, onProgress);
+  if (elfPath) {
+    const elf = fs.readFileSync(elfPath);
+    result.elfCheck = crossCheckElf(result, await parseMapBytes(elf));
+    attributeSourcePaths(result, await readSourceUnits(elf));
+  }
+  return result;
+}
+
+/**
+ * Parse a map file on a worker thread, so large maps and debug ELF files do not block the server's event loop
+ * @param {string} filePath - Path to the .map (or .elf) file
+ * @param {Function} [onProgress] - Called with (bytesRead, totalBytes) as the worker reads the file
+ * @param {string|null} [elfPath] - Path to the ELF file the map is checked against, see parseMapWithElf
+ * @returns {Promise<Object>} Parsed data, the same as parseMapWithElf returns
+ */
+function parseMapInWorker(filePath, onProgress = () => {}, elfPath = null) {
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(path.join(__dirname, 'parseWorker.js'), { workerData: { filePath, elfPath } });
+    let settled = false;
+
+    worker.on('message', message => {
+      if (message.type === 'progress') {
+        onProgress(message.bytesRead, message.totalBytes);
+      } else if (message.type === 'result') {
+        settled = true;
+        resolve(message.result);
+      } else if (message.type === 'error') {
+        settled = true;
+        // Keep the code (e.g. INVALID_ELF) the server picks the response status by
+        const error = new Error(message.message);
+        error.code = message.code;
+        reject(error);
+      }
+    });
+    worker.on('error', error => {
+      settled = true;
+      reject(error);
+    });
+    worker.on('exit', code => {
+      if (!settled) {
+        reject(new Error(`Parser worker stopped with exit code ${code}`));
+      }
+    });
+  });
+}
+
+module.exports = {
+  parseMap,
+  parseMapStream,
+  parseMapWithElf,
+  parseMapInWorker,
+  detectMapFormat,
+};
@@ -0,0 +1,20 @@
+/**
+ * Map Parser Worker
+ * Runs parseMapWithElf on a worker thread and reports progress, the result or the error to the parent
+ */
+
+const { parentPort, workerData } = require('worker_threads');
+const { parseMapWithElf } = require('./index');
+
+let lastPercent = -1;
+
+parseMapWithElf(workerData.filePath, workerData.elfPath, (bytesRead, totalBytes) => {
+  // One message per percent is plenty for a progress bar
+  const percent = totalBytes > 0 ? Math.floor((bytesRead / totalBytes) * 100) : 100;
+  if (percent !== lastPercent) {
+    lastPercent = percent;
+    parentPort.postMessage({ type: 'progress', bytesRead, totalBytes });
+  }
+})
+  .then(result => parentPort.postMessage({ type: 'result', result }))
+  .catch(error => parentPort.postMessage({ type: 'error', message: error.message, code: error.code }));
@@ -3,14 +3,27 @@ const multer = require('multer');
 const cors = require('cors');
 const fs = require('fs');
 const path = require('path');
-const { parseMapFile } = require('./parser/parseMapFile');
-const { compareAnalyses } = require('./utils/compareAnalysis');
-const { storeComparison, getComparison, getStats } = require('./utils/compareStorage');
-const { computeMemoryDiff } = require('./utils/memoryDiff');
+const { parseMapInWorker } = require('./parser');
+const { compareAnalyses } = require('./dist/shared/utils/compareAnalysis');
+const { computeMemoryDiff } = require('./dist/shared/utils/memoryDiff');
+const { trackProgress, getProgress, clearProgress } = require('./utils/parseProgress');
+const { createStorage, loadStorageConfig } = require('./storage');
+const { createBuildHistory, isValidProjectName } = require('./storage/buildHistory');
 
 const app = express();
 const PORT = 5000;
 
+// Analysis, comparison and diff results, kept by ID in the configured storage
+const resultStore = createStorage(loadStorageConfig());
+
+// Projects and their CI builds, kept in the same storage
+const buildHistory = createBuildHistory(resultStore);
+
+// Clean up expired results every hour
+setInterval(() => {
+  resultStore.prune().catch(error => console.error('Error pruning stored results:', error));
+}, 60 * 60 * 1000).unref();
+
 // Configure multer for file uploads
 const storage = multer.diskStorage({
   destination: (req, file, cb) => {
@@ -30,30 +43,121 @@ const upload = multer({ storage });
 app.use(cors());
 app.use(express.json());
 
-// POST /analyze endpoint
-app.post('/analyze', upload.single('mapFile'), (req, res) => {
+/**
+ * Analyze an uploaded map or ELF file
+ * An ELF alone is analyzed in place of the map; uploaded with the map it is a cross-check
+ * and its debug info attributes the map's sections and symbols to source files
+ * Parsed, ELF and debug info included, on a worker thread, so large files neither block other requests
+ * nor exhaust the heap
+ */
+function analyzeUpload(mapFile, elfFile, onProgress) {
+  return parseMapInWorker((mapFile || elfFile).path, onProgress, mapFile && elfFile ? elfFile.path : null);
+}
+
+/**
+ * Response status for a failed upload: 400 for a malformed file, 500 for anything else
+ */
+function errorStatus(error) {
+  return error.code === 'INVALID_ELF' ? 400 : 500;
+}
+
+/**
+ * Read the memory diff options from the query string
+ */
+function diffOptions(query) {
+  return {
+    anomalyGrowthThreshold: parseFloat(query.growthThreshold) || 10,
+    anomalyShrinkThreshold: parseFloat(query.shrinkThreshold) || 10,
+    addressShiftThreshold: parseInt(query.addressShift) || 0x1000,
+  };
+}
+
+// POST /analyze endpoint - Analyze a map file, an ELF file, or a map checked against its ELF
+app.post('/analyze', upload.fields([
+  { name: 'mapFile', maxCount: 1 },
+  { name: 'elfFile', maxCount: 1 }
+]), async (req, res) => {
+  const mapFile = req.files?.mapFile?.[0];
+  const elfFile = req.files?.elfFile?.[0];
+  const progressId = req.body?.progressId;
+
   try {
-    if (!req.file) {
+    if (!mapFile && !elfFile) {
       return res.status(400).json({ error: 'No file uploaded' });
     }
 
-    const result = parseMapFile(req.file.path);
+    const file = mapFile || elfFile;
+    const result = await analyzeUpload(mapFile, elfFile, trackProgress(progressId, file.originalname, file.size));
+
+    // Clean up uploaded files
+    if (mapFile) fs.unlinkSync(mapFile.path);
+    if (elfFile) fs.unlinkSync(elfFile.path);
+    clearProgress(progressId);
 
-    // Clean up uploaded file
-    fs.unlinkSync(req.file.path);
+    // Store the result, so it can be retrieved again by ID
+    const analysisId = await resultStore.save('analysis', result);
 
-    res.json(result);
+    res.json({
+      analysisId,
+      ...result,
+    });
   } catch (error) {
     console.error('Error parsing map file:', error);
-    res.status(500).json({ error: 'Failed to parse map file', details: error.message });
+
+    try {
+      if (mapFile) fs.unlinkSync(mapFile.path);
+      if (elfFile) fs.unlinkSync(elfFile.path);
+    } catch (cleanupError) {
+      // Ignore cleanup errors
+    }
+    clearProgress(progressId);
+
+    res.status(errorStatus(error)).json({ error: 'Failed to parse map file', details: error.message });
   }
 });
 
+// GET /analyze/:id - Retrieve a stored analysis result
+app.get('/analyze/:id', async (req, res) => {
+  try {
+    const analysisId = req.params.id;
+    const result = await resultStore.load(analysisId, ['analysis']);
+
+    if (!result) {
+      return res.status(404).json({
+        error: 'Analysis not found or expired',
+        analysisId
+      });
+    }
+
+    res.json({
+      analysisId,
+      ...result,
+    });
+  } catch (error) {
+    console.error('Error retrieving analysis:', error);
+    res.status(500).json({
+      error: 'Failed to retrieve analysis',
+      details: error.message
+    });
+  }
+});
+
+// GET /analyze/progress/:id - Progress of a map file being parsed, by the progressId sent with the upload
+app.get('/analyze/progress/:id', (req, res) => {
+  const progress = getProgress(req.params.id);
+
+  if (!progress) {
+    return res.status(404).json({ error: 'No parse in progress', progressId: req.params.id });
+  }
+
+  res.json(progress);
+});
+
 // POST /compare endpoint - Compare two map files
 app.post('/compare', upload.fields([
   { name: 'fileA', maxCount: 1 },
   { name: 'fileB', maxCount: 1 }
-]), (req, res) => {
+]), async (req, res) => {
   try {
     if (!req.files || !req.files.fileA || !req.files.fileB) {
       return res.status(400).json({ error: 'Both fileA and fileB are required' });
@@ -63,8 +167,8 @@ app.post('/compare', upload.fields([
     const fileB = req.files.fileB[0];
 
     // Parse both files
-    const analysisA = parseMapFile(fileA.path);
-    const analysisB = parseMapFile(fileB.path);
+    const analysisA = await parseMapInWorker(fileA.path);
+    const analysisB = await parseMapInWorker(fileB.path);
 
     // Get comparison options from query params
     const options = {
@@ -78,7 +182,7 @@ app.post('/compare', upload.fields([
     const compareResult = compareAnalyses(analysisA, analysisB, options);
 
     // Store the result and get an ID
-    const compareId = storeComparison(compareResult);
+    const compareId = await resultStore.save('comparison', compareResult);
 
     // Clean up uploaded files
     fs.unlinkSync(fileA.path);
@@ -100,7 +204,7 @@ app.post('/compare', upload.fields([
       // Ignore cleanup errors
     }
 
-    res.status(500).json({
+    res.status(errorStatus(error)).json({
       error: 'Failed to compare map files',
       details: error.message
     });
@@ -108,10 +212,11 @@ app.post('/compare', upload.fields([
 });
 
 // GET /compare/:id - Retrieve a stored comparison result
-app.get('/compare/:id', (req, res) => {
+// Diff IDs are accepted too, as /diff results were retrievable here before GET /diff/:id existed
+app.get('/compare/:id', async (req, res) => {
   try {
     const compareId = req.params.id;
-    const result = getComparison(compareId);
+    const result = await resultStore.load(compareId, ['comparison', 'diff']);
 
     if (!result) {
       return res.status(404).json({
@@ -133,11 +238,22 @@ app.get('/compare/:id', (req, res) => {
   }
 });
 
-// GET /compare - Get storage statistics
-app.get('/compare', (req, res) => {
+// GET /compare - Get storage statistics of the stored comparisons and diffs
+app.get('/compare', async (req, res) => {
   try {
-    const stats = getStats();
-    res.json(stats);
+    const now = Date.now();
+    const entries = await resultStore.list(['comparison', 'diff']);
+    res.json({
+      driver: resultStore.driver,
+      totalStored: entries.length,
+      entries: entries.map(entry => ({
+        compareId: entry.id,
+        kind: entry.kind,
+        createdAt: new Date(entry.createdAt).toISOString(),
+        expiresAt: entry.expiresAt === null ? null : new Date(entry.expiresAt).toISOString(),
+        timeRemaining: entry.expiresAt === null ? null : entry.expiresAt - now,
+      })),
+    });
   } catch (error) {
     console.error('Error getting stats:', error);
     res.status(500).json({
@@ -151,7 +267,7 @@ app.get('/compare', (req, res) => {
 app.post('/diff', upload.fields([
   { name: 'fileV1', maxCount: 1 },
   { name: 'fileV2', maxCount: 1 }
-]), (req, res) => {
+]), async (req, res) => {
   try {
     if (!req.files || !req.files.fileV1 || !req.files.fileV2) {
       return res.status(400).json({ error: 'Both fileV1 and fileV2 are required' });
@@ -161,21 +277,14 @@ app.post('/diff', upload.fields([
     const fileV2 = req.files.fileV2[0];
 
     // Parse both files
-    const analysisV1 = parseMapFile(fileV1.path);
-    const analysisV2 = parseMapFile(fileV2.path);
-
-    // Get diff options
-    const options = {
-      anomalyGrowthThreshold: parseFloat(req.query.growthThreshold) || 10,
-      anomalyShrinkThreshold: parseFloat(req.query.shrinkThreshold) || 10,
-      addressShiftThreshold: parseInt(req.query.addressShift) || 0x1000,
-    };
+    const analysisV1 = await parseMapInWorker(fileV1.path);
+    const analysisV2 = await parseMapInWorker(fileV2.path);
 
     // Compute enhanced diff
-    const diffResult = computeMemoryDiff(analysisV1, analysisV2, options);
+    const diffResult = computeMemoryDiff(analysisV1, analysisV2, diffOptions(req.query));
 
-    // Store with TTL
-    const diffId = storeComparison(diffResult);
+    // Store the result and get an ID
+    const diffId = await resultStore.save('diff', diffResult);
 
     // Clean up
     fs.unlinkSync(fileV1.path);
@@ -194,19 +303,281 @@ app.post('/diff', upload.fields([
       if (req.files?.fileV2?.[0]?.path) fs.unlinkSync(req.files.fileV2[0].path);
     } catch (e) {}
 
-    res.status(500).json({
+    res.status(errorStatus(error)).json({
       error: 'Failed to compute diff',
       details: error.message
     });
   }
 });
 
+// GET /diff/:id - Retrieve a stored diff result
+app.get('/diff/:id', async (req, res) => {
+  try {
+    const diffId = req.params.id;
+    const result = await resultStore.load(diffId, ['diff']);
+
+    if (!result) {
+      return res.status(404).json({
+        error: 'Diff not found or expired',
+        diffId
+      });
+    }
+
+    res.json({
+      diffId,
+      ...result,
+    });
+  } catch (error) {
+    console.error('Error retrieving diff:', error);
+    res.status(500).json({
+      error: 'Failed to retrieve diff',
+      details: error.message
+    });
+  }
+});
+
+// POST /projects - Register a project for build history
+app.post('/projects', async (req, res) => {
+  try {
+    const name = req.body?.name;
+    const description = req.body?.description || null;
+
+    if (!isValidProjectName(name)) {
+      return res.status(400).json({
+        error: 'A project name of letters, digits, dots, dashes and underscores is required',
+        name
+      });
+    }
+
+    const project = await buildHistory.createProject(name, description);
+    if (!project) {
+      return res.status(409).json({ error: 'Project already exists', name });
+    }
+
+    res.status(201).json(project);
+  } catch (error) {
+    console.error('Error creating project:', error);
+    res.status(500).json({
+      error: 'Failed to create project',
+      details: error.message
+    });
+  }
+});
+
+// GET /projects - List projects with their build counts and branches
+app.get('/projects', async (req, res) => {
+  try {
+    res.json(await buildHistory.listProjects());
+  } catch (error) {
+    console.error('Error listing projects:', error);
+    res.status(500).json({
+      error: 'Failed to list projects',
+      details: error.message
+    });
+  }
+});
+
+// GET /projects/:name - Retrieve a project
+app.get('/projects/:name', async (req, res) => {
+  try {
+    const project = (await buildHistory.listProjects()).find(p => p.name === req.params.name);
+
+    if (!project) {
+      return res.status(404).json({ error: 'Project not found', name: req.params.name });
+    }
+
+    res.json(project);
+  } catch (error) {
+    console.error('Error retrieving project:', error);
+    res.status(500).json({
+      error: 'Failed to retrieve project',
+      details: error.message
+    });
+  }
+});
+
+// POST /projects/:name/builds - Analyze a CI build's map file and add it to the project's history
+app.post('/projects/:name/builds', upload.fields([
+  { name: 'mapFile', maxCount: 1 },
+  { name: 'elfFile', maxCount: 1 }
+]), async (req, res) => {
+  const mapFile = req.files?.mapFile?.[0];
+  const elfFile = req.files?.elfFile?.[0];
+
+  const cleanup = () => {
+    try {
+      if (mapFile) fs.unlinkSync(mapFile.path);
+      if (elfFile) fs.unlinkSync(elfFile.path);
+    } catch (cleanupError) {
+      // Ignore cleanup errors
+    }
+  };
+
+  try {
+    const name = req.params.name;
+    const { commit, branch, target } = req.body || {};
+    const buildNumber = req.body?.buildNumber ? Number(req.body.buildNumber) : null;
+    const timestamp = req.body?.timestamp ? new Date(req.body.timestamp) : new Date();
+
+    if (!await buildHistory.getProject(name)) {
+      cleanup();
+      return res.status(404).json({ error: 'Project not found', name });
+    }
+    if (!mapFile && !elfFile) {
+      return res.status(400).json({ error: 'No file uploaded' });
+    }
+    if (!commit || !branch) {
+      cleanup();
+      return res.status(400).json({ error: 'Both commit and branch are required' });
+    }
+    if (buildNumber !== null && !Number.isInteger(buildNumber)) {
+      cleanup();
+      return res.status(400).json({ error: 'buildNumber must be an integer', buildNumber: req.body.buildNumber });
+    }
+    if (isNaN(timestamp.getTime())) {
+      cleanup();
+      return res.status(400).json({ error: 'timestamp must be an ISO 8601 date', timestamp: req.body.timestamp });
+    }
+
+    const result = await analyzeUpload(mapFile, elfFile);
+    cleanup();
+
+    const build = await buildHistory.addBuild(name, {
+      commit,
+      branch,
+      buildNumber,
+      timestamp: timestamp.toISOString(),
+      target: target || null,
+      fileName: (mapFile || elfFile).originalname,
+    }, result);
+
+    res.status(201).json(build);
+  } catch (error) {
+    console.error('Error adding build:', error);
+    cleanup();
+
+    res.status(errorStatus(error)).json({
+      error: 'Failed to add build',
+      details: error.message
+    });
+  }
+});
+
+// GET /projects/:name/builds - List a project's builds, oldest first, optionally of one branch or target
+app.get('/projects/:name/builds', async (req, res) => {
+  try {
+    const name = req.params.name;
+
+    if (!await buildHistory.getProject(name)) {
+      return res.status(404).json({ error: 'Project not found', name });
+    }
+
+    res.json(await buildHistory.listBuilds(name, { branch: req.query.branch, target: req.query.target }));
+  } catch (error) {
+    console.error('Error listing builds:', error);
+    res.status(500).json({
+      error: 'Failed to list builds',
+      details: error.message
+    });
+  }
+});
+
+// GET /projects/:name/builds/:buildId - Retrieve a build with its analysis result
+app.get('/projects/:name/builds/:buildId', async (req, res) => {
+  try {
+    const { name, buildId } = req.params;
+    const build = await buildHistory.getBuild(name, buildId);
+
+    if (!build) {
+      return res.status(404).json({ error: 'Build not found', name, buildId });
+    }
+
+    res.json(build);
+  } catch (error) {
+    console.error('Error retrieving build:', error);
+    res.status(500).json({
+      error: 'Failed to retrieve build',
+      details: error.message
+    });
+  }
+});
+
+// GET /projects/:name/timeline - Region usage of a project's builds, per branch
+app.get('/projects/:name/timeline', async (req, res) => {
+  try {
+    const name = req.params.name;
+
+    if (!await buildHistory.getProject(name)) {
+      return res.status(404).json({ error: 'Project not found', name });
+    }
+
+    res.json({
+      project: name,
+      branches: await buildHistory.getTimeline(name, { branch: req.query.branch, target: req.query.target }),
+    });
+  } catch (error) {
+    console.error('Error building timeline:', error);
+    res.status(500).json({
+      error: 'Failed to build timeline',
+      details: error.message
+    });
+  }
+});
+
+// GET /projects/:name/compare - Memory diff of two stored builds, by the base and head build IDs
+// Computed on each request and not stored, so repeating the request has no effect on result storage
+app.get('/projects/:name/compare', async (req, res) => {
+  try {
+    const name = req.params.name;
+    const { base: baseId, head: headId } = req.query;
+
+    if (!baseId || !headId) {
+      return res.status(400).json({ error: 'Both base and head build IDs are required' });
+    }
+
+    const base = await buildHistory.getBuild(name, baseId);
+    const head = await buildHistory.getBuild(name, headId);
+    if (!base || !head) {
+      return res.status(404).json({
+        error: 'Build not found',
+        name,
+        buildId: base ? headId : baseId
+      });
+    }
+
+    // The builds' records travel with the diff, to show what was compared
+    const { analysis: analysisV1, ...buildV1 } = base;
+    const { analysis: analysisV2, ...buildV2 } = head;
+
+    res.json({
+      ...computeMemoryDiff(analysisV1, analysisV2, diffOptions(req.query)),
+      builds: { v1: buildV1, v2: buildV2 },
+    });
+  } catch (error) {
+    console.error('Error comparing builds:', error);
+    res.status(500).json({
+      error: 'Failed to compare builds',
+      details: error.message
+    });
+  }
+});
+
 app.listen(PORT, () => {
   console.log(`Backend server running on http://localhost:${PORT}`);
   console.log(`Endpoints:`);
-  console.log(`  POST /analyze - Analyze a single map file`);
+  console.log(`  POST /analyze - Analyze a map or ELF file (mapFile, optional elfFile and progressId)`);
+  console.log(`  GET /analyze/:id - Retrieve analysis result`);
+  console.log(`  GET /analyze/progress/:id - Parse progress of an /analyze upload`);
   console.log(`  POST /compare - Compare two map files`);
   console.log(`  POST /diff - Enhanced diff with anomaly detection`);
+  console.log(`  GET /diff/:id - Retrieve diff result`);
   console.log(`  GET /compare/:id - Retrieve comparison result`);
   console.log(`  GET /compare - Get storage statistics`);
+  console.log(`  POST /projects - Register a project (name, optional description)`);
+  console.log(`  GET /projects, GET /projects/:name - List projects, retrieve a project`);
+  console.log(`  POST /projects/:name/builds - Add a CI build (mapFile, optional elfFile, commit, branch, buildNumber, timestamp, target)`);
+  console.log(`  GET /projects/:name/builds, GET /projects/:name/builds/:buildId - List builds, retrieve a build`);
+  console.log(`  GET /projects/:name/timeline - Region usage of builds per branch`);
+  console.log(`  GET /projects/:name/compare?base=&head= - Diff two builds`);
+  console.log(`Results stored with the ${resultStore.driver} storage driver`);
 });
@@ -0,0 +1,177 @@
+/**
+ * Build History
+ * Projects registered by name, each holding the analysis of every CI build posted to it,
+ * kept in result storage until removed
+ */
+
+const { sumUsedByRegion } = require('../dist/shared/utils/memoryRegions');
+
+// Project names appear in URLs, e.g. motor-controller-fw
+const PROJECT_NAME_REGEX = /^[A-Za-z0-9][A-Za-z0-9._-]{0,99}$/;
+
+/**
+ * Check whether a project name can be registered
+ * @param {string} name - Project name
+ * @returns {boolean} True for 1-100 letters, digits, dots, dashes and underscores, not starting with a symbol
+ */
+function isValidProjectName(name) {
+  return typeof name === 'string' && PROJECT_NAME_REGEX.test(name);
+}
+
+/**
+ * Used bytes of each memory region, padding included as in the memory summary, for plotting builds
+ * without loading their analyses
+ * @param {Object} result - Analysis result
+ * @returns {Array} Regions with name, lengthBytes and used, in declaration order
+ */
+function summarizeRegions(result) {
+  const totals = sumUsedByRegion(result.sections, result.padding);
+  const names = new Set([...Object.keys(result.memory || {}), ...Object.keys(totals)]);
+
+  return Array.from(names).map(name => ({
+    name,
+    lengthBytes: result.memory?.[name]?.lengthBytes || 0,
+    used: totals[name] || 0,
+  }));
+}
+
+/**
+ * Order builds by timestamp, then build number, oldest first
+ */
+function compareBuilds(a, b) {
+  return a.timestamp.localeCompare(b.timestamp) || (a.buildNumber ?? 0) - (b.buildNumber ?? 0);
+}
+
+/**
+ * Create the build history over result storage
+ * @param {Object} storage - Storage from createStorage
+ * @returns {Object} Build history with async project and build functions
+ */
+function createBuildHistory(storage) {
+  const toBuild = entry => ({ buildId: entry.id, ...entry.meta });
+  // Settles when the last project registration has, whether or not it succeeded
+  let creating = Promise.resolve();
+
+  /**
+   * Find a registered project
+   * @param {string} name - Project name
+   * @returns {Promise<Object|null>} The project (name, description, createdAt) or null
+   */
+  async function getProject(name) {
+    const [entry] = await storage.list(['project'], { name });
+    return entry ? entry.meta : null;
+  }
+
+  /**
+   * List the builds of a project, oldest first
+   * @param {string} name - Project name
+   * @param {Object} filters - Optional branch and target to list builds of
+   * @returns {Promise<Array>} Build records, without their analyses
+   */
+  async function listBuilds(name, filters = {}) {
+    const meta = { project: name };
+    if (filters.branch) {
+      meta.branch = filters.branch;
+    }
+    if (filters.target) {
+      meta.target = filters.target;
+    }
+    return (await storage.list(['build'], meta)).map(toBuild).sort(compareBuilds);
+  }
+
+  return {
+    getProject,
+    listBuilds,
+
+    /**
+     * List registered projects with a summary of their builds
+     * @returns {Promise<Array>} Projects with buildCount, branches and lastBuildAt, by name
+     */
+    async listProjects() {
+      const projects = await Promise.all((await storage.list(['project'])).map(async entry => {
+        const projectBuilds = await listBuilds(entry.meta.name);
+        return {
+          ...entry.meta,
+          buildCount: projectBuilds.length,
+          branches: Array.from(new Set(projectBuilds.map(build => build.branch))).sort(),
+          lastBuildAt: projectBuilds.length > 0 ? projectBuilds[projectBuilds.length - 1].timestamp : null,
+        };
+      }));
+
+      return projects.sort((a, b) => a.name.localeCompare(b.name));
+    },
+
+    /**
+     * Register a project, one at a time so that concurrent requests cannot register a name twice
+     * @param {string} name - Project name, see isValidProjectName
+     * @param {string} description - Optional description
+     * @returns {Promise<Object|null>} The project, or null if the name is already registered
+     */
+    createProject(name, description = null) {
+      const created = creating.then(async () => {
+        if (await getProject(name)) {
+          return null;
+        }
+        const project = { name, description, createdAt: new Date().toISOString() };
+        await storage.save('project', project, project);
+        return project;
+      });
+      creating = created.catch(() => {});
+      return created;
+    },
+
+    /**
+     * Store the analysis of a build
+     * @param {string} name - Project name
+     * @param {Object} build - commit, branch, buildNumber, timestamp (ISO) and target of the build, and the uploaded fileName
+     * @param {Object} result - Analysis result of the build's map or ELF file
+     * @returns {Promise<Object>} The build record with its buildId
+     */
+    async addBuild(name, build, result) {
+      const record = {
+        project: name,
+        ...build,
+        format: result.format || null,
+        regions: summarizeRegions(result),
+      };
+      const buildId = await storage.save('build', { ...record, analysis: result }, record);
+      return { buildId, ...record };
+    },
+
+    /**
+     * Retrieve a build with its analysis
+     * @param {string} name - Project name
+     * @param {string} buildId - Build ID
+     * @returns {Promise<Object|null>} The build record with analysis, or null if not found in this project
+     */
+    async getBuild(name, buildId) {
+      const build = await storage.load(buildId, ['build']);
+      return build && build.project === name ? { buildId, ...build } : null;
+    },
+
+    /**
+     * Builds of a project grouped by branch, each branch oldest first
+     * @param {string} name - Project name
+     * @param {Object} filters - Optional branch and target to include
+     * @returns {Promise<Array>} Branches with their builds, the most recently built branch first
+     */
+    async getTimeline(name, filters = {}) {
+      const branches = new Map();
+      (await listBuilds(name, filters)).forEach(build => {
+        if (!branches.has(build.branch)) {
+          branches.set(build.branch, []);
+        }
+        branches.get(build.branch).push(build);
+      });
+
+      return Array.from(branches.entries())
+        .map(([branch, builds]) => ({ branch, builds }))
+        .sort((a, b) => compareBuilds(b.builds[b.builds.length - 1], a.builds[a.builds.length - 1]));
+    },
+  };
+}
+
+module.exports = {
+  createBuildHistory,
+  isValidProjectName,
+};
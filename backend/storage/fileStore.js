@@ -0,0 +1,87 @@
+/**
+ * File system result store
+ * One JSON file per result, next to a small metadata file, so listing entries never reads a result
+ */
+
+const crypto = require('crypto');
+const fs = require('fs');
+const path = require('path');
+const { matchesFilter } = require('./listFilter');
+
+const META_SUFFIX = '.meta.json';
+
+/**
+ * Write a file in one step: to a temporary file, renamed over the target,
+ * so a concurrent read sees the old contents or the new ones, never part of them
+ * @param {string} file - Target file
+ * @param {string} contents - File contents
+ */
+async function writeFileAtomic(file, contents) {
+  const temporary = `${file}.${crypto.randomBytes(4).toString('hex')}.tmp`;
+  try {
+    await fs.promises.writeFile(temporary, contents);
+    await fs.promises.rename(temporary, file);
+  } catch (error) {
+    await fs.promises.rm(temporary, { force: true });
+    throw error;
+  }
+}
+
+/**
+ * Read and parse a JSON file that another request may be deleting
+ * @param {string} file - JSON file
+ * @returns {Promise<*>} Parsed contents, or null when the file is gone or not valid JSON
+ */
+async function readJson(file) {
+  try {
+    return JSON.parse(await fs.promises.readFile(file, 'utf-8'));
+  } catch (error) {
+    if (error.code === 'ENOENT' || error instanceof SyntaxError) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Create a store writing entries to a directory, created if missing
+ * @param {string} directory - Directory holding <id>.json and <id>.meta.json files
+ * @returns {Object} Store with async set(entry), get(id), delete(id) and list(filter)
+ */
+function createFileStore(directory) {
+  fs.mkdirSync(directory, { recursive: true });
+
+  const resultPath = id => path.join(directory, `${id}.json`);
+  const metaPath = id => path.join(directory, `${id}${META_SUFFIX}`);
+
+  return {
+    async set(entry) {
+      const { id, kind, createdAt, expiresAt, meta } = entry;
+      // The result is written first, so an entry that can be listed can also be read
+      await writeFileAtomic(resultPath(id), JSON.stringify(entry.result));
+      await writeFileAtomic(metaPath(id), JSON.stringify({ id, kind, createdAt, expiresAt, meta }));
+    },
+
+    async get(id) {
+      const meta = await readJson(metaPath(id));
+      const result = meta && await readJson(resultPath(id));
+      return result === null ? null : { ...meta, result };
+    },
+
+    async delete(id) {
+      const existed = fs.existsSync(metaPath(id));
+      await fs.promises.rm(metaPath(id), { force: true });
+      await fs.promises.rm(resultPath(id), { force: true });
+      return existed;
+    },
+
+    async list(filter = {}) {
+      // Entries deleted since the directory was read, and files that are not valid JSON, are left out
+      const files = (await fs.promises.readdir(directory)).filter(file => file.endsWith(META_SUFFIX));
+      const entries = await Promise.all(files.map(file => readJson(path.join(directory, file))));
+      return entries.filter(entry => entry !== null && matchesFilter(entry, filter));
+    },
+  };
+}
+
+module.exports = { createFileStore };
@@ -0,0 +1,208 @@
+/**
+ * Result Storage
+ * Stores analysis, comparison and diff results under an ID, with configurable retention,
+ * and the projects and builds of the build history, in memory, as files or in an embedded SQLite database
+ */
+
+const crypto = require('crypto');
+const path = require('path');
+const { createMemoryStore } = require('./memoryStore');
+const { createFileStore } = require('./fileStore');
+const { createSqliteStore } = require('./sqliteStore');
+
+const HOUR = 60 * 60 * 1000;
+const DEFAULT_TTL = 24 * HOUR; // 24 hours
+const DEFAULT_DIRECTORY = path.join(__dirname, '..', 'data');
+
+// ID prefix of each kind of result, e.g. cmp_20250101_1a2b3c4d
+const KIND_PREFIXES = {
+  analysis: 'ana',
+  comparison: 'cmp',
+  diff: 'diff',
+  project: 'prj',
+  build: 'bld',
+};
+const ID_REGEX = /^(ana|cmp|diff|prj|bld)_\d{8}_[0-9a-f]{8}$/;
+
+// Build history is kept until removed: it never expires and does not count towards maxEntries
+const HISTORY_KINDS = ['project', 'build'];
+const RESULT_KINDS = Object.keys(KIND_PREFIXES).filter(kind => !HISTORY_KINDS.includes(kind));
+
+/**
+ * Read the storage configuration from environment variables
+ * STORAGE_DRIVER (memory, fs or sqlite), STORAGE_PATH, STORAGE_TTL_HOURS (0 keeps results forever)
+ * and STORAGE_MAX_ENTRIES (oldest results are removed beyond it)
+ * @param {Object} env - Environment variables (default: process.env)
+ * @returns {Object} Options for createStorage
+ */
+function loadStorageConfig(env = process.env) {
+  const driver = env.STORAGE_DRIVER || 'memory';
+  const ttlHours = env.STORAGE_TTL_HOURS !== undefined && env.STORAGE_TTL_HOURS !== ''
+    ? parseFloat(env.STORAGE_TTL_HOURS)
+    : null;
+  const maxEntries = env.STORAGE_MAX_ENTRIES !== undefined && env.STORAGE_MAX_ENTRIES !== ''
+    ? parseInt(env.STORAGE_MAX_ENTRIES)
+    : null;
+
+  if (ttlHours !== null && (isNaN(ttlHours) || ttlHours < 0)) {
+    throw new Error(`Invalid STORAGE_TTL_HOURS: ${env.STORAGE_TTL_HOURS}`);
+  }
+  if (maxEntries !== null && (isNaN(maxEntries) || maxEntries < 1)) {
+    throw new Error(`Invalid STORAGE_MAX_ENTRIES: ${env.STORAGE_MAX_ENTRIES}`);
+  }
+
+  return {
+    driver,
+    path: env.STORAGE_PATH || null,
+    ttl: ttlHours === null ? DEFAULT_TTL : ttlHours * HOUR,
+    maxEntries,
+  };
+}
+
+/**
+ * Create the driver named in the configuration
+ */
+function createDriver(driver, location) {
+  switch (driver) {
+    case 'memory':
+      return createMemoryStore();
+    case 'fs':
+      return createFileStore(location || path.join(DEFAULT_DIRECTORY, 'results'));
+    case 'sqlite':
+      return createSqliteStore(location || path.join(DEFAULT_DIRECTORY, 'results.db'));
+    default:
+      throw new Error(`Unknown storage driver: ${driver} (expected memory, fs or sqlite)`);
+  }
+}
+
+/**
+ * Generate a unique result ID for a kind of result
+ */
+function generateId(kind) {
+  const timestamp = new Date().toISOString().split('T')[0].replace(/-/g, '');
+  const random = crypto.randomBytes(4).toString('hex');
+  return `${KIND_PREFIXES[kind]}_${timestamp}_${random}`;
+}
+
+/**
+ * Create result storage
+ * @param {Object} options - Storage options, see loadStorageConfig
+ * @param {string} options.driver - memory, fs or sqlite (default: memory)
+ * @param {string} options.path - Directory (fs) or database file (sqlite), defaults to backend/data
+ * @param {number} options.ttl - Time to live in milliseconds, 0 to keep results until removed (default: 24 hours)
+ * @param {number} options.maxEntries - Most results kept, oldest removed first, build history aside (default: unlimited)
+ * @returns {Object} Storage with async save, load, remove, list and prune
+ */
+function createStorage(options = {}) {
+  const driver = options.driver || 'memory';
+  const ttl = options.ttl ?? DEFAULT_TTL;
+  const maxEntries = options.maxEntries || null;
+  const store = createDriver(driver, options.path);
+
+  const isExpired = (entry, now) => entry.expiresAt !== null && now > entry.expiresAt;
+
+  /**
+   * Remove expired results, then the oldest ones beyond maxEntries
+   * @returns {Promise<number>} Number of results removed
+   */
+  async function prune() {
+    const now = Date.now();
+    const entries = await store.list({ kinds: RESULT_KINDS });
+    const expired = entries.filter(entry => isExpired(entry, now));
+    const kept = entries
+      .filter(entry => !isExpired(entry, now))
+      .sort((a, b) => b.createdAt - a.createdAt);
+    const removed = [...expired, ...(maxEntries ? kept.slice(maxEntries) : [])];
+
+    for (const entry of removed) {
+      await store.delete(entry.id);
+    }
+    return removed.length;
+  }
+
+  return {
+    driver,
+
+    /**
+     * Store a result
+     * @param {string} kind - analysis, comparison, diff, project or build
+     * @param {Object} result - The result to store
+     * @param {Object} meta - Small description of the result returned by list, e.g. a build's commit and branch
+     * @returns {Promise<string>} The generated ID
+     */
+    async save(kind, result, meta = null) {
+      if (!KIND_PREFIXES[kind]) {
+        throw new Error(`Unknown result kind: ${kind}`);
+      }
+
+      const id = generateId(kind);
+      const createdAt = Date.now();
+      await store.set({
+        id,
+        kind,
+        createdAt,
+        expiresAt: ttl > 0 && !HISTORY_KINDS.includes(kind) ? createdAt + ttl : null,
+        meta,
+        result,
+      });
+      // The result is stored either way; a failed prune is retried with the next save or the hourly prune
+      await prune().catch(error => console.error('Error pruning stored results:', error));
+
+      return id;
+    },
+
+    /**
+     * Retrieve a result by ID
+     * @param {string} id - The result ID
+     * @param {string[]} kinds - Kinds of result accepted (default: any)
+     * @returns {Promise<Object|null>} The result or null if not found/expired/of another kind
+     */
+    async load(id, kinds = null) {
+      // IDs become file names, so anything else is rejected before reaching the driver
+      if (!ID_REGEX.test(id)) {
+        return null;
+      }
+
+      const entry = await store.get(id);
+      if (!entry || (kinds && !kinds.includes(entry.kind))) {
+        return null;
+      }
+
+      if (isExpired(entry, Date.now())) {
+        await store.delete(id);
+        return null;
+      }
+
+      return entry.result;
+    },
+
+    /**
+     * Delete a result
+     * @param {string} id - The result ID
+     * @returns {Promise<boolean>} True if deleted, false if not found
+     */
+    async remove(id) {
+      return ID_REGEX.test(id) ? store.delete(id) : false;
+    },
+
+    /**
+     * List stored results, newest first
+     * @param {string[]} kinds - Kinds of result listed (default: all)
+     * @param {Object} meta - Values the results' meta must have, e.g. { project: 'firmware' } (default: any)
+     * @returns {Promise<Object[]>} id, kind, createdAt, expiresAt and meta of each result
+     */
+    async list(kinds = null, meta = {}) {
+      const now = Date.now();
+      return (await store.list({ kinds, meta }))
+        .filter(entry => !isExpired(entry, now))
+        .sort((a, b) => b.createdAt - a.createdAt);
+    },
+
+    prune,
+  };
+}
+
+module.exports = {
+  createStorage,
+  loadStorageConfig,
+};
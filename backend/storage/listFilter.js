@@ -0,0 +1,17 @@
+/**
+ * List Filter
+ * Selects the entries a store lists, for the drivers that cannot query their entries
+ */
+
+/**
+ * Check an entry against a list filter
+ * @param {Object} entry - Stored entry
+ * @param {Object} filter - kinds listed, and meta values the entry's meta must have (both optional)
+ * @returns {boolean} True if the entry is listed
+ */
+function matchesFilter(entry, { kinds = null, meta = {} }) {
+  return (!kinds || kinds.includes(entry.kind))
+    && Object.entries(meta).every(([key, value]) => entry.meta?.[key] === value);
+}
+
+module.exports = { matchesFilter };
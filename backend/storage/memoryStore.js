@@ -0,0 +1,40 @@
+/**
+ * In-memory result store
+ * Fast and dependency-free, but every result is lost when the server restarts
+ */
+
+const { matchesFilter } = require('./listFilter');
+
+/**
+ * Create a store keeping entries in a process-local Map
+ * @returns {Object} Store with async set(entry), get(id), delete(id) and list(filter)
+ */
+function createMemoryStore() {
+  const entries = new Map();
+
+  return {
+    async set(entry) {
+      entries.set(entry.id, entry);
+    },
+
+    async get(id) {
+      return entries.get(id) || null;
+    },
+
+    async delete(id) {
+      return entries.delete(id);
+    },
+
+    async list(filter = {}) {
+      return Array.from(entries.values()).filter(entry => matchesFilter(entry, filter)).map(entry => ({
+        id: entry.id,
+        kind: entry.kind,
+        createdAt: entry.createdAt,
+        expiresAt: entry.expiresAt,
+        meta: entry.meta,
+      }));
+    },
+  };
+}
+
+module.exports = { createMemoryStore };
@@ -0,0 +1,82 @@
+/**
+ * SQLite result store
+ * Uses the SQLite build embedded in Node.js (node:sqlite, Node.js 22.13 and later), so no native module is needed
+ */
+
+const fs = require('fs');
+const path = require('path');
+
+/**
+ * Create a store keeping entries in one table of an SQLite database file, created if missing
+ * @param {string} filePath - Database file
+ * @returns {Object} Store with async set(entry), get(id), delete(id) and list(filter)
+ */
+function createSqliteStore(filePath) {
+  // Loaded here rather than at the top, so the other stores keep working on older Node.js versions
+  let sqlite;
+  try {
+    sqlite = require('node:sqlite');
+  } catch (error) {
+    throw new Error(`The sqlite storage driver needs Node.js 22.13 or later: ${error.message}`);
+  }
+
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  const db = new sqlite.DatabaseSync(filePath);
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS results (
+      id TEXT PRIMARY KEY,
+      kind TEXT NOT NULL,
+      created_at INTEGER NOT NULL,
+      expires_at INTEGER,
+      meta TEXT,
+      result TEXT NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS results_kind ON results (kind)
+  `);
+
+  const insertEntry = db.prepare('INSERT OR REPLACE INTO results (id, kind, created_at, expires_at, meta, result) VALUES (?, ?, ?, ?, ?, ?)');
+  const selectEntry = db.prepare('SELECT id, kind, created_at, expires_at, meta, result FROM results WHERE id = ?');
+  const deleteEntry = db.prepare('DELETE FROM results WHERE id = ?');
+
+  const toMeta = row => ({
+    id: row.id,
+    kind: row.kind,
+    createdAt: row.created_at,
+    expiresAt: row.expires_at,
+    meta: JSON.parse(row.meta),
+  });
+
+  return {
+    async set(entry) {
+      insertEntry.run(entry.id, entry.kind, entry.createdAt, entry.expiresAt, JSON.stringify(entry.meta), JSON.stringify(entry.result));
+    },
+
+    async get(id) {
+      const row = selectEntry.get(id);
+      return row ? { ...toMeta(row), result: JSON.parse(row.result) } : null;
+    },
+
+    async delete(id) {
+      return deleteEntry.run(id).changes > 0;
+    },
+
+    async list({ kinds = null, meta = {} } = {}) {
+      // The filter is applied by the query, so entries of other kinds and projects are never read
+      const conditions = [];
+      const values = [];
+      if (kinds) {
+        conditions.push(`kind IN (${kinds.map(() => '?').join(', ')})`);
+        values.push(...kinds);
+      }
+      Object.entries(meta).forEach(([key, value]) => {
+        conditions.push(value === null ? 'json_extract(meta, ?) IS NULL' : 'json_extract(meta, ?) = ?');
+        values.push(`$.${key}`, ...(value === null ? [] : [value]));
+      });
+
+      const where = conditions.length > 0 ? ` WHERE ${conditions.join(' AND ')}` : '';
+      return db.prepare(`SELECT id, kind, created_at, expires_at, meta FROM results${where}`).all(...values).map(toMeta);
+    },
+  };
+}
+
+module.exports = { createSqliteStore };
@@ -0,0 +1,70 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const path = require('path');
+const { parseMap } = require('../parser');
+const { createStorage } = require('../storage');
+const { createBuildHistory } = require('../storage/buildHistory');
+const { compareAnalyses } = require('../dist/shared/utils/compareAnalysis');
+
+const parseFixture = name => parseMap(path.join(__dirname, '../fixtures', name));
+
+const BUILD = { commit: 'abc123', branch: 'main', buildNumber: 1, timestamp: '2025-01-01T12:00:00Z', target: null };
+
+test('build regions and comparison totals count padding as the memory summary does', async () => {
+  const result = await parseFixture('stm32f407-hal-gcc.map');
+  const buildHistory = createBuildHistory(createStorage());
+  await buildHistory.createProject('firmware');
+
+  const build = await buildHistory.addBuild('firmware', BUILD, result);
+  assert.deepEqual(
+    build.regions.map(region => [region.name, region.used]),
+    [['CCMRAM', 0], ['RAM', 2016], ['FLASH', 8236]]
+  );
+
+  const { summary } = compareAnalyses(result, result, { topN: 1 });
+  assert.equal(summary.totalFlashA, 8236);
+  assert.equal(summary.totalRamA, 2016);
+  assert.deepEqual(
+    summary.regions.map(region => [region.name, region.sizeA]),
+    [['CCMRAM', 0], ['RAM', 2016], ['FLASH', 8236]]
+  );
+});
+
+test('concurrent registrations of a name create one project', async () => {
+  const storage = createStorage();
+  const buildHistory = createBuildHistory(storage);
+
+  const projects = await Promise.all([
+    buildHistory.createProject('firmware', 'first'),
+    buildHistory.createProject('firmware', 'second'),
+    buildHistory.createProject('bootloader'),
+  ]);
+
+  assert.deepEqual(projects.map(project => project && [project.name, project.description]), [
+    ['firmware', 'first'], null, ['bootloader', null],
+  ]);
+  assert.deepEqual((await buildHistory.listProjects()).map(project => project.name), ['bootloader', 'firmware']);
+  assert.equal((await storage.list(['project'])).length, 2);
+});
+
+test('projects and builds are listed by project from storage', async t => {
+  const storage = createStorage();
+  const buildHistory = createBuildHistory(storage);
+  const result = await parseFixture('stm32f407-hal-gcc.map');
+  await buildHistory.createProject('firmware');
+  await buildHistory.createProject('bootloader');
+  await buildHistory.addBuild('firmware', BUILD, result);
+  await buildHistory.addBuild('firmware', { ...BUILD, branch: 'release', buildNumber: 2 }, result);
+  await buildHistory.addBuild('bootloader', BUILD, result);
+
+  const list = t.mock.method(storage, 'list');
+  assert.deepEqual(
+    (await buildHistory.listProjects()).map(project => [project.name, project.buildCount, project.branches]),
+    [['bootloader', 1, ['main']], ['firmware', 2, ['main', 'release']]]
+  );
+  assert.deepEqual((await buildHistory.listBuilds('firmware', { branch: 'release' })).map(build => build.buildNumber), [2]);
+  assert.equal((await buildHistory.getProject('bootloader')).name, 'bootloader');
+
+  // No call lists the builds of every project
+  list.mock.calls.forEach(call => assert.ok(call.arguments[0][0] === 'project' || call.arguments[1]?.project));
+});
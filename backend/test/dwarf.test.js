@@ -0,0 +1,58 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const fs = require('fs');
+const path = require('path');
+const { parseMap } = require('../parser');
+const { readSourceUnits } = require('../dist/shared/parser/parseElf');
+const { attributeSourcePaths } = require('../dist/shared/parser/dwarf');
+
+const fixture = name => path.join(__dirname, '../fixtures', name);
+
+/**
+ * One input section with a symbol at each address, as the parsers return it
+ */
+function analysisAt(addresses) {
+  const sections = addresses.map(address => ({
+    name: `.text.f${address}`,
+    address: '0x' + address.toString(16),
+    filePath: 'main.o',
+    region: 'FLASH',
+    symbols: [{ name: `f${address}`, address: '0x' + address.toString(16), size: 4 }],
+  }));
+  return { sections, symbols: [] };
+}
+
+test('attributes map symbols to the source files of the ELF\'s compilation units', async () => {
+  const result = await parseMap(fixture('dwarf-monorepo.map'));
+  attributeSourcePaths(result, await readSourceUnits(fs.readFileSync(fixture('dwarf-monorepo.elf'))));
+
+  assert.deepEqual(
+    Object.fromEntries(result.symbols.map(symbol => [symbol.name, symbol.sourcePath])),
+    {
+      net_poll: '/builds/fw/components/drivers/net/main.c',
+      tcp_input: '/builds/fw/third_party/lwip/core/tcp_in.c',
+      uart_write: '/builds/fw/components/drivers/uart/main.c',
+      _start: '/builds/fw/components/app/main.c',
+      uart_init: '/builds/fw/components/drivers/uart/main.c',
+      uart_banner: '/builds/fw/components/drivers/uart/main.c',
+      app_state: '/builds/fw/components/app/main.c',
+      net_packets: '/builds/fw/components/drivers/net/main.c',
+    }
+  );
+});
+
+test('attributes code linked at address 0', () => {
+  const analysis = analysisAt([0x0, 0x20, 0x190]);
+  attributeSourcePaths(analysis, [
+    { sourcePath: 'startup.c', ranges: [{ start: 0x0, end: 0x188 }] },
+    // Left at 0 by GNU ld for a function removed by --gc-sections
+    { sourcePath: 'unused.c', ranges: [{ start: 0x0, end: 0x28 }] },
+    { sourcePath: 'main.c', ranges: [{ start: 0x188, end: 0x400 }] },
+  ]);
+
+  assert.deepEqual(analysis.symbols.map(symbol => [symbol.name, symbol.sourcePath]), [
+    ['f0', 'startup.c'],
+    ['f32', 'startup.c'],
+    ['f400', 'main.c'],
+  ]);
+});
@@ -0,0 +1,31 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const path = require('path');
+const { parseMap } = require('../parser');
+const { computeMemoryDiff } = require('../dist/shared/utils/memoryDiff');
+
+const parseFixture = name => parseMap(path.join(__dirname, '../fixtures', name));
+
+test('totals count the used bytes of the regions, not debug sections', async () => {
+  const gcc = await parseFixture('stm32f407-hal-gcc.map');
+  const { summary, regionGroups } = computeMemoryDiff(gcc, await parseFixture('stm32f407-hal-lld.map'));
+
+  // FLASH 8236 and RAM 2016, .data's load image and padding included
+  assert.equal(summary.totalSizeV1, 8236 + 2016);
+  assert.equal(summary.totalSizeV2, 8236 + 2016);
+  assert.equal(summary.totalSizeDiff, 0);
+  // Unplaced sections (debug info, .comment) are grouped as OTHER
+  const placed = regionGroups.filter(group => group.name !== 'OTHER');
+  assert.equal(summary.totalSizeV1, placed.reduce((sum, group) => sum + group.sizeV1, 0));
+  assert.equal(summary.totalSizeV2, placed.reduce((sum, group) => sum + group.sizeV2, 0));
+});
+
+test('changes to debug info are no growth', async () => {
+  const gcc = await parseFixture('stm32f407-hal-gcc.map');
+  const debugGrown = {
+    ...gcc,
+    sections: gcc.sections.map(s => (s.region === null ? { ...s, size: s.size * 2 } : s)),
+  };
+
+  assert.equal(computeMemoryDiff(gcc, debugGrown).summary.totalSizeDiff, 0);
+});
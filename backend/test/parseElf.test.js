@@ -0,0 +1,27 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const fs = require('fs');
+const path = require('path');
+const { parseElf } = require('../dist/shared/parser/parseElf');
+
+const elf = fs.readFileSync(path.join(__dirname, '../fixtures/stm32f407-hal-gcc.elf'));
+
+test('reads allocated sections and infers regions from the load segments', async () => {
+  const result = await parseElf(elf);
+  assert.equal(result.format, 'elf');
+  assert.deepEqual(Object.keys(result.memory), ['ROM', 'RAM']);
+  assert.equal(result.outputSections.length, 9);
+  assert.equal(result.symbols.length, 63);
+});
+
+test('rejects truncated files as invalid', async () => {
+  for (const length of [16, 52, 200, elf.length - 1]) {
+    await assert.rejects(parseElf(elf.subarray(0, length)), { code: 'INVALID_ELF', message: 'Invalid or truncated ELF file' });
+  }
+});
+
+test('rejects section header tables past the end of the file', async () => {
+  const corrupt = Buffer.from(elf);
+  corrupt.writeUInt32LE(elf.length, 32); // e_shoff
+  await assert.rejects(parseElf(corrupt), { code: 'INVALID_ELF' });
+});
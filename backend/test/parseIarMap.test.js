@@ -0,0 +1,43 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const path = require('path');
+const { parseMap } = require('../parser');
+const { sumByRegion } = require('../dist/shared/utils/memoryRegions');
+
+let result;
+
+test.before(async () => {
+  result = await parseMap(path.join(__dirname, '../fixtures/stm32f407-hal-iar.map'));
+});
+
+test('detects the IAR format', () => {
+  assert.equal(result.format, 'iar');
+});
+
+test('reads regions from the placement summary', () => {
+  assert.deepEqual(
+    Object.entries(result.memory).map(([name, region]) => [name, region.origin, region.lengthBytes]),
+    [['ROM', '0x08000000', 1048576], ['RAM', '0x20000000', 131072]]
+  );
+});
+
+test('reads output and input sections', () => {
+  assert.deepEqual(result.outputSections.map(output => [output.name, output.size, output.region]), [
+    ['.intvec', 392, 'ROM'],
+    ['.text', 5154, 'ROM'],
+    ['.rodata', 40, 'ROM'],
+    ['.iar.init_table', 36, 'ROM'],
+    ['Initializer bytes', 20, 'ROM'],
+    ['.data', 20, 'RAM'],
+    ['.bss', 360, 'RAM'],
+    ['CSTACK', 4096, 'RAM'],
+    ['HEAP', 2048, 'RAM'],
+  ]);
+  assert.equal(result.sections.length, 37);
+  assert.equal(result.symbols.length, 47);
+});
+
+test('totals region usage', () => {
+  assert.deepEqual(sumByRegion(result.sections), { ROM: 5630, RAM: 6521 });
+  assert.deepEqual(result.padding, { totalSize: 15, regions: { ROM: 12, RAM: 3 } });
+});
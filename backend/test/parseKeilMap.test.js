@@ -0,0 +1,36 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const path = require('path');
+const { parseMap } = require('../parser');
+const { sumByRegion } = require('../dist/shared/utils/memoryRegions');
+
+let result;
+
+test.before(async () => {
+  result = await parseMap(path.join(__dirname, '../fixtures/stm32f407-hal-keil.map'));
+});
+
+test('detects the armlink format', () => {
+  assert.equal(result.format, 'armlink');
+});
+
+test('reads execution regions as memory regions', () => {
+  assert.deepEqual(
+    Object.entries(result.memory).map(([name, region]) => [name, region.origin, region.lengthBytes]),
+    [['ER_IROM1', '0x08000000', 1048576], ['RW_IRAM1', '0x20000000', 131072]]
+  );
+});
+
+test('reads output and input sections', () => {
+  assert.deepEqual(result.outputSections.map(output => [output.name, output.size, output.region]), [
+    ['ER_IROM1', 4241, 'ER_IROM1'],
+    ['RW_IRAM1', 1752, 'RW_IRAM1'],
+  ]);
+  assert.equal(result.sections.length, 47);
+  assert.equal(result.symbols.length, 43);
+});
+
+test('totals region usage', () => {
+  assert.deepEqual(sumByRegion(result.sections), { ER_IROM1: 4240, RW_IRAM1: 1749 });
+  assert.deepEqual(result.padding, { totalSize: 13, regions: { ER_IROM1: 13, RW_IRAM1: 3 } });
+});
@@ -0,0 +1,49 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const path = require('path');
+const { parseMap } = require('../parser');
+const { sumByRegion } = require('../dist/shared/utils/memoryRegions');
+
+let result;
+
+test.before(async () => {
+  result = await parseMap(path.join(__dirname, '../fixtures/stm32f407-hal-lld.map'));
+});
+
+test('detects the lld format', () => {
+  assert.equal(result.format, 'lld');
+});
+
+test('derives regions from the sections placed in them', () => {
+  assert.deepEqual(
+    Object.entries(result.memory).map(([name, region]) => [name, region.origin, region.lengthBytes]),
+    [['ROM', '0x08000000', 8236], ['RAM', '0x20000000', 2016]]
+  );
+});
+
+test('reads output and input sections', () => {
+  assert.deepEqual(result.outputSections.map(output => [output.name, output.size, output.region]), [
+    ['.isr_vector', 392, 'ROM'],
+    ['.text', 7612, 'ROM'],
+    ['.rodata', 104, 'ROM'],
+    ['.ARM.exidx', 8, 'ROM'],
+    ['.init_array', 4, 'ROM'],
+    ['.fini_array', 4, 'ROM'],
+    ['.data', 112, 'RAM'],
+    ['.bss', 364, 'RAM'],
+    ['._user_heap_stack', 1540, 'RAM'],
+    ['.ARM.attributes', 48, null],
+    ['.comment', 73, null],
+    ['.debug_info', 11599, null],
+    ['.symtab', 6720, null],
+    ['.shstrtab', 350, null],
+    ['.strtab', 7037, null],
+  ]);
+  assert.equal(result.sections.length, 81);
+  assert.equal(result.symbols.length, 63);
+});
+
+test('totals region usage, charging .data to both regions', () => {
+  assert.deepEqual(sumByRegion(result.sections), { ROM: 8227, RAM: 2013 });
+  assert.deepEqual(result.padding, { totalSize: 9, regions: { ROM: 9, RAM: 3 } });
+});
@@ -0,0 +1,212 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const fs = require('fs');
+const path = require('path');
+const { parseMap } = require('../parser');
+const { parseGnuMap } = require('../dist/shared/parser/parseMapFile');
+const { sumByRegion, sumUsedByRegion, hasLoadImage } = require('../dist/shared/utils/memoryRegions');
+const { crossCheckElf } = require('../dist/shared/utils/elfCrossCheck');
+const { compareAnalyses } = require('../dist/shared/utils/compareAnalysis');
+
+const parseFixture = name => parseMap(path.join(__dirname, '../fixtures', name));
+
+// Output sections with write permission in the ELF; the init and fini arrays are writable too
+const WRITABLE_SECTION_REGEX = /^\.(data|init_array|fini_array|preinit_array)\b/;
+
+/**
+ * Total allocated output sections as the Berkeley format of `size` does: read-only sections as text,
+ * writable sections with contents as data, zero-initialized ones as bss
+ * @param {Object} result - Analysis result
+ * @returns {Object} text, data and bss in bytes
+ */
+function berkeleySizes(result) {
+  const totals = { text: 0, data: 0, bss: 0 };
+  result.outputSections
+    .filter(output => output.region)
+    .forEach(output => {
+      if (!hasLoadImage(output.name)) {
+        totals.bss += output.size;
+      } else if (WRITABLE_SECTION_REGEX.test(output.name)) {
+        totals.data += output.size;
+      } else {
+        totals.text += output.size;
+      }
+    });
+  return totals;
+}
+
+test('arm-none-eabi: detects the GNU ld format', async () => {
+  const result = await parseFixture('stm32f407-hal-gcc.map');
+  assert.equal(result.format, 'gnu-ld');
+  assert.equal(result.dialect, null);
+});
+
+test('arm-none-eabi: reads the memory configuration', async () => {
+  const { memory } = await parseFixture('stm32f407-hal-gcc.map');
+  assert.deepEqual(
+    Object.entries(memory).map(([name, region]) => [name, region.origin, region.lengthBytes, region.attributes]),
+    [
+      ['CCMRAM', '0x10000000', 65536, 'xrw'],
+      ['RAM', '0x20000000', 131072, 'xrw'],
+      ['FLASH', '0x08000000', 1048576, 'xr'],
+    ]
+  );
+});
+
+test('arm-none-eabi: reads output and input sections, wrapped names included', async () => {
+  const result = await parseFixture('stm32f407-hal-gcc.map');
+  assert.deepEqual(result.outputSections.map(output => [output.name, output.size, output.region]), [
+    ['.isr_vector', 392, 'FLASH'],
+    ['.text', 7612, 'FLASH'],
+    ['.rodata', 104, 'FLASH'],
+    ['.ARM', 8, 'FLASH'],
+    ['.init_array', 4, 'FLASH'],
+    ['.fini_array', 4, 'FLASH'],
+    ['.data', 112, 'RAM'],
+    ['.bss', 364, 'RAM'],
+    ['._user_heap_stack', 1540, 'RAM'],
+    ['.ARM.attributes', 48, null],
+    ['.comment', 73, null],
+    ['.debug_info', 11599, null],
+  ]);
+  assert.equal(result.sections.length, 78);
+  assert.ok(result.sections.some(section => section.name === '.text.HAL_RCC_OscConfig' && section.size === 0x4f0));
+});
+
+test('arm-none-eabi: totals region usage', async () => {
+  const result = await parseFixture('stm32f407-hal-gcc.map');
+  assert.deepEqual(sumByRegion(result.sections), { FLASH: 8227, RAM: 2009 });
+  assert.deepEqual(result.padding, { totalSize: 13, regions: { FLASH: 9, RAM: 7 } });
+});
+
+test('arm-none-eabi: discarded totals count code and data, not debug info', async () => {
+  const { discarded } = await parseFixture('stm32f407-hal-gcc.map');
+  assert.equal(discarded.sectionCount, 14);
+  assert.ok(discarded.sections.some(section => section.name === '.debug_frame' && section.size === 44));
+  assert.equal(discarded.totalSize, 2204);
+  assert.equal(discarded.nonAllocatedSize, 44);
+  assert.equal(discarded.objects.reduce((sum, group) => sum + group.size, 0), discarded.totalSize);
+});
+
+test('x86-64 bare-metal: totals match size run on the ELF of the same build', async () => {
+  // $ size x86_64-baremetal-gcc.elf
+  //    text    data     bss     dec     hex filename
+  //     538      16     264     818     332 x86_64-baremetal-gcc.elf
+  const result = await parseFixture('x86_64-baremetal-gcc.map');
+  assert.deepEqual(berkeleySizes(result), { text: 538, data: 16, bss: 264 });
+  assert.deepEqual(crossCheckElf(result, await parseFixture('x86_64-baremetal-gcc.elf')), {
+    matched: 6, mismatches: [], missingInElf: [], missingInMap: [],
+  });
+});
+
+test('avr-gcc: detects the AVR dialect and narrows the default regions to the ATmega328P', async () => {
+  const result = await parseFixture('atmega328p-avr-gcc.map');
+  assert.equal(result.format, 'gnu-ld');
+  assert.equal(result.dialect, 'avr');
+  assert.deepEqual(
+    ['text', 'data', 'eeprom', 'fuse', 'lock'].map(name => [name, result.memory[name].lengthBytes, result.memory[name].writable]),
+    [['text', 32768, undefined], ['data', 2048, undefined], ['eeprom', 1024, false], ['fuse', 1024, false], ['lock', 1024, false]]
+  );
+  assert.equal(result.memory.data.origin, '0x00800100');
+});
+
+test('avr-gcc: totals the lowercase regions, EEPROM, fuses and lock bits outside RAM', async () => {
+  // avr-size: text 854 (.text and the .data load image), data 32 and bss 71; data holds both in SRAM
+  const result = await parseFixture('atmega328p-avr-gcc.map');
+  assert.deepEqual(sumUsedByRegion(result.sections, result.padding), { text: 854, data: 103, eeprom: 16, fuse: 3, lock: 1 });
+  assert.deepEqual(result.padding, { totalSize: 1, regions: { text: 1 } });
+
+  const { summary } = compareAnalyses(result, result, { topN: 1 });
+  assert.equal(summary.totalRamA, 103);
+});
+
+test('XC16: program memory sizes are bytes and match the usage tables', async () => {
+  // Total "program" memory used (bytes):         0x357  (855) <1%
+  // Total "data" memory used (bytes):          0x6c  (108) 1%
+  const result = await parseFixture('pic24fj64ga002-xc16.map');
+  assert.equal(result.dialect, 'xc16');
+  assert.deepEqual([result.memory.program.used, result.memory.data.used], [855, 108]);
+  // 0xa9fc PC units of program memory, 3 bytes per 2 units
+  assert.equal(result.memory.program.lengthBytes, 65274);
+
+  const totals = sumUsedByRegion(result.sections, result.padding);
+  assert.deepEqual([totals.program, totals.data], [855, 108]);
+  assert.deepEqual(
+    result.outputSections.filter(output => output.region === 'program').map(output => [output.name, output.size]),
+    [['.text', 735], ['.const', 60], ['.dinit', 60]]
+  );
+});
+
+test('XC32: region totals match the memory-usage report', async () => {
+  // kseg0 Program-Memory Usage  :  0x4f4  1268  bytes, kseg1 Boot-Memory Usage  :  0x200  512  bytes,
+  // Exception-Memory Usage  :  0x20  32  bytes, kseg1 Data-Memory Usage  :  0x690  1680  bytes
+  const result = await parseFixture('pic32mx795-xc32.map');
+  assert.equal(result.dialect, 'xc32');
+  const expected = { kseg0_program_mem: 1268, kseg1_boot_mem: 512, exception_mem: 32, kseg1_data_mem: 1680 };
+
+  assert.deepEqual(
+    Object.fromEntries(Object.keys(expected).map(name => [name, result.memory[name].used])),
+    expected
+  );
+  assert.deepEqual(sumUsedByRegion(result.sections, result.padding), expected);
+  // The heap and stack reservations are part of the data memory usage
+  assert.deepEqual(
+    result.outputSections.filter(output => ['.heap', '.stack'].includes(output.name)).map(output => [output.name, output.size]),
+    [['.heap', 512], ['.stack', 1024]]
+  );
+});
+
+test('ESP-IDF: totals IRAM, DRAM and the flash-mapped regions, without the dummy reservations', async () => {
+  const result = await parseFixture('esp32s3-idf.map');
+  assert.equal(result.dialect, 'esp-idf');
+  assert.deepEqual(
+    Object.entries(result.memory).map(([name, region]) => [name, region.kind]),
+    [
+      ['iram0_0_seg', 'IRAM'],
+      ['iram0_2_seg', 'Flash Code'],
+      ['dram0_0_seg', 'DRAM'],
+      ['drom0_0_seg', 'Flash Data'],
+      ['rtc_iram_seg', 'RTC'],
+      ['rtc_slow_seg', 'RTC'],
+    ]
+  );
+  assert.deepEqual(sumUsedByRegion(result.sections, result.padding), {
+    iram0_0_seg: 4640,
+    iram0_2_seg: 11172,
+    dram0_0_seg: 868,
+    drom0_0_seg: 1576,
+    rtc_iram_seg: 48,
+    rtc_slow_seg: 16,
+  });
+  // .dram0.dummy and .flash_rodata_dummy only reserve the address space the other bus maps
+  assert.deepEqual(
+    result.outputSections.filter(output => output.name.endsWith('dummy')).map(output => [output.name, output.size, output.region]),
+    [['.dram0.dummy', 5280, null], ['.flash_rodata_dummy', 65568, null]]
+  );
+});
+
+test('cross reference table: names of 50 or more characters share a line with the defining file', () => {
+  const longName = '_ZN3hal6detail24lib_helper_for_wrapping_names4initEv';
+  const content = [
+    'Cross Reference Table',
+    '',
+    'Symbol                                            File',
+    `${'HAL_Delay'.padEnd(50)}build/libhal.a(hal.o)`,
+    `${' '.repeat(50)}build/main.o`,
+    `${longName} build/libhal.a(lib1.o)`,
+    `${' '.repeat(50)}build/main.o`,
+    '',
+  ].join('\n');
+
+  assert.deepEqual(parseGnuMap(content).crossReferences, [
+    { symbol: 'HAL_Delay', definedIn: 'libhal.a(hal.o)', referencedBy: ['main.o'] },
+    { symbol: longName, definedIn: 'libhal.a(lib1.o)', referencedBy: ['main.o'] },
+  ]);
+});
+
+test('CRLF line endings parse as LF ones', () => {
+  ['stm32f407-hal-gcc.map', 'pic24fj64ga002-xc16.map', 'pic32mx795-xc32.map'].forEach(name => {
+    const content = fs.readFileSync(path.join(__dirname, '../fixtures', name), 'utf-8');
+    assert.deepEqual(parseGnuMap(content.replace(/\n/g, '\r\n')), parseGnuMap(content), name);
+  });
+});
@@ -0,0 +1,42 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const fs = require('fs');
+const path = require('path');
+const { parseMap, parseMapStream, parseMapInWorker } = require('../parser');
+const browser = require('../dist/shared/parser');
+const { readSourceUnits } = require('../dist/shared/parser/parseElf');
+const { attributeSourcePaths } = require('../dist/shared/parser/dwarf');
+const { crossCheckElf } = require('../dist/shared/utils/elfCrossCheck');
+
+const FIXTURES = path.join(__dirname, '../fixtures');
+const fixtures = fs.readdirSync(FIXTURES).sort();
+
+// The server reads files, the browser reads Blobs; both have to give the JSON the other gives, key order included
+const asJson = result => JSON.stringify(result, null, 1);
+
+fixtures.forEach(name => {
+  test(`${name}: the server's readers give the browser's result`, async () => {
+    const filePath = path.join(FIXTURES, name);
+    const expected = asJson(await browser.parseMapStream(new Blob([fs.readFileSync(filePath)])));
+
+    assert.equal(asJson(await parseMapStream(filePath)), expected);
+    assert.equal(asJson(await parseMap(filePath)), expected);
+  });
+});
+
+test('a worker thread gives the same result', async () => {
+  const filePath = path.join(FIXTURES, 'stm32f407-hal-gcc.map');
+  assert.equal(asJson(await parseMapInWorker(filePath)), asJson(await parseMap(filePath)));
+});
+
+test('a worker thread checks a map against its ELF and attributes it to the ELF\'s sources', async () => {
+  const mapPath = path.join(FIXTURES, 'dwarf-monorepo.map');
+  const elfPath = path.join(FIXTURES, 'dwarf-monorepo.elf');
+  const expected = await parseMap(mapPath);
+  expected.elfCheck = crossCheckElf(expected, await parseMap(elfPath));
+  attributeSourcePaths(expected, await readSourceUnits(fs.readFileSync(elfPath)));
+
+  const result = await parseMapInWorker(mapPath, () => {}, elfPath);
+  assert.ok(result.symbols.every(symbol => symbol.sourcePath));
+  assert.equal(asJson(result), asJson(expected));
+});
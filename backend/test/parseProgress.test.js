@@ -0,0 +1,19 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { trackProgress, getProgress, clearProgress } = require('../utils/parseProgress');
+
+test('registers an upload at 0% before the parser reports', () => {
+  const onProgress = trackProgress('upload-1', 'firmware.map', 2048);
+  assert.deepEqual(getProgress('upload-1'), { fileName: 'firmware.map', bytesRead: 0, totalBytes: 2048, percent: 0 });
+
+  onProgress(1024, 2048);
+  assert.equal(getProgress('upload-1').percent, 50);
+
+  clearProgress('upload-1');
+  assert.equal(getProgress('upload-1'), null);
+});
+
+test('records nothing without a progress ID', () => {
+  trackProgress(undefined, 'firmware.map', 2048)(1024, 2048);
+  assert.equal(getProgress(undefined), null);
+});
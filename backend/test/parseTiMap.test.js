@@ -0,0 +1,67 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const path = require('path');
+const { parseMap } = require('../parser');
+const { sumByRegion } = require('../dist/shared/utils/memoryRegions');
+
+const parseFixture = name => parseMap(path.join(__dirname, '../fixtures', name));
+
+test('MSP430: detects the TI format', async () => {
+  assert.equal((await parseFixture('msp430g2553-ccs.map')).format, 'ti');
+});
+
+test('MSP430: keeps the linker\'s used figures per region', async () => {
+  const { memory } = await parseFixture('msp430g2553-ccs.map');
+  assert.equal(Object.keys(memory).length, 25);
+  assert.deepEqual([memory.FLASH.origin, memory.FLASH.lengthBytes, memory.FLASH.used], ['0x0000c000', 16352, 642]);
+  assert.deepEqual([memory.RAM.origin, memory.RAM.lengthBytes, memory.RAM.used], ['0x00000200', 512, 120]);
+});
+
+test('MSP430: reads output and input sections', async () => {
+  const result = await parseFixture('msp430g2553-ccs.map');
+  assert.deepEqual(result.outputSections.map(output => [output.name, output.size, output.region]), [
+    ['.bss', 36, 'RAM'],
+    ['.data', 4, 'RAM'],
+    ['.stack', 80, 'RAM'],
+    ['.text', 584, 'FLASH'],
+    ['.const', 30, 'FLASH'],
+    ['.cinit', 28, 'FLASH'],
+    ['PORT1', 2, 'INT02'],
+    ['TIMER0_A0', 2, 'INT09'],
+    ['USCIAB0RX', 2, 'INT07'],
+    ['.reset', 2, 'RESET'],
+  ]);
+  assert.equal(result.sections.length, 32);
+});
+
+test('MSP430: totals region usage', async () => {
+  const result = await parseFixture('msp430g2553-ccs.map');
+  assert.deepEqual(sumByRegion(result.sections), { FLASH: 641, RAM: 41, INT02: 2, INT09: 2, INT07: 2, RESET: 2 });
+  assert.deepEqual(result.padding, { totalSize: 80, regions: { RAM: 79, FLASH: 1 } });
+});
+
+test('C2000: counts 16-bit words as two bytes', async () => {
+  const result = await parseFixture('f28069-ccs.map');
+  assert.equal(result.format, 'ti');
+  assert.deepEqual(
+    [result.memory.FLASHA.origin, result.memory.FLASHA.lengthBytes, result.memory.FLASHA.used],
+    ['0x007e8000', 32512, 1282]
+  );
+  assert.deepEqual(result.outputSections.map(output => [output.name, output.size]), [
+    ['codestart', 4],
+    ['.text', 612],
+    ['.cinit', 30],
+    ['.econst', 512],
+    ['ramfuncs', 128],
+    ['.reset', 4],
+    ['.stack', 1536],
+    ['.ebss', 140],
+  ]);
+  assert.equal(result.sections.length, 14);
+});
+
+test('C2000: totals region usage', async () => {
+  const result = await parseFixture('f28069-ccs.map');
+  assert.deepEqual(sumByRegion(result.sections), { FLASHA: 1280, RAML4: 140, RAMM0: 128, BEGIN: 4 });
+  assert.deepEqual(result.padding, { totalSize: 1538, regions: { FLASHA: 2, RAMM1: 1536 } });
+});
@@ -0,0 +1,132 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const { createStorage, loadStorageConfig } = require('../storage');
+
+const temporaryDirectory = () => fs.mkdtempSync(path.join(os.tmpdir(), 'map-analyzer-results-'));
+
+// node:sqlite loads without a flag from Node.js 22.13
+const [major, minor] = process.versions.node.split('.').map(Number);
+const SQLITE_SKIP = major < 22 || (major === 22 && minor < 13) ? 'node:sqlite needs Node.js 22.13 or later' : false;
+
+// Options for a driver writing below a temporary directory
+const driverOptions = (driver, directory) => ({
+  driver,
+  path: driver === 'sqlite' ? path.join(directory, 'results.db') : directory,
+});
+
+test('configuration: rejects a negative TTL and fewer than one entry', () => {
+  assert.deepEqual(loadStorageConfig({ STORAGE_TTL_HOURS: '0', STORAGE_MAX_ENTRIES: '100' }), {
+    driver: 'memory', path: null, ttl: 0, maxEntries: 100,
+  });
+  assert.equal(loadStorageConfig({}).maxEntries, null);
+  assert.throws(() => loadStorageConfig({ STORAGE_TTL_HOURS: '-1' }), /Invalid STORAGE_TTL_HOURS: -1/);
+  ['0', '-5', 'all'].forEach(value => {
+    assert.throws(() => loadStorageConfig({ STORAGE_MAX_ENTRIES: value }), new RegExp(`Invalid STORAGE_MAX_ENTRIES: ${value}`));
+  });
+});
+
+test('sqlite: results outlive the store, expire and are pruned beyond maxEntries', { skip: SQLITE_SKIP }, async () => {
+  const directory = temporaryDirectory();
+  try {
+    const options = { ...driverOptions('sqlite', directory), maxEntries: 2 };
+    const storage = createStorage(options);
+    const projectId = await storage.save('project', { name: 'firmware' }, { name: 'firmware' });
+    const ids = [];
+    for (let i = 0; i < 3; i++) {
+      ids.push(await storage.save('analysis', { build: i }, { build: i }));
+    }
+
+    const reopened = createStorage(options);
+    assert.equal(await reopened.load(ids[0]), null);
+    assert.deepEqual(await reopened.load(ids[2]), { build: 2 });
+    assert.equal(await reopened.load(ids[2], ['diff']), null);
+    // The build history does not count towards maxEntries
+    assert.deepEqual(await reopened.load(projectId), { name: 'firmware' });
+    assert.equal(await reopened.remove(ids[1]), true);
+    assert.equal(await reopened.remove(ids[1]), false);
+
+    const expiring = createStorage({ ...options, ttl: 1 });
+    const expired = await expiring.save('diff', { lines: [] });
+    await new Promise(resolve => setTimeout(resolve, 5));
+    assert.equal(await expiring.load(expired), null);
+  } finally {
+    fs.rmSync(directory, { recursive: true, force: true });
+  }
+});
+
+test('fs: concurrent saves beyond maxEntries all succeed', async () => {
+  const directory = temporaryDirectory();
+  try {
+    const storage = createStorage({ driver: 'fs', path: directory, maxEntries: 5 });
+    const ids = await Promise.all(Array.from({ length: 30 }, (_, i) => storage.save('analysis', { build: i })));
+
+    assert.equal(ids.length, 30);
+    await storage.prune();
+    assert.equal((await storage.list()).length, 5);
+    assert.deepEqual(fs.readdirSync(directory).filter(file => file.endsWith('.tmp')), []);
+  } finally {
+    fs.rmSync(directory, { recursive: true, force: true });
+  }
+});
+
+test('fs: skips entries deleted while listing, or not valid JSON', async t => {
+  const directory = temporaryDirectory();
+  try {
+    const storage = createStorage({ driver: 'fs', path: directory });
+    const id = await storage.save('analysis', { build: 1 });
+    fs.writeFileSync(path.join(directory, 'ana_20250101_00000000.meta.json'), '{"id": "ana_2025');
+    fs.writeFileSync(path.join(directory, 'ana_20250101_00000000.json'), '{}');
+
+    // As if another request's prune deleted an entry between reading the directory and its files
+    const readdir = fs.promises.readdir;
+    t.mock.method(fs.promises, 'readdir', async dir => [...await readdir(dir), 'ana_20250101_11111111.meta.json']);
+
+    assert.deepEqual((await storage.list()).map(entry => entry.id), [id]);
+    assert.equal(await storage.load('ana_20250101_00000000'), null);
+    assert.deepEqual(await storage.load(id), { build: 1 });
+  } finally {
+    fs.rmSync(directory, { recursive: true, force: true });
+  }
+});
+
+test('a failed prune does not fail the save', async t => {
+  const directory = temporaryDirectory();
+  try {
+    const storage = createStorage({ driver: 'fs', path: directory, maxEntries: 1 });
+    t.mock.method(fs.promises, 'readdir', async () => {
+      throw Object.assign(new Error('EMFILE: too many open files'), { code: 'EMFILE' });
+    });
+    t.mock.method(console, 'error', () => {});
+
+    const id = await storage.save('analysis', { build: 1 });
+    assert.deepEqual(await storage.load(id), { build: 1 });
+    assert.equal(console.error.mock.callCount(), 1);
+  } finally {
+    fs.rmSync(directory, { recursive: true, force: true });
+  }
+});
+
+for (const driver of ['memory', 'fs', 'sqlite']) {
+  test(`${driver}: lists the entries of the given kinds and meta values`, { skip: driver === 'sqlite' && SQLITE_SKIP }, async () => {
+    const directory = temporaryDirectory();
+    try {
+      const storage = createStorage(driverOptions(driver, directory));
+      const firmware = await storage.save('build', {}, { project: 'firmware', branch: 'main', target: null });
+      await storage.save('build', {}, { project: 'bootloader', branch: 'main', target: null });
+      const release = await storage.save('build', {}, { project: 'firmware', branch: 'release', target: null });
+      await storage.save('analysis', { build: 1 });
+
+      const ids = async (kinds, meta) => (await storage.list(kinds, meta)).map(entry => entry.id).sort();
+      assert.deepEqual(await ids(['build'], { project: 'firmware' }), [firmware, release].sort());
+      assert.deepEqual(await ids(['build'], { project: 'firmware', branch: 'release' }), [release]);
+      assert.deepEqual(await ids(['build'], { project: 'firmware', target: null }), [firmware, release].sort());
+      assert.deepEqual(await ids(['build'], { project: 'application' }), []);
+      assert.equal((await storage.list(['analysis', 'build'])).length, 4);
+    } finally {
+      fs.rmSync(directory, { recursive: true, force: true });
+    }
+  });
+}
@@ -0,0 +1,73 @@
+/**
+ * Parse Progress Tracking
+ * In-memory progress of map files being parsed, keyed by an ID the client sends with the upload
+ */
+
+const progressStore = new Map();
+const DEFAULT_TTL = 10 * 60 * 1000; // 10 minutes
+
+/**
+ * Remove progress entries older than the TTL, e.g. of uploads whose client went away
+ */
+function cleanupStale() {
+  const now = Date.now();
+  for (const [progressId, entry] of progressStore.entries()) {
+    if (now - entry.updatedAt > DEFAULT_TTL) {
+      progressStore.delete(progressId);
+    }
+  }
+}
+
+/**
+ * Create a progress callback for parseMapInWorker that records under a progress ID
+ * The ID is registered at 0% right away, so a client polling before the worker reports finds it
+ * @param {string|undefined} progressId - ID chosen by the client; nothing is recorded without one
+ * @param {string} fileName - Name of the file being parsed
+ * @param {number} fileSize - Size of the file in bytes
+ * @returns {Function} Callback taking (bytesRead, totalBytes)
+ */
+function trackProgress(progressId, fileName, fileSize) {
+  if (!progressId) {
+    return () => {};
+  }
+
+  cleanupStale();
+  const record = (bytesRead, totalBytes, percent) => {
+    progressStore.set(progressId, { fileName, bytesRead, totalBytes, percent, updatedAt: Date.now() });
+  };
+  record(0, fileSize, 0);
+  return (bytesRead, totalBytes) => {
+    record(bytesRead, totalBytes, totalBytes > 0 ? Math.floor((bytesRead / totalBytes) * 100) : 100);
+  };
+}
+
+/**
+ * Get the progress recorded under an ID
+ * @param {string} progressId - ID chosen by the client
+ * @returns {Object|null} File name, bytes read, total bytes and percent, or null if unknown
+ */
+function getProgress(progressId) {
+  const entry = progressStore.get(progressId);
+  if (!entry) {
+    return null;
+  }
+
+  const { fileName, bytesRead, totalBytes, percent } = entry;
+  return { fileName, bytesRead, totalBytes, percent };
+}
+
+/**
+ * Forget the progress of a finished parse
+ * @param {string|undefined} progressId - ID chosen by the client
+ */
+function clearProgress(progressId) {
+  if (progressId) {
+    progressStore.delete(progressId);
+  }
+}
+
+module.exports = {
+  trackProgress,
+  getProgress,
+  clearProgress,
+};
@@ -15,7 +15,7 @@ import {
   Box,
   Tabs,
 } from '@mantine/core';
-import { IconSun, IconMoon, IconChartBar, IconGitCompare } from '@tabler/icons-react';
+import { IconSun, IconMoon, IconChartBar, IconGitCompare, IconTable, IconCode, IconTrash, IconPackage, IconFolders, IconBracketsAngle, IconLink, IconHierarchy, IconTimeline } from '@tabler/icons-react';
 import '@mantine/core/styles.css';
 
 import type { AnalysisResult, DiffResult } from './types/index';
@@ -23,15 +23,26 @@ import { mockAnalysisResult } from './data/mockData';
 import { FileUploader } from './components/FileUploader';
 import { MemorySummary } from './components/MemorySummary';
 import { SectionsTable } from './components/SectionsTable';
+import { SymbolsTable } from './components/SymbolsTable';
+import { DiscardedTable } from './components/DiscardedTable';
+import { ArchiveBreakdown } from './components/ArchiveBreakdown';
+import { DirectoryTree } from './components/DirectoryTree';
+import { TemplateFamilies } from './components/TemplateFamilies';
+import { CrossReferences } from './components/CrossReferences';
+import { InclusionChains } from './components/InclusionChains';
 import { MemoryChart } from './components/MemoryChart';
 import { QuickMemorySummary } from './components/QuickMemorySummary';
 import { FadeIn } from './components/FadeIn';
 import { AdvancedCompare } from './components/AdvancedCompare';
+import { BuildHistory } from './components/BuildHistory';
 import { ComparisonReport } from './components/ComparisonReport';
 import { SingleAnalysisReport } from './components/SingleAnalysisReport';
 import { SEO, SEOPresets } from './components/SEO';
 // import { LandingHero } from './components/LandingHero';
 import { usePageTracking, Analytics } from './hooks/useAnalytics';
+import { loadParseMode, saveParseMode } from './utils/localAnalysis';
+import { calculateRegionUsage } from './utils/memoryRegions';
+import type { ParseMode } from './utils/localAnalysis';
 
 const theme = createTheme({
   primaryColor: 'grape',
@@ -87,6 +98,9 @@ function AppContent() {
 
   const [selectedSection, setSelectedSection] = useState<string | null>(null);
 
+  // Parse in the browser (nothing uploaded) unless the backend server was chosen
+  const [parseMode, setParseMode] = useState<ParseMode>(loadParseMode);
+
   // Load diffResult from sessionStorage on mount
   const [diffResult, setDiffResult] = useState<DiffResult | null>(() => {
     const saved = sessionStorage.getItem('diffResult');
@@ -153,6 +167,12 @@ function AppContent() {
     Analytics.trackMockDataToggle(checked);
   };
 
+  const handleParseModeToggle = (inBrowser: boolean) => {
+    const mode = inBrowser ? 'browser' : 'server';
+    setParseMode(mode);
+    saveParseMode(mode);
+  };
+
   const handleSectionClick = (sectionName: string) => {
     setSelectedSection(prev => prev === sectionName ? null : sectionName);
 
@@ -170,6 +190,12 @@ function AppContent() {
     Analytics.trackComparison(build1Size, build2Size, sizeDiff);
   };
 
+  // Two stored builds were diffed by the backend, shown like an uploaded comparison
+  const handleBuildDiffComplete = (result: DiffResult) => {
+    handleDiffComplete(result);
+    setActiveTab('compare');
+  };
+
   const displayResult = useMockData ? mockAnalysisResult : result;
 
   // Determine SEO based on active tab
@@ -196,6 +222,12 @@ function AppContent() {
                     checked={useMockData}
                     onChange={(event) => handleMockDataToggle(event.currentTarget.checked)}
                   />
+                  <Switch
+                    label="Parse in browser"
+                    title="Parse map files locally in a Web Worker; off sends them to the backend server"
+                    checked={parseMode === 'browser'}
+                    onChange={(event) => handleParseModeToggle(event.currentTarget.checked)}
+                  />
                   <ThemeToggle />
                 </Group>
               </Group>
@@ -214,6 +246,9 @@ function AppContent() {
               <Tabs.Tab value="compare" leftSection={<IconGitCompare size={16} />}>
                 Build Comparison
               </Tabs.Tab>
+              <Tabs.Tab value="history" leftSection={<IconTimeline size={16} />}>
+                Build History
+              </Tabs.Tab>
             </Tabs.List>
 
             <Tabs.Panel value="analyze" pt="xl">
@@ -222,6 +257,7 @@ function AppContent() {
                 <FileUploader
                   onAnalysisComplete={handleAnalysisComplete}
                   onFileSelect={handleFileSelect}
+                  parseMode={parseMode}
                 />
 
                 {displayResult && (
@@ -245,14 +281,79 @@ function AppContent() {
                       />
                     </FadeIn>
 
-                    {/* Sections Table */}
+                    {/* Sections and Symbols Tables */}
                     <FadeIn delay={300}>
-                      <SectionsTable
-                        sections={displayResult.sections}
-                        selectedSection={selectedSection}
-                        onSectionClick={handleSectionClick}
-                        analysisResult={displayResult}
-                      />
+                      <Tabs defaultValue="sections" color="grape">
+                        <Tabs.List>
+                          <Tabs.Tab value="sections" leftSection={<IconTable size={16} />}>
+                            Sections
+                          </Tabs.Tab>
+                          <Tabs.Tab value="symbols" leftSection={<IconCode size={16} />}>
+                            Symbols ({displayResult.symbols?.length || 0})
+                          </Tabs.Tab>
+                          <Tabs.Tab value="references" leftSection={<IconLink size={16} />}>
+                            References
+                          </Tabs.Tab>
+                          <Tabs.Tab value="inclusions" leftSection={<IconHierarchy size={16} />}>
+                            Why Linked
+                          </Tabs.Tab>
+                          <Tabs.Tab value="archives" leftSection={<IconPackage size={16} />}>
+                            Archives
+                          </Tabs.Tab>
+                          <Tabs.Tab value="directories" leftSection={<IconFolders size={16} />}>
+                            Directories
+                          </Tabs.Tab>
+                          <Tabs.Tab value="templates" leftSection={<IconBracketsAngle size={16} />}>
+                            Templates
+                          </Tabs.Tab>
+                          <Tabs.Tab value="discarded" leftSection={<IconTrash size={16} />}>
+                            Discarded ({displayResult.discarded?.sectionCount || 0})
+                          </Tabs.Tab>
+                        </Tabs.List>
+
+                        <Tabs.Panel value="sections" pt="md">
+                          <SectionsTable
+                            sections={displayResult.sections}
+                            selectedSection={selectedSection}
+                            onSectionClick={handleSectionClick}
+                            analysisResult={displayResult}
+                          />
+                        </Tabs.Panel>
+
+                        <Tabs.Panel value="symbols" pt="md">
+                          <SymbolsTable symbols={displayResult.symbols || []} />
+                        </Tabs.Panel>
+
+                        <Tabs.Panel value="references" pt="md">
+                          <CrossReferences
+                            crossReferences={displayResult.crossReferences}
+                            symbols={displayResult.symbols || []}
+                          />
+                        </Tabs.Panel>
+
+                        <Tabs.Panel value="inclusions" pt="md">
+                          <InclusionChains archiveMembers={displayResult.archiveMembers} />
+                        </Tabs.Panel>
+
+                        <Tabs.Panel value="archives" pt="md">
+                          <ArchiveBreakdown result={displayResult} />
+                        </Tabs.Panel>
+
+                        <Tabs.Panel value="directories" pt="md">
+                          <DirectoryTree symbols={displayResult.symbols || []} />
+                        </Tabs.Panel>
+
+                        <Tabs.Panel value="templates" pt="md">
+                          <TemplateFamilies sections={displayResult.sections} symbols={displayResult.symbols || []} />
+                        </Tabs.Panel>
+
+                        <Tabs.Panel value="discarded" pt="md">
+                          <DiscardedTable
+                            discarded={displayResult.discarded}
+                            keptSize={calculateRegionUsage(displayResult).reduce((sum, region) => sum + region.usedBytes, 0)}
+                          />
+                        </Tabs.Panel>
+                      </Tabs>
                     </FadeIn>
                   </>
                 )}
@@ -265,9 +366,15 @@ function AppContent() {
                 <AdvancedCompare
                   onDiffComplete={handleDiffComplete}
                   diffResult={diffResult}
+                  parseMode={parseMode}
                 />
               </Stack>
             </Tabs.Panel>
+
+            <Tabs.Panel value="history" pt="xl">
+              {/* Fetched from the backend only once the tab is opened */}
+              {activeTab === 'history' && <BuildHistory onDiffComplete={handleBuildDiffComplete} />}
+            </Tabs.Panel>
           </Tabs>
         </Stack>
       </Container>
@@ -1,14 +1,20 @@
 import { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { Paper, Stack, Grid, Title, Text, FileButton, Button, Group, Badge, NumberInput, LoadingOverlay, Alert, Table, ScrollArea, TextInput, Select, Switch } from '@mantine/core';
+import { Paper, Stack, Grid, Title, Text, FileButton, Button, Group, Badge, NumberInput, LoadingOverlay, Alert, Table, ScrollArea, TextInput, Select, Switch, SegmentedControl } from '@mantine/core';
 import { IconUpload, IconFileText, IconArrowsShuffle, IconCheck, IconX, IconAlertTriangle, IconSearch, IconFilter, IconDownload, IconTrendingUp, IconTrendingDown, IconEqual, IconPlus, IconMinus } from '@tabler/icons-react';
 import { BarChart, Bar, Cell, XAxis, YAxis, CartesianGrid, Tooltip as RechartsTooltip, Legend, ResponsiveContainer } from 'recharts';
 import type { DiffResult } from '../types/index';
+import { getRegionColor } from '../utils/colorMapping';
+import { demangle } from '../utils/demangle';
 import { Analytics } from '../hooks/useAnalytics';
+import { diffLocally } from '../utils/localAnalysis';
+import type { ParseMode } from '../utils/localAnalysis';
+import { SymbolName } from './SymbolName';
 
 interface AdvancedCompareProps {
   onDiffComplete: (result: DiffResult) => void;
   diffResult: DiffResult | null;
+  parseMode: ParseMode;
 }
 
 function formatBytes(bytes: number): string {
@@ -50,7 +56,7 @@ function getStatusBgColor(status: string, theme: 'light' | 'dark') {
   }
 }
 
-export function AdvancedCompare({ onDiffComplete, diffResult: externalDiffResult }: AdvancedCompareProps) {
+export function AdvancedCompare({ onDiffComplete, diffResult: externalDiffResult, parseMode }: AdvancedCompareProps) {
   const navigate = useNavigate();
   const [fileV1, setFileV1] = useState<File | null>(null);
   const [fileV2, setFileV2] = useState<File | null>(null);
@@ -69,6 +75,7 @@ export function AdvancedCompare({ onDiffComplete, diffResult: externalDiffResult
   const [search, setSearch] = useState('');
   const [statusFilter, setStatusFilter] = useState<string | null>(null);
   const [anomalyOnly, setAnomalyOnly] = useState(false);
+  const [groupBy, setGroupBy] = useState<'section' | 'object' | 'library'>('section');
 
   const handleCompare = async () => {
     if (!fileV1 || !fileV2) return;
@@ -77,27 +84,37 @@ export function AdvancedCompare({ onDiffComplete, diffResult: externalDiffResult
     setError(null);
     setSuccess(false);
 
-    const formData = new FormData();
-    formData.append('fileV1', fileV1);
-    formData.append('fileV2', fileV2);
-
     try {
-      const params = new URLSearchParams({
-        growthThreshold: growthThreshold.toString(),
-        shrinkThreshold: shrinkThreshold.toString(),
-      });
-
-      const response = await fetch(`http://localhost:5000/diff?${params}`, {
-        method: 'POST',
-        body: formData,
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}));
-        throw new Error(errorData.error || 'Failed to compute diff');
+      let data: DiffResult;
+      if (parseMode === 'browser') {
+        // Same options the backend derives from the query string
+        data = await diffLocally(fileV1, fileV2, {
+          anomalyGrowthThreshold: growthThreshold || 10,
+          anomalyShrinkThreshold: shrinkThreshold || 10,
+          addressShiftThreshold: 0x1000,
+        });
+      } else {
+        const formData = new FormData();
+        formData.append('fileV1', fileV1);
+        formData.append('fileV2', fileV2);
+
+        const params = new URLSearchParams({
+          growthThreshold: growthThreshold.toString(),
+          shrinkThreshold: shrinkThreshold.toString(),
+        });
+
+        const response = await fetch(`http://localhost:5000/diff?${params}`, {
+          method: 'POST',
+          body: formData,
+        });
+
+        if (!response.ok) {
+          const errorData = await response.json().catch(() => ({}));
+          throw new Error(errorData.error || 'Failed to compute diff');
+        }
+
+        data = await response.json();
       }
-
-      const data = await response.json();
       onDiffComplete(data);
       setSuccess(true);
     } catch (err) {
@@ -110,10 +127,11 @@ export function AdvancedCompare({ onDiffComplete, diffResult: externalDiffResult
   const exportToCSV = () => {
     if (!diffResult) return;
 
-    const headers = ['Section', 'File', 'v1 Size (KB)', 'v2 Size (KB)', 'Δ (KB)', 'Δ %', 'Status', 'Region'];
+    const headers = ['Section', 'File', 'Library', 'v1 Size (KB)', 'v2 Size (KB)', 'Δ (KB)', 'Δ %', 'Status', 'Region'];
     const rows = filteredDiff.map(d => [
       d.name,
       d.filePath || '',
+      d.library || '',
       formatBytes(d.sizeV1),
       formatBytes(d.sizeV2),
       formatBytes(d.sizeDiff),
@@ -164,7 +182,9 @@ export function AdvancedCompare({ onDiffComplete, diffResult: externalDiffResult
   // Filter diff results
   const filteredDiff = diffResult?.diff.filter(d => {
     if (search && !d.name.toLowerCase().includes(search.toLowerCase()) &&
-        !(d.filePath || '').toLowerCase().includes(search.toLowerCase())) {
+        !(demangle(d.name) || '').toLowerCase().includes(search.toLowerCase()) &&
+        !(d.filePath || '').toLowerCase().includes(search.toLowerCase()) &&
+        !(d.library || '').toLowerCase().includes(search.toLowerCase())) {
       return false;
     }
     if (statusFilter && d.status !== statusFilter) {
@@ -176,21 +196,19 @@ export function AdvancedCompare({ onDiffComplete, diffResult: externalDiffResult
     return true;
   }) || [];
 
+  // Object/library totals for the grouped table
+  const filteredGroups = (groupBy === 'library' ? diffResult?.libraryGroups : diffResult?.fileGroups)
+    ?.filter(g => !search || g.name.toLowerCase().includes(search.toLowerCase())) || [];
+
   // Compute chart data
-  const memoryOverviewData = diffResult ? [
-    {
-      region: 'FLASH',
-      'Version 1': diffResult.diff.filter(d => d.region === 'FLASH').reduce((sum, d) => sum + d.sizeV1, 0),
-      'Version 2': diffResult.diff.filter(d => d.region === 'FLASH').reduce((sum, d) => sum + d.sizeV2, 0),
-      delta: diffResult.diff.filter(d => d.region === 'FLASH').reduce((sum, d) => sum + d.sizeDiff, 0),
-    },
-    {
-      region: 'RAM',
-      'Version 1': diffResult.diff.filter(d => d.region === 'RAM').reduce((sum, d) => sum + d.sizeV1, 0),
-      'Version 2': diffResult.diff.filter(d => d.region === 'RAM').reduce((sum, d) => sum + d.sizeV2, 0),
-      delta: diffResult.diff.filter(d => d.region === 'RAM').reduce((sum, d) => sum + d.sizeDiff, 0),
-    },
-  ] : [];
+  const memoryOverviewData = (diffResult?.regionGroups || [])
+    .filter(group => group.name !== 'OTHER')
+    .map(group => ({
+      region: group.name,
+      'Version 1': group.sizeV1,
+      'Version 2': group.sizeV2,
+      delta: group.sizeDiff,
+    }));
 
   // Top increases and decreases
   const topChanges = diffResult ? [
@@ -212,14 +230,17 @@ export function AdvancedCompare({ onDiffComplete, diffResult: externalDiffResult
       .filter(d => d.sizeDiff !== 0) // Only sections that changed
       .sort((a, b) => Math.abs(b.sizeDiff) - Math.abs(a.sizeDiff))
       .slice(0, 15) // Top 15 changed sections
-      .map(d => ({
-        name: d.name.length > 20 ? d.name.substring(0, 18) + '...' : d.name,
-        fullName: d.name,
-        'Version 1': d.sizeV1,
-        'Version 2': d.sizeV2,
-        delta: d.sizeDiff,
-        region: d.region,
-      }))
+      .map(d => {
+        const label = demangle(d.name) || d.name;
+        return {
+          name: label.length > 20 ? label.substring(0, 18) + '...' : label,
+          fullName: d.name,
+          'Version 1': d.sizeV1,
+          'Version 2': d.sizeV2,
+          delta: d.sizeDiff,
+          region: d.region,
+        };
+      })
     : [];
 
   return (
@@ -364,6 +385,11 @@ export function AdvancedCompare({ onDiffComplete, diffResult: externalDiffResult
                   {diffResult.summary.totalSizeDiff > 0 ? '+' : ''}{formatBytes(diffResult.summary.totalSizeDiff)}
                 </Text>
                 <Text size="xs" c="dimmed">({diffResult.summary.totalSizeDiffPct > 0 ? '+' : ''}{diffResult.summary.totalSizeDiffPct.toFixed(2)}%)</Text>
+                {!!diffResult.summary.paddingDiff && (
+                  <Text size="xs" c="dimmed">
+                    Padding: {diffResult.summary.paddingDiff > 0 ? '+' : ''}{formatBytes(diffResult.summary.paddingDiff)}
+                  </Text>
+                )}
               </Paper>
             </Grid.Col>
 
@@ -512,8 +538,8 @@ export function AdvancedCompare({ onDiffComplete, diffResult: externalDiffResult
                           return (
                             <Paper p="xs" withBorder shadow="sm">
                               <Stack gap={4}>
-                                <Text size="sm" fw={600}>{data.fullName}</Text>
-                                <Text size="xs">Region: <Badge size="xs" color={data.region === 'FLASH' ? 'blue' : 'orange'}>{data.region}</Badge></Text>
+                                <SymbolName name={data.fullName} fw={600} />
+                                <Text size="xs">Region: <Badge size="xs" color={getRegionColor(data.region)}>{data.region}</Badge></Text>
                                 <Text size="xs">Version 1: {formatBytes(data['Version 1'])}</Text>
                                 <Text size="xs">Version 2: {formatBytes(data['Version 2'])}</Text>
                                 <Text
@@ -601,6 +627,17 @@ export function AdvancedCompare({ onDiffComplete, diffResult: externalDiffResult
               <Group justify="space-between">
                 <Title order={4}>Detailed Comparison</Title>
                 <Group gap="xs">
+                  <SegmentedControl
+                    size="xs"
+                    value={groupBy}
+                    onChange={(val) => setGroupBy(val as 'section' | 'object' | 'library')}
+                    data={[
+                      { label: 'By Section', value: 'section' },
+                      { label: 'By Object', value: 'object' },
+                      { label: 'By Library', value: 'library' },
+                    ]}
+                    color="grape"
+                  />
                   <Button size="xs" variant="light" leftSection={<IconDownload size={14} />} onClick={exportToCSV}>CSV</Button>
                   <Button size="xs" variant="light" leftSection={<IconDownload size={14} />} onClick={exportToJSON}>JSON</Button>
                 </Group>
@@ -641,64 +678,122 @@ export function AdvancedCompare({ onDiffComplete, diffResult: externalDiffResult
                 </Grid.Col>
               </Grid>
 
-              <Text size="sm" c="dimmed">
-                Showing {filteredDiff.length} of {diffResult.diff.length} sections
-              </Text>
-
-              <ScrollArea>
-                <Table striped highlightOnHover>
-                  <Table.Thead>
-                    <Table.Tr>
-                      <Table.Th>Status</Table.Th>
-                      <Table.Th>Section Name</Table.Th>
-                      <Table.Th>Region</Table.Th>
-                      <Table.Th style={{ textAlign: 'right' }}>v1 Size</Table.Th>
-                      <Table.Th style={{ textAlign: 'right' }}>v2 Size</Table.Th>
-                      <Table.Th style={{ textAlign: 'right' }}>Δ Size</Table.Th>
-                      <Table.Th style={{ textAlign: 'right' }}>Δ %</Table.Th>
-                    </Table.Tr>
-                  </Table.Thead>
-                  <Table.Tbody>
-                    {filteredDiff.map((entry, idx) => (
-                      <Table.Tr key={idx} style={{ backgroundColor: getStatusBgColor(entry.status, 'light') }}>
-                        <Table.Td>
-                          <Group gap={4}>
-                            {getStatusIcon(entry.status)}
-                            <Badge size="xs" color={getStatusColor(entry.status)}>
-                              {entry.status}
-                            </Badge>
-                          </Group>
-                        </Table.Td>
-                        <Table.Td>
-                          <Text size="sm" fw={500}>{entry.name}</Text>
-                          {entry.filePath && <Text size="xs" c="dimmed">{entry.filePath}</Text>}
-                        </Table.Td>
-                        <Table.Td>
-                          <Badge size="xs" variant="light" color={entry.region === 'FLASH' ? 'blue' : entry.region === 'RAM' ? 'orange' : 'gray'}>
-                            {entry.region}
-                          </Badge>
-                        </Table.Td>
-                        <Table.Td style={{ textAlign: 'right' }}>
-                          <Text size="sm">{entry.sizeV1 > 0 ? formatBytes(entry.sizeV1) : '-'}</Text>
-                        </Table.Td>
-                        <Table.Td style={{ textAlign: 'right' }}>
-                          <Text size="sm">{entry.sizeV2 > 0 ? formatBytes(entry.sizeV2) : '-'}</Text>
-                        </Table.Td>
-                        <Table.Td style={{ textAlign: 'right' }}>
-                          <Text size="sm" fw={500} c={entry.sizeDiff > 0 ? 'red' : entry.sizeDiff < 0 ? 'green' : 'gray'}>
-                            {entry.sizeDiff > 0 ? '+' : ''}{formatBytes(entry.sizeDiff)}
-                          </Text>
-                        </Table.Td>
-                        <Table.Td style={{ textAlign: 'right' }}>
-                          <Text size="sm" c={entry.sizeDiff > 0 ? 'red' : entry.sizeDiff < 0 ? 'green' : 'gray'}>
-                            {entry.sizeDiff !== 0 ? `${entry.sizeDiff > 0 ? '+' : ''}${entry.sizeDiffPct.toFixed(1)}%` : '-'}
-                          </Text>
-                        </Table.Td>
-                      </Table.Tr>
-                    ))}
-                  </Table.Tbody>
-                </Table>
-              </ScrollArea>
+              {groupBy !== 'section' ? (
+                <>
+                  <Text size="sm" c="dimmed">
+                    Showing {filteredGroups.length} {groupBy === 'library' ? 'libraries' : 'object files'}
+                  </Text>
+
+                  <ScrollArea>
+                    <Table striped highlightOnHover>
+                      <Table.Thead>
+                        <Table.Tr>
+                          <Table.Th>{groupBy === 'library' ? 'Library' : 'Object File'}</Table.Th>
+                          <Table.Th>Sections</Table.Th>
+                          <Table.Th style={{ textAlign: 'right' }}>v1 Size</Table.Th>
+                          <Table.Th style={{ textAlign: 'right' }}>v2 Size</Table.Th>
+                          <Table.Th style={{ textAlign: 'right' }}>Δ Size</Table.Th>
+                          <Table.Th style={{ textAlign: 'right' }}>Δ %</Table.Th>
+                        </Table.Tr>
+                      </Table.Thead>
+                      <Table.Tbody>
+                        {filteredGroups.map((group) => (
+                          <Table.Tr key={group.name}>
+                            <Table.Td>
+                              <Text size="sm" fw={500} ff="monospace">{group.name}</Text>
+                            </Table.Td>
+                            <Table.Td>
+                              <Badge size="xs" variant="light" color="gray">{group.sectionCount}</Badge>
+                            </Table.Td>
+                            <Table.Td style={{ textAlign: 'right' }}>
+                              <Text size="sm">{group.sizeV1 > 0 ? formatBytes(group.sizeV1) : '-'}</Text>
+                            </Table.Td>
+                            <Table.Td style={{ textAlign: 'right' }}>
+                              <Text size="sm">{group.sizeV2 > 0 ? formatBytes(group.sizeV2) : '-'}</Text>
+                            </Table.Td>
+                            <Table.Td style={{ textAlign: 'right' }}>
+                              <Text size="sm" fw={500} c={group.sizeDiff > 0 ? 'red' : group.sizeDiff < 0 ? 'green' : 'gray'}>
+                                {group.sizeDiff > 0 ? '+' : ''}{formatBytes(group.sizeDiff)}
+                              </Text>
+                            </Table.Td>
+                            <Table.Td style={{ textAlign: 'right' }}>
+                              <Text size="sm" c={group.sizeDiff > 0 ? 'red' : group.sizeDiff < 0 ? 'green' : 'gray'}>
+                                {group.sizeDiff !== 0 ? `${group.sizeDiff > 0 ? '+' : ''}${group.sizeDiffPct.toFixed(1)}%` : '-'}
+                              </Text>
+                            </Table.Td>
+                          </Table.Tr>
+                        ))}
+                      </Table.Tbody>
+                    </Table>
+                  </ScrollArea>
+                </>
+              ) : (
+                <>
+                  <Text size="sm" c="dimmed">
+                    Showing {filteredDiff.length} of {diffResult.diff.length} sections
+                  </Text>
+
+                  <ScrollArea>
+                    <Table striped highlightOnHover>
+                      <Table.Thead>
+                        <Table.Tr>
+                          <Table.Th>Status</Table.Th>
+                          <Table.Th>Section Name</Table.Th>
+                          <Table.Th>Region</Table.Th>
+                          <Table.Th style={{ textAlign: 'right' }}>v1 Size</Table.Th>
+                          <Table.Th style={{ textAlign: 'right' }}>v2 Size</Table.Th>
+                          <Table.Th style={{ textAlign: 'right' }}>Δ Size</Table.Th>
+                          <Table.Th style={{ textAlign: 'right' }}>Δ %</Table.Th>
+                        </Table.Tr>
+                      </Table.Thead>
+                      <Table.Tbody>
+                        {filteredDiff.map((entry, idx) => (
+                          <Table.Tr key={idx} style={{ backgroundColor: getStatusBgColor(entry.status, 'light') }}>
+                            <Table.Td>
+                              <Group gap={4}>
+                                {getStatusIcon(entry.status)}
+                                <Badge size="xs" color={getStatusColor(entry.status)}>
+                                  {entry.status}
+                                </Badge>
+                                {entry.gcTransition && (
+                                  <Badge size="xs" variant="outline" color={entry.gcTransition === 'kept' ? 'red' : 'green'}>
+                                    {entry.gcTransition === 'kept' ? 'previously discarded' : 'now discarded'}
+                                  </Badge>
+                                )}
+                              </Group>
+                            </Table.Td>
+                            <Table.Td>
+                              <SymbolName name={entry.name} fw={500} />
+                              {entry.filePath && <Text size="xs" c="dimmed">{entry.filePath}</Text>}
+                            </Table.Td>
+                            <Table.Td>
+                              <Badge size="xs" variant="light" color={getRegionColor(entry.region)}>
+                                {entry.region}
+                              </Badge>
+                            </Table.Td>
+                            <Table.Td style={{ textAlign: 'right' }}>
+                              <Text size="sm">{entry.sizeV1 > 0 ? formatBytes(entry.sizeV1) : '-'}</Text>
+                            </Table.Td>
+                            <Table.Td style={{ textAlign: 'right' }}>
+                              <Text size="sm">{entry.sizeV2 > 0 ? formatBytes(entry.sizeV2) : '-'}</Text>
+                            </Table.Td>
+                            <Table.Td style={{ textAlign: 'right' }}>
+                              <Text size="sm" fw={500} c={entry.sizeDiff > 0 ? 'red' : entry.sizeDiff < 0 ? 'green' : 'gray'}>
+                                {entry.sizeDiff > 0 ? '+' : ''}{formatBytes(entry.sizeDiff)}
+                              </Text>
+                            </Table.Td>
+                            <Table.Td style={{ textAlign: 'right' }}>
+                              <Text size="sm" c={entry.sizeDiff > 0 ? 'red' : entry.sizeDiff < 0 ? 'green' : 'gray'}>
+                                {entry.sizeDiff !== 0 ? `${entry.sizeDiff > 0 ? '+' : ''}${entry.sizeDiffPct.toFixed(1)}%` : '-'}
+                              </Text>
+                            </Table.Td>
+                          </Table.Tr>
+                        ))}
+                      </Table.Tbody>
+                    </Table>
+                  </ScrollArea>
+                </>
+              )}
             </Stack>
           </Paper>
         </>
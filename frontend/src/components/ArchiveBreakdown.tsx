@@ -0,0 +1,124 @@
+import { useState, useMemo } from 'react';
+import { Paper, Text, Table, ScrollArea, TextInput, Group, Button, Title, Stack, Badge } from '@mantine/core';
+import { IconSearch, IconDownload } from '@tabler/icons-react';
+import type { AnalysisResult } from '../types/index';
+import { calculateArchiveUsage, getRegionKinds } from '../utils/memoryRegions';
+import { Analytics } from '../hooks/useAnalytics';
+
+interface ArchiveBreakdownProps {
+  result: AnalysisResult;
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes === 0) return '0 Bytes';
+  const k = 1024;
+  const sizes = ['Bytes', 'KB', 'MB', 'GB'];
+  const i = Math.floor(Math.log(bytes) / Math.log(k));
+  return Math.round((bytes / Math.pow(k, i)) * 100) / 100 + ' ' + sizes[i];
+}
+
+export function ArchiveBreakdown({ result }: ArchiveBreakdownProps) {
+  const [search, setSearch] = useState('');
+
+  const archives = useMemo(() => calculateArchiveUsage(result), [result]);
+
+  // One column per memory kind that holds anything, in region declaration order
+  const kinds = useMemo(
+    () => getRegionKinds(result).filter(kind => archives.some(archive => archive.bytesByKind[kind])),
+    [result, archives]
+  );
+
+  const rows = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    return query
+      ? archives.filter(archive => archive.name.toLowerCase().includes(query))
+      : archives;
+  }, [archives, search]);
+
+  const exportToCSV = () => {
+    const headers = ['Archive', ...kinds.map(kind => `${kind} (Bytes)`), 'Total (Bytes)'];
+    const csvContent = [
+      headers.join(','),
+      ...rows.map(row => [row.name, ...kinds.map(kind => row.bytesByKind[kind] || 0), row.totalBytes]
+        .map(cell => `"${cell}"`).join(','))
+    ].join('\n');
+
+    const blob = new Blob([csvContent], { type: 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `archives-${new Date().toISOString().split('T')[0]}.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+
+    // Track CSV export
+    Analytics.trackExport('csv', 'archives');
+  };
+
+  return (
+    <Paper shadow="sm" p="md" withBorder>
+      <Stack gap="md">
+        <Group justify="space-between">
+          <Title order={3}>Per-Archive Usage</Title>
+          <Button
+            variant="light"
+            color="grape"
+            size="sm"
+            leftSection={<IconDownload size={16} />}
+            onClick={exportToCSV}
+          >
+            CSV
+          </Button>
+        </Group>
+
+        <Group gap="xs">
+          <TextInput
+            placeholder="Search archives..."
+            leftSection={<IconSearch size={16} />}
+            value={search}
+            onChange={(e) => setSearch(e.currentTarget.value)}
+            style={{ minWidth: 240 }}
+          />
+          {search && (
+            <Badge color="grape" variant="light">
+              {rows.length} matches
+            </Badge>
+          )}
+        </Group>
+
+        <ScrollArea h={400}>
+          <Table striped highlightOnHover>
+            <Table.Thead>
+              <Table.Tr>
+                <Table.Th>Archive</Table.Th>
+                {kinds.map(kind => (
+                  <Table.Th key={kind}>{kind}</Table.Th>
+                ))}
+                <Table.Th>Total</Table.Th>
+              </Table.Tr>
+            </Table.Thead>
+            <Table.Tbody>
+              {rows.map(row => (
+                <Table.Tr key={row.name}>
+                  <Table.Td>
+                    <Text size="sm" ff="monospace">{row.name}</Text>
+                  </Table.Td>
+                  {kinds.map(kind => (
+                    <Table.Td key={kind}>
+                      <Text size="sm" c={row.bytesByKind[kind] ? undefined : 'dimmed'}>
+                        {formatBytes(row.bytesByKind[kind] || 0)}
+                      </Text>
+                    </Table.Td>
+                  ))}
+                  <Table.Td>
+                    <Text size="sm" fw={500}>{formatBytes(row.totalBytes)}</Text>
+                  </Table.Td>
+                </Table.Tr>
+              ))}
+            </Table.Tbody>
+          </Table>
+        </ScrollArea>
+      </Stack>
+    </Paper>
+  );
+}
@@ -2,9 +2,12 @@ import { useState } from 'react';
 import { Paper, Text, Group, FileButton, Button, Alert, Badge, LoadingOverlay, Title, Stack, Grid, NumberInput } from '@mantine/core';
 import { IconUpload, IconFileText, IconCheck, IconX, IconGitCompare } from '@tabler/icons-react';
 import type { CompareResult } from '../types/index';
+import { compareLocally } from '../utils/localAnalysis';
+import type { ParseMode } from '../utils/localAnalysis';
 
 interface BuildCompareProps {
   onCompareComplete: (result: CompareResult) => void;
+  parseMode: ParseMode;
 }
 
 function formatFileSize(bytes: number): string {
@@ -15,7 +18,7 @@ function formatFileSize(bytes: number): string {
   return Math.round((bytes / Math.pow(k, i)) * 100) / 100 + ' ' + sizes[i];
 }
 
-export function BuildCompare({ onCompareComplete }: BuildCompareProps) {
+export function BuildCompare({ onCompareComplete, parseMode }: BuildCompareProps) {
   const [fileA, setFileA] = useState<File | null>(null);
   const [fileB, setFileB] = useState<File | null>(null);
   const [loading, setLoading] = useState(false);
@@ -46,30 +49,41 @@ export function BuildCompare({ onCompareComplete }: BuildCompareProps) {
     setError(null);
     setSuccess(false);
 
-    const formData = new FormData();
-    formData.append('fileA', fileA);
-    formData.append('fileB', fileB);
-
     try {
-      const queryParams = new URLSearchParams({
-        topN: topN.toString(),
-        anomalyThresholdPct: anomalyThresholdPct.toString(),
-        anomalyThresholdBytes: anomalyThresholdBytes.toString(),
-        includeUnchanged: 'false',
-      });
-
-      const response = await fetch(`http://localhost:5000/compare?${queryParams}`, {
-        method: 'POST',
-        body: formData,
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}));
-        console.error('Comparison failed:', errorData);
-        throw new Error(errorData.error || errorData.details || 'Failed to compare files. Please check that both files are valid .map files.');
-      }
+      let data: CompareResult;
+      if (parseMode === 'browser') {
+        // Same options the backend derives from the query string
+        data = await compareLocally(fileA, fileB, {
+          topN: topN || 20,
+          anomalyThresholdPct: anomalyThresholdPct || 20,
+          anomalyThresholdBytes: anomalyThresholdBytes || 1024,
+          includeUnchanged: false,
+        });
+      } else {
+        const formData = new FormData();
+        formData.append('fileA', fileA);
+        formData.append('fileB', fileB);
+
+        const queryParams = new URLSearchParams({
+          topN: topN.toString(),
+          anomalyThresholdPct: anomalyThresholdPct.toString(),
+          anomalyThresholdBytes: anomalyThresholdBytes.toString(),
+          includeUnchanged: 'false',
+        });
 
-      const data = await response.json();
+        const response = await fetch(`http://localhost:5000/compare?${queryParams}`, {
+          method: 'POST',
+          body: formData,
+        });
+
+        if (!response.ok) {
+          const errorData = await response.json().catch(() => ({}));
+          console.error('Comparison failed:', errorData);
+          throw new Error(errorData.error || errorData.details || 'Failed to compare files. Please check that both files are valid .map files.');
+        }
+
+        data = await response.json();
+      }
 
       if (!data || !data.summary) {
         throw new Error('Invalid response from server');
@@ -0,0 +1,314 @@
+import { useState, useEffect, useMemo } from 'react';
+import { Paper, Text, Table, ScrollArea, Group, Button, Title, Stack, Badge, Select, Checkbox, Alert, LoadingOverlay } from '@mantine/core';
+import { IconDownload, IconGitCompare, IconAlertTriangle } from '@tabler/icons-react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip as RechartsTooltip, Legend, ResponsiveContainer } from 'recharts';
+import type { Build, BranchTimeline, DiffResult, Project } from '../types/index';
+import { PIE_CHART_COLORS } from '../utils/colorMapping';
+import { Analytics } from '../hooks/useAnalytics';
+
+interface BuildHistoryProps {
+  onDiffComplete: (result: DiffResult) => void;
+}
+
+const API_URL = 'http://localhost:5000';
+
+function formatBytes(bytes: number): string {
+  if (bytes === 0) return '0 B';
+  const k = 1024;
+  const sizes = ['B', 'KB', 'MB', 'GB'];
+  const i = Math.floor(Math.log(Math.abs(bytes)) / Math.log(k));
+  return (bytes / Math.pow(k, i)).toFixed(2) + ' ' + sizes[i];
+}
+
+// Build number when the CI sent one, else the short commit SHA
+function buildLabel(build: Build): string {
+  return build.buildNumber !== null ? `#${build.buildNumber}` : build.commit.slice(0, 7);
+}
+
+function totalUsed(build: Build): number {
+  return build.regions.reduce((sum, region) => sum + region.used, 0);
+}
+
+async function fetchJson<T>(url: string): Promise<T> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.error || `Request failed: ${response.status}`);
+  }
+  return response.json();
+}
+
+export function BuildHistory({ onDiffComplete }: BuildHistoryProps) {
+  const [projects, setProjects] = useState<Project[] | null>(null);
+  const [project, setProject] = useState<string | null>(null);
+  const [timeline, setTimeline] = useState<BranchTimeline[]>([]);
+  const [branch, setBranch] = useState<string | null>(null);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchJson<Project[]>(`${API_URL}/projects`)
+      .then(data => {
+        setProjects(data);
+        setProject(data[0]?.name || null);
+      })
+      .catch(err => setError(err instanceof Error ? err.message : 'An error occurred'));
+  }, []);
+
+  useEffect(() => {
+    if (!project) return;
+    setLoading(true);
+    setSelected([]);
+    fetchJson<{ branches: BranchTimeline[] }>(`${API_URL}/projects/${encodeURIComponent(project)}/timeline`)
+      .then(data => {
+        setTimeline(data.branches);
+        // Branches come most recently built first
+        setBranch(data.branches[0]?.branch || null);
+      })
+      .catch(err => setError(err instanceof Error ? err.message : 'An error occurred'))
+      .finally(() => setLoading(false));
+  }, [project]);
+
+  const builds = useMemo(() => timeline.find(t => t.branch === branch)?.builds || [], [timeline, branch]);
+
+  // Regions that hold anything in some build, in declaration order
+  const regionNames = useMemo(() => {
+    const names: string[] = [];
+    builds.forEach(build => build.regions.forEach(region => {
+      if (region.used > 0 && !names.includes(region.name)) names.push(region.name);
+    }));
+    return names;
+  }, [builds]);
+
+  const chartData = builds.map(build => ({
+    label: buildLabel(build),
+    ...Object.fromEntries(build.regions.map(region => [region.name, region.used])),
+  }));
+
+  const toggleSelected = (buildId: string) => {
+    setSelected(prev => prev.includes(buildId)
+      ? prev.filter(id => id !== buildId)
+      : [...prev, buildId].slice(-2));
+  };
+
+  const handleCompare = async () => {
+    if (!project || selected.length !== 2) return;
+
+    // The older build is the baseline
+    const [base, head] = builds.filter(build => selected.includes(build.buildId));
+    setLoading(true);
+    setError(null);
+    try {
+      const params = new URLSearchParams({ base: base.buildId, head: head.buildId });
+      const data = await fetchJson<DiffResult>(`${API_URL}/projects/${encodeURIComponent(project)}/compare?${params}`);
+      onDiffComplete(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const exportToCSV = () => {
+    const headers = ['Build', 'Commit', 'Branch', 'Timestamp', 'Target', ...regionNames.map(name => `${name} (Bytes)`)];
+    const csvContent = [
+      headers.join(','),
+      ...builds.map(build => [
+        build.buildNumber ?? '',
+        build.commit,
+        build.branch,
+        build.timestamp,
+        build.target || '',
+        ...regionNames.map(name => build.regions.find(region => region.name === name)?.used || 0),
+      ].map(cell => `"${String(cell).replace(/"/g, '""')}"`).join(','))
+    ].join('\n');
+
+    const blob = new Blob([csvContent], { type: 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `build-history-${project}-${branch}-${new Date().toISOString().split('T')[0]}.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+
+    // Track CSV export
+    Analytics.trackExport('csv', 'build-history');
+  };
+
+  if (error && !projects) {
+    return (
+      <Paper shadow="sm" p="md" withBorder>
+        <Title order={3} mb="sm">Build History</Title>
+        <Text size="sm" c="dimmed">
+          Build history is kept by the backend server ({error}). Start it, register a project with POST /projects and post each CI build's map to POST /projects/:name/builds.
+        </Text>
+      </Paper>
+    );
+  }
+
+  if (projects && projects.length === 0) {
+    return (
+      <Paper shadow="sm" p="md" withBorder>
+        <Title order={3} mb="sm">Build History</Title>
+        <Text size="sm" c="dimmed">
+          No projects registered. Register one with POST /projects, then post each CI build's map with its commit and branch to POST /projects/:name/builds.
+        </Text>
+      </Paper>
+    );
+  }
+
+  return (
+    <Paper shadow="sm" p="md" withBorder pos="relative">
+      <LoadingOverlay visible={loading || !projects} />
+      <Stack gap="md">
+        <Group justify="space-between">
+          <Group gap="xs">
+            <Title order={3}>Build History</Title>
+            <Badge color="grape" variant="light">{builds.length} builds</Badge>
+          </Group>
+          <Group gap="xs">
+            <Button
+              variant="filled"
+              color="grape"
+              size="sm"
+              leftSection={<IconGitCompare size={16} />}
+              disabled={selected.length !== 2}
+              onClick={handleCompare}
+            >
+              Compare Selected
+            </Button>
+            <Button
+              variant="light"
+              color="grape"
+              size="sm"
+              leftSection={<IconDownload size={16} />}
+              onClick={exportToCSV}
+            >
+              CSV
+            </Button>
+          </Group>
+        </Group>
+
+        <Group gap="xs">
+          <Select
+            label="Project"
+            data={(projects || []).map(p => ({ value: p.name, label: `${p.name} (${p.buildCount})` }))}
+            value={project}
+            onChange={setProject}
+            allowDeselect={false}
+            style={{ minWidth: 240 }}
+          />
+          <Select
+            label="Branch"
+            data={timeline.map(t => ({ value: t.branch, label: `${t.branch} (${t.builds.length})` }))}
+            value={branch}
+            onChange={(value) => {
+              setBranch(value);
+              setSelected([]);
+            }}
+            allowDeselect={false}
+            style={{ minWidth: 240 }}
+          />
+        </Group>
+
+        {error && (
+          <Alert icon={<IconAlertTriangle size={16} />} color="red" title="Error">
+            {error}
+          </Alert>
+        )}
+
+        <Text size="sm" c="dimmed">
+          Used bytes of each memory region across the branch's builds. Select two builds to diff them without uploading the maps again.
+        </Text>
+
+        <ResponsiveContainer width="100%" height={300}>
+          <LineChart data={chartData}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis dataKey="label" />
+            <YAxis tickFormatter={(value) => formatBytes(value)} width={80} />
+            <RechartsTooltip formatter={(value) => formatBytes(Number(value))} />
+            <Legend />
+            {regionNames.map((name, index) => (
+              <Line
+                key={name}
+                type="monotone"
+                dataKey={name}
+                stroke={PIE_CHART_COLORS[index % PIE_CHART_COLORS.length]}
+                dot={{ r: 3 }}
+              />
+            ))}
+          </LineChart>
+        </ResponsiveContainer>
+
+        <ScrollArea h={400}>
+          <Table striped highlightOnHover>
+            <Table.Thead>
+              <Table.Tr>
+                <Table.Th />
+                <Table.Th>Build</Table.Th>
+                <Table.Th>Commit</Table.Th>
+                <Table.Th>Timestamp</Table.Th>
+                <Table.Th>Target</Table.Th>
+                {regionNames.map(name => (
+                  <Table.Th key={name}>{name}</Table.Th>
+                ))}
+                <Table.Th>Δ Total</Table.Th>
+              </Table.Tr>
+            </Table.Thead>
+            <Table.Tbody>
+              {/* Newest first; the change is against the branch's previous build */}
+              {builds.map((build, index) => ({ build, previous: builds[index - 1] })).reverse().map(({ build, previous }) => {
+                const delta = previous ? totalUsed(build) - totalUsed(previous) : 0;
+                return (
+                  <Table.Tr
+                    key={build.buildId}
+                    onClick={() => toggleSelected(build.buildId)}
+                    style={{ cursor: 'pointer' }}
+                  >
+                    <Table.Td>
+                      <Checkbox
+                        size="xs"
+                        checked={selected.includes(build.buildId)}
+                        onChange={() => toggleSelected(build.buildId)}
+                        onClick={(e) => e.stopPropagation()}
+                      />
+                    </Table.Td>
+                    <Table.Td>
+                      <Text size="sm" fw={500}>{buildLabel(build)}</Text>
+                    </Table.Td>
+                    <Table.Td>
+                      <Text size="sm" ff="monospace">{build.commit.slice(0, 12)}</Text>
+                    </Table.Td>
+                    <Table.Td>
+                      <Text size="sm">{new Date(build.timestamp).toLocaleString()}</Text>
+                    </Table.Td>
+                    <Table.Td>
+                      <Text size="sm" c="dimmed">{build.target || '-'}</Text>
+                    </Table.Td>
+                    {regionNames.map(name => {
+                      const region = build.regions.find(r => r.name === name);
+                      return (
+                        <Table.Td key={name}>
+                          <Text size="sm">{region ? formatBytes(region.used) : '-'}</Text>
+                          {region && region.lengthBytes > 0 && (
+                            <Text size="xs" c="dimmed">{((region.used / region.lengthBytes) * 100).toFixed(1)}%</Text>
+                          )}
+                        </Table.Td>
+                      );
+                    })}
+                    <Table.Td>
+                      <Text size="sm" fw={500} c={delta > 0 ? 'red' : delta < 0 ? 'green' : 'dimmed'}>
+                        {previous ? `${delta > 0 ? '+' : ''}${formatBytes(delta)}` : '-'}
+                      </Text>
+                    </Table.Td>
+                  </Table.Tr>
+                );
+              })}
+            </Table.Tbody>
+          </Table>
+        </ScrollArea>
+      </Stack>
+    </Paper>
+  );
+}
@@ -3,6 +3,8 @@ import { Paper, Text, Stack, Grid, Title, Button, Group, Badge, Table, ScrollAre
 import { IconDownload, IconAlertTriangle, IconTrendingUp, IconTrendingDown, IconEqual, IconFileAnalytics } from '@tabler/icons-react';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip as RechartsTooltip, Legend, ResponsiveContainer, Cell } from 'recharts';
 import type { CompareResult } from '../types/index';
+import { getRegionColor } from '../utils/colorMapping';
+import { SymbolName } from './SymbolName';
 
 interface CompareResultsProps {
   result: CompareResult;
@@ -29,7 +31,10 @@ function formatDelta(delta: number): { text: string; color: string; icon: React.
 }
 
 export function CompareResults({ result }: CompareResultsProps) {
-  const [viewMode, setViewMode] = useState<'sections' | 'files'>('sections');
+  const [viewMode, setViewMode] = useState<'sections' | 'files' | 'libraries' | 'directories'>('sections');
+  const directoryGroups = result.directoryGroups || [];
+  const groupRows = viewMode === 'directories' ? directoryGroups
+    : viewMode === 'libraries' ? result.libraryGroups : viewMode === 'files' ? result.fileGroups : result.sections;
 
   const exportToCSV = (type: 'all' | 'increases' | 'decreases' | 'anomalies') => {
     let data: any[] = [];
@@ -56,7 +61,7 @@ export function CompareResults({ result }: CompareResultsProps) {
 
     const headers = type === 'anomalies'
       ? ['Type', 'Name', 'Severity', 'Delta (Bytes)', 'Reasons']
-      : ['Section', 'File', 'Size A', 'Size B', 'Delta (Bytes)', 'Delta (%)', 'Status'];
+      : ['Section', 'File', 'Library', 'Size A', 'Size B', 'Delta (Bytes)', 'Delta (%)', 'Status', 'GC Transition'];
 
     const rows = data.map(item => {
       if (type === 'anomalies') {
@@ -71,11 +76,13 @@ export function CompareResults({ result }: CompareResultsProps) {
         return [
           item.name,
           item.file || '',
+          item.library || '',
           item.sizeA,
           item.sizeB,
           item.delta,
           item.deltaPct.toFixed(2),
           item.status,
+          item.gcTransition || '',
         ];
       }
     });
@@ -202,10 +209,42 @@ export function CompareResults({ result }: CompareResultsProps) {
           </Paper>
         </Grid.Col>
 
+        {result.summary.regions && result.summary.regions.length > 0 && (
+          <Grid.Col span={12}>
+            <Paper shadow="sm" p="md" withBorder>
+              <Text fw={600} size="sm" mb="sm">Memory Regions</Text>
+              <Stack gap="sm">
+                {result.summary.regions.map(region => {
+                  const usagePct = region.lengthBytes > 0 ? (region.sizeB / region.lengthBytes) * 100 : 0;
+                  return (
+                    <Stack key={region.name} gap={4}>
+                      <Group justify="space-between">
+                        <Group gap="xs">
+                          <Badge size="sm" variant="light" color={getRegionColor(region.name)}>{region.name}</Badge>
+                          <Text size="xs" c="dimmed">
+                            {formatBytes(region.sizeA)} → {formatBytes(region.sizeB)} of {formatBytes(region.lengthBytes)}
+                          </Text>
+                        </Group>
+                        <Text size="sm" fw={500} c={formatDelta(region.delta).color}>
+                          {formatDelta(region.delta).text}
+                        </Text>
+                      </Group>
+                      <Progress value={Math.min(usagePct, 100)} color={usagePct > 90 ? 'red' : getRegionColor(region.name)} size="sm" />
+                    </Stack>
+                  );
+                })}
+              </Stack>
+            </Paper>
+          </Grid.Col>
+        )}
+
         <Grid.Col span={{ base: 12, md: 4 }}>
           <Paper shadow="sm" p="md" withBorder style={{ textAlign: 'center' }}>
             <Text size="xs" c="dimmed" mb="xs">Sections Added</Text>
             <Text size="xl" fw={700} c="blue">{result.summary.sectionsAdded}</Text>
+            {!!result.summary.sectionsNewlyKept && (
+              <Text size="xs" c="dimmed">{result.summary.sectionsNewlyKept} previously discarded by --gc-sections</Text>
+            )}
           </Paper>
         </Grid.Col>
 
@@ -213,6 +252,9 @@ export function CompareResults({ result }: CompareResultsProps) {
           <Paper shadow="sm" p="md" withBorder style={{ textAlign: 'center' }}>
             <Text size="xs" c="dimmed" mb="xs">Sections Removed</Text>
             <Text size="xl" fw={700} c="orange">{result.summary.sectionsRemoved}</Text>
+            {!!result.summary.sectionsNewlyDiscarded && (
+              <Text size="xs" c="dimmed">{result.summary.sectionsNewlyDiscarded} now discarded by --gc-sections</Text>
+            )}
           </Paper>
         </Grid.Col>
 
@@ -352,7 +394,7 @@ export function CompareResults({ result }: CompareResultsProps) {
         <Tabs defaultValue="changes" color="grape">
           <Tabs.List>
             <Tabs.Tab value="changes">
-              All Changes ({viewMode === 'sections' ? result.sections.length : result.fileGroups.length})
+              All Changes ({groupRows.length})
             </Tabs.Tab>
             <Tabs.Tab value="anomalies">
               Anomalies ({result.anomalies.length})
@@ -364,10 +406,13 @@ export function CompareResults({ result }: CompareResultsProps) {
               <Group justify="space-between">
                 <SegmentedControl
                   value={viewMode}
-                  onChange={(val) => setViewMode(val as 'sections' | 'files')}
+                  onChange={(val) => setViewMode(val as 'sections' | 'files' | 'libraries' | 'directories')}
                   data={[
                     { label: 'By Section', value: 'sections' },
                     { label: 'By File', value: 'files' },
+                    { label: 'By Library', value: 'libraries' },
+                    // Source directories come from DWARF debug info, so only ELF-backed builds have them
+                    ...(directoryGroups.length > 0 ? [{ label: 'By Directory', value: 'directories' }] : []),
                   ]}
                   color="grape"
                 />
@@ -385,9 +430,9 @@ export function CompareResults({ result }: CompareResultsProps) {
                 <Table striped highlightOnHover>
                   <Table.Thead>
                     <Table.Tr>
-                      <Table.Th>{viewMode === 'sections' ? 'Section' : 'File'}</Table.Th>
+                      <Table.Th>{viewMode === 'sections' ? 'Section' : viewMode === 'libraries' ? 'Library' : viewMode === 'directories' ? 'Directory' : 'File'}</Table.Th>
                       {viewMode === 'sections' && <Table.Th>File</Table.Th>}
-                      {viewMode === 'files' && <Table.Th>Sections</Table.Th>}
+                      {viewMode !== 'sections' && <Table.Th>{viewMode === 'directories' ? 'Symbols' : 'Sections'}</Table.Th>}
                       <Table.Th>Size A</Table.Th>
                       <Table.Th>Size B</Table.Th>
                       <Table.Th>Delta</Table.Th>
@@ -396,21 +441,37 @@ export function CompareResults({ result }: CompareResultsProps) {
                     </Table.Tr>
                   </Table.Thead>
                   <Table.Tbody>
-                    {(viewMode === 'sections' ? result.sections : result.fileGroups).map((item: any, idx) => {
+                    {groupRows.map((item: any, idx) => {
                       const deltaInfo = formatDelta(item.delta);
                       return (
                         <Table.Tr key={idx}>
                           <Table.Td>
-                            <Text size="sm" ff="monospace">{viewMode === 'sections' ? item.name : item.file}</Text>
+                            {viewMode === 'sections' ? (
+                              <SymbolName name={item.name} />
+                            ) : (
+                              <Text
+                                size="sm"
+                                ff="monospace"
+                                title={viewMode === 'directories' ? item.directory : undefined}
+                                style={viewMode === 'directories' ? { paddingLeft: item.depth * 16 } : undefined}
+                              >
+                                {viewMode === 'libraries' ? item.library
+                                  : viewMode === 'directories' ? item.directory.split('/').pop()
+                                  : item.file}
+                              </Text>
+                            )}
+                            {viewMode === 'libraries' && (
+                              <Text size="xs" c="dimmed">{item.objects.length} object files</Text>
+                            )}
                           </Table.Td>
                           {viewMode === 'sections' && (
                             <Table.Td>
                               <Text size="sm" c="dimmed">{item.file || '-'}</Text>
                             </Table.Td>
                           )}
-                          {viewMode === 'files' && (
+                          {viewMode !== 'sections' && (
                             <Table.Td>
-                              <Badge size="sm" variant="light">{item.sectionCount}</Badge>
+                              <Badge size="sm" variant="light">{viewMode === 'directories' ? item.symbolCount : item.sectionCount}</Badge>
                             </Table.Td>
                           )}
                           <Table.Td>
@@ -436,6 +497,13 @@ export function CompareResults({ result }: CompareResultsProps) {
                               >
                                 {item.status}
                               </Badge>
+                              {item.gcTransition && (
+                                <Tooltip label={item.gcTransition === 'kept' ? 'Discarded by --gc-sections in build A, kept in build B' : 'Kept in build A, discarded by --gc-sections in build B'}>
+                                  <Badge size="sm" ml={4} variant="outline" color={item.gcTransition === 'kept' ? 'red' : 'green'}>
+                                    {item.gcTransition === 'kept' ? 'previously discarded' : 'now discarded'}
+                                  </Badge>
+                                </Tooltip>
+                              )}
                             </Table.Td>
                           )}
                         </Table.Tr>
@@ -467,7 +535,7 @@ export function CompareResults({ result }: CompareResultsProps) {
                           <Badge size="sm" variant="light">{anomaly.type}</Badge>
                         </Table.Td>
                         <Table.Td>
-                          <Text size="sm" ff="monospace">{anomaly.name}</Text>
+                          <SymbolName name={anomaly.name} />
                         </Table.Td>
                         <Table.Td>
                           <Badge
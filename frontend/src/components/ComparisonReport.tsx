@@ -3,6 +3,8 @@ import { Paper, Title, Text, Stack, Group, Badge, Button, Table } from '@mantine
 import { IconArrowLeft, IconPrinter } from '@tabler/icons-react';
 import { BarChart, Bar, Cell, XAxis, YAxis, CartesianGrid, Tooltip as RechartsTooltip, Legend, ResponsiveContainer } from 'recharts';
 import type { DiffResult } from '../types/index';
+import { getRegionColor } from '../utils/colorMapping';
+import { SymbolName } from './SymbolName';
 
 function formatBytes(bytes: number): string {
   if (bytes === 0) return '0 B';
@@ -29,20 +31,14 @@ export function ComparisonReport() {
   }
 
   // Memory overview data
-  const memoryOverviewData = [
-    {
-      region: 'FLASH',
-      'Version 1': diffResult.diff.filter(d => d.region === 'FLASH').reduce((sum, d) => sum + d.sizeV1, 0),
-      'Version 2': diffResult.diff.filter(d => d.region === 'FLASH').reduce((sum, d) => sum + d.sizeV2, 0),
-      delta: diffResult.diff.filter(d => d.region === 'FLASH').reduce((sum, d) => sum + d.sizeDiff, 0),
-    },
-    {
-      region: 'RAM',
-      'Version 1': diffResult.diff.filter(d => d.region === 'RAM').reduce((sum, d) => sum + d.sizeV1, 0),
-      'Version 2': diffResult.diff.filter(d => d.region === 'RAM').reduce((sum, d) => sum + d.sizeV2, 0),
-      delta: diffResult.diff.filter(d => d.region === 'RAM').reduce((sum, d) => sum + d.sizeDiff, 0),
-    },
-  ];
+  const memoryOverviewData = (diffResult.regionGroups || [])
+    .filter(group => group.name !== 'OTHER')
+    .map(group => ({
+      region: group.name,
+      'Version 1': group.sizeV1,
+      'Version 2': group.sizeV2,
+      delta: group.sizeDiff,
+    }));
 
   return (
     <div style={{ padding: '20px', maxWidth: '900px', margin: '0 auto' }}>
@@ -214,10 +210,10 @@ export function ComparisonReport() {
                         </Badge>
                       </Table.Td>
                       <Table.Td>
-                        <Text size="sm" fw={500}>{anomaly.name}</Text>
+                        <SymbolName name={anomaly.name} fw={500} />
                       </Table.Td>
                       <Table.Td>
-                        <Badge size="sm" color={anomaly.region === 'FLASH' ? 'blue' : 'orange'}>
+                        <Badge size="sm" color={getRegionColor(anomaly.region)}>
                           {anomaly.region}
                         </Badge>
                       </Table.Td>
@@ -284,10 +280,10 @@ export function ComparisonReport() {
                         </Badge>
                       </Table.Td>
                       <Table.Td>
-                        <Text size="sm" fw={500}>{item.name}</Text>
+                        <SymbolName name={item.name} fw={500} />
                       </Table.Td>
                       <Table.Td>
-                        <Badge size="sm" color={item.region === 'FLASH' ? 'blue' : 'orange'}>
+                        <Badge size="sm" color={getRegionColor(item.region)}>
                           {item.region}
                         </Badge>
                       </Table.Td>
@@ -0,0 +1,198 @@
+import { useState, useMemo } from 'react';
+import { Paper, Text, Table, ScrollArea, TextInput, Group, Button, Title, Stack, Badge, SegmentedControl, ActionIcon } from '@mantine/core';
+import { IconSearch, IconDownload, IconChevronDown, IconChevronRight } from '@tabler/icons-react';
+import type { CrossReference, SymbolEntry } from '../types/index';
+import { demangle } from '../utils/demangle';
+import { Analytics } from '../hooks/useAnalytics';
+import { SymbolName } from './SymbolName';
+
+interface CrossReferencesProps {
+  crossReferences?: CrossReference[] | null;
+  symbols: SymbolEntry[];
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes === 0) return '0 Bytes';
+  const k = 1024;
+  const sizes = ['Bytes', 'KB', 'MB', 'GB'];
+  const i = Math.floor(Math.log(bytes) / Math.log(k));
+  return Math.round((bytes / Math.pow(k, i)) * 100) / 100 + ' ' + sizes[i];
+}
+
+type Row = CrossReference & { size: number; demangledName: string | null };
+
+export function CrossReferences({ crossReferences, symbols }: CrossReferencesProps) {
+  const [search, setSearch] = useState('');
+  const [scope, setScope] = useState<'all' | 'libraries'>('all');
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  // Largest first, so big library functions and the files pulling them in come to the top
+  const allRows = useMemo<Row[]>(() => {
+    const sizes = new Map<string, number>();
+    symbols.forEach(symbol => {
+      sizes.set(symbol.name, Math.max(sizes.get(symbol.name) || 0, symbol.size));
+    });
+    return (crossReferences || [])
+      .map(reference => ({
+        ...reference,
+        size: sizes.get(reference.symbol) || 0,
+        demangledName: demangle(reference.symbol),
+      }))
+      .sort((a, b) => b.size - a.size);
+  }, [crossReferences, symbols]);
+
+  const rows = useMemo(() => {
+    // Archive members are shown as library(object)
+    const scoped = scope === 'libraries'
+      ? allRows.filter(row => row.definedIn?.includes('('))
+      : allRows;
+    const query = search.trim().toLowerCase();
+    return query
+      ? scoped.filter(row => [row.symbol, row.demangledName, row.definedIn, ...row.referencedBy]
+          .some(text => text?.toLowerCase().includes(query)))
+      : scoped;
+  }, [allRows, scope, search]);
+
+  const exportToCSV = () => {
+    const headers = ['Symbol', 'Size (Bytes)', 'Defined In', 'Referenced By'];
+    const csvContent = [
+      headers.join(','),
+      ...rows.map(row => [row.symbol, row.size, row.definedIn || '', row.referencedBy.join(' ')]
+        .map(cell => `"${String(cell).replace(/"/g, '""')}"`).join(','))
+    ].join('\n');
+
+    const blob = new Blob([csvContent], { type: 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `cross-references-${new Date().toISOString().split('T')[0]}.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+
+    // Track CSV export
+    Analytics.trackExport('csv', 'cross-references');
+  };
+
+  if (!crossReferences || crossReferences.length === 0) {
+    return (
+      <Paper shadow="sm" p="md" withBorder>
+        <Title order={3} mb="sm">Cross References</Title>
+        <Text size="sm" c="dimmed">
+          No cross reference table found. Link with -Wl,--cref to have GNU ld list the files referencing each symbol in the map.
+        </Text>
+      </Paper>
+    );
+  }
+
+  return (
+    <Paper shadow="sm" p="md" withBorder>
+      <Stack gap="md">
+        <Group justify="space-between">
+          <Group gap="xs">
+            <Title order={3}>Cross References</Title>
+            <Badge color="grape" variant="light">{crossReferences.length} symbols</Badge>
+          </Group>
+          <Button
+            variant="light"
+            color="grape"
+            size="sm"
+            leftSection={<IconDownload size={16} />}
+            onClick={exportToCSV}
+          >
+            CSV
+          </Button>
+        </Group>
+
+        <Text size="sm" c="dimmed">
+          The file defining each symbol and the files referencing it, from the map's --cref table. Expand a symbol to see who pulls it in.
+        </Text>
+
+        <Group gap="xs">
+          <TextInput
+            placeholder="Search symbols or files..."
+            leftSection={<IconSearch size={16} />}
+            value={search}
+            onChange={(e) => setSearch(e.currentTarget.value)}
+            style={{ minWidth: 240 }}
+          />
+          <SegmentedControl
+            size="xs"
+            value={scope}
+            onChange={(value) => setScope(value as 'all' | 'libraries')}
+            data={[
+              { label: 'All Symbols', value: 'all' },
+              { label: 'Library Symbols', value: 'libraries' },
+            ]}
+          />
+          {search && (
+            <Badge color="grape" variant="light">
+              {rows.length} matches
+            </Badge>
+          )}
+        </Group>
+
+        <ScrollArea h={500}>
+          <Table striped highlightOnHover>
+            <Table.Thead>
+              <Table.Tr>
+                <Table.Th>Symbol</Table.Th>
+                <Table.Th>Size</Table.Th>
+                <Table.Th>Defined In</Table.Th>
+                <Table.Th>References</Table.Th>
+              </Table.Tr>
+            </Table.Thead>
+            <Table.Tbody>
+              {rows.map((row, index) => {
+                const key = `${row.symbol}-${index}`;
+                const isExpanded = expanded === key;
+                return [
+                  <Table.Tr
+                    key={key}
+                    onClick={() => setExpanded(isExpanded ? null : key)}
+                    style={{ cursor: 'pointer' }}
+                  >
+                    <Table.Td>
+                      <Group gap={6} wrap="nowrap">
+                        <ActionIcon size="xs" variant="subtle" color="gray">
+                          {isExpanded ? <IconChevronDown size={14} /> : <IconChevronRight size={14} />}
+                        </ActionIcon>
+                        <SymbolName name={row.symbol} highlight={search} />
+                      </Group>
+                    </Table.Td>
+                    <Table.Td>
+                      <Text size="sm" fw={500}>{row.size > 0 ? formatBytes(row.size) : '-'}</Text>
+                    </Table.Td>
+                    <Table.Td>
+                      <Text size="sm" c="blue">{row.definedIn || '-'}</Text>
+                    </Table.Td>
+                    <Table.Td>
+                      <Badge size="sm" variant="light" color={row.referencedBy.length === 0 ? 'gray' : 'grape'}>
+                        {row.referencedBy.length}
+                      </Badge>
+                    </Table.Td>
+                  </Table.Tr>,
+                  ...(isExpanded ? [
+                    <Table.Tr key={`${key}-references`}>
+                      <Table.Td colSpan={4} style={{ paddingLeft: 40 }}>
+                        {row.referencedBy.length > 0 ? (
+                          <Stack gap={2}>
+                            <Text size="xs" c="dimmed">Referenced by:</Text>
+                            {row.referencedBy.map(file => (
+                              <Text key={file} size="xs" ff="monospace">{file}</Text>
+                            ))}
+                          </Stack>
+                        ) : (
+                          <Text size="xs" c="dimmed">Not referenced from another file</Text>
+                        )}
+                      </Table.Td>
+                    </Table.Tr>
+                  ] : []),
+                ];
+              })}
+            </Table.Tbody>
+          </Table>
+        </ScrollArea>
+      </Stack>
+    </Paper>
+  );
+}
@@ -0,0 +1,121 @@
+import { useMemo } from 'react';
+import { Paper, Text, Table, ScrollArea, Group, Button, Title, Stack, Badge, Progress } from '@mantine/core';
+import { IconDownload, IconFolder } from '@tabler/icons-react';
+import type { SymbolEntry } from '../types/index';
+import { rollupDirectories } from '../utils/sectionUtils';
+import { Analytics } from '../hooks/useAnalytics';
+
+interface DirectoryTreeProps {
+  symbols: SymbolEntry[];
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes === 0) return '0 Bytes';
+  const k = 1024;
+  const sizes = ['Bytes', 'KB', 'MB', 'GB'];
+  const i = Math.floor(Math.log(bytes) / Math.log(k));
+  return Math.round((bytes / Math.pow(k, i)) * 100) / 100 + ' ' + sizes[i];
+}
+
+export function DirectoryTree({ symbols }: DirectoryTreeProps) {
+  const rows = useMemo(() => rollupDirectories(symbols), [symbols]);
+  const total = rows[0]?.size || 0;
+
+  const exportToCSV = () => {
+    const headers = ['Directory', 'Size (Bytes)', 'Symbols'];
+    const csvContent = [
+      headers.join(','),
+      ...rows.map(row => [row.directory, row.size, row.symbolCount].map(cell => `"${cell}"`).join(','))
+    ].join('\n');
+
+    const blob = new Blob([csvContent], { type: 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `directories-${new Date().toISOString().split('T')[0]}.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+
+    // Track CSV export
+    Analytics.trackExport('csv', 'directories');
+  };
+
+  if (rows.length === 0) {
+    return (
+      <Paper shadow="sm" p="md" withBorder>
+        <Title order={3} mb="sm">Source Directories</Title>
+        <Text size="sm" c="dimmed">
+          No source paths found. Upload the ELF built with debug info (-g), alone or with the map, to attribute symbols to source files.
+        </Text>
+      </Paper>
+    );
+  }
+
+  return (
+    <Paper shadow="sm" p="md" withBorder>
+      <Stack gap="md">
+        <Group justify="space-between">
+          <Group gap="xs">
+            <Title order={3}>Source Directories</Title>
+            <Badge color="grape" variant="light">{rows[0].symbolCount} symbols</Badge>
+          </Group>
+          <Button
+            variant="light"
+            color="grape"
+            size="sm"
+            leftSection={<IconDownload size={16} />}
+            onClick={exportToCSV}
+          >
+            CSV
+          </Button>
+        </Group>
+
+        <Text size="sm" c="dimmed">
+          Symbol sizes rolled up by the directory of each symbol's compilation unit (DWARF). Bytes outside any sized symbol are not counted.
+        </Text>
+
+        <ScrollArea h={400}>
+          <Table striped highlightOnHover>
+            <Table.Thead>
+              <Table.Tr>
+                <Table.Th>Directory</Table.Th>
+                <Table.Th>Size</Table.Th>
+                <Table.Th>Share</Table.Th>
+                <Table.Th>Symbols</Table.Th>
+              </Table.Tr>
+            </Table.Thead>
+            <Table.Tbody>
+              {rows.map(row => {
+                const share = total > 0 ? (row.size / total) * 100 : 0;
+                return (
+                  <Table.Tr key={row.directory}>
+                    <Table.Td>
+                      <Group gap={6} wrap="nowrap" style={{ paddingLeft: row.depth * 16 }}>
+                        <IconFolder size={14} />
+                        <Text size="sm" ff="monospace" title={row.directory}>
+                          {row.directory.split('/').pop()}
+                        </Text>
+                      </Group>
+                    </Table.Td>
+                    <Table.Td>
+                      <Text size="sm" fw={500}>{formatBytes(row.size)}</Text>
+                    </Table.Td>
+                    <Table.Td style={{ minWidth: 140 }}>
+                      <Group gap="xs" wrap="nowrap">
+                        <Progress value={share} color="grape" size="sm" style={{ flex: 1 }} />
+                        <Text size="xs" c="dimmed">{share.toFixed(1)}%</Text>
+                      </Group>
+                    </Table.Td>
+                    <Table.Td>
+                      <Text size="sm" c="dimmed">{row.symbolCount}</Text>
+                    </Table.Td>
+                  </Table.Tr>
+                );
+              })}
+            </Table.Tbody>
+          </Table>
+        </ScrollArea>
+      </Stack>
+    </Paper>
+  );
+}
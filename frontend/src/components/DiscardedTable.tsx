@@ -0,0 +1,155 @@
+import { useState, useMemo } from 'react';
+import { Paper, Text, Table, ScrollArea, TextInput, Group, Button, Title, Stack, Badge, SegmentedControl, Progress } from '@mantine/core';
+import { IconSearch, IconDownload } from '@tabler/icons-react';
+import type { DiscardedSections } from '../types/index';
+import { Analytics } from '../hooks/useAnalytics';
+
+interface DiscardedTableProps {
+  discarded?: DiscardedSections | null;
+  keptSize: number; // Used bytes of the memory regions, as the memory summary counts them (no debug info)
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes === 0) return '0 Bytes';
+  const k = 1024;
+  const sizes = ['Bytes', 'KB', 'MB', 'GB'];
+  const i = Math.floor(Math.log(bytes) / Math.log(k));
+  return Math.round((bytes / Math.pow(k, i)) * 100) / 100 + ' ' + sizes[i];
+}
+
+type Row = { name: string; size: number; detail: string };
+
+export function DiscardedTable({ discarded, keptSize }: DiscardedTableProps) {
+  const [search, setSearch] = useState('');
+  const [groupBy, setGroupBy] = useState<'section' | 'object' | 'library'>('section');
+
+  const rows = useMemo<Row[]>(() => {
+    if (!discarded) return [];
+
+    const all: Row[] = groupBy === 'section'
+      ? discarded.sections.map(s => ({ name: s.name, size: s.size, detail: s.filePath || '-' }))
+      : (groupBy === 'library' ? discarded.libraries : discarded.objects)
+          .map(g => ({ name: g.name, size: g.size, detail: `${g.sectionCount} sections` }));
+
+    const query = search.trim().toLowerCase();
+    return query
+      ? all.filter(row => row.name.toLowerCase().includes(query) || row.detail.toLowerCase().includes(query))
+      : all;
+  }, [discarded, groupBy, search]);
+
+  const exportToCSV = () => {
+    const headers = [groupBy === 'section' ? 'Section' : groupBy === 'library' ? 'Library' : 'Object File', 'Size (Bytes)', groupBy === 'section' ? 'File' : 'Sections'];
+    const csvContent = [
+      headers.join(','),
+      ...rows.map(row => [row.name, row.size, row.detail].map(cell => `"${cell}"`).join(','))
+    ].join('\n');
+
+    const blob = new Blob([csvContent], { type: 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `discarded-sections-${groupBy}-${new Date().toISOString().split('T')[0]}.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+
+    // Track CSV export
+    Analytics.trackExport('csv', 'discarded');
+  };
+
+  if (!discarded || discarded.sectionCount === 0) {
+    return (
+      <Paper shadow="sm" p="md" withBorder>
+        <Title order={3} mb="sm">Discarded Sections</Title>
+        <Text size="sm" c="dimmed">
+          No discarded sections found. GNU ld lists sections removed by --gc-sections under "Discarded input sections".
+        </Text>
+      </Paper>
+    );
+  }
+
+  const droppedPct = (discarded.totalSize / (discarded.totalSize + keptSize)) * 100;
+
+  return (
+    <Paper shadow="sm" p="md" withBorder>
+      <Stack gap="md">
+        <Group justify="space-between">
+          <Title order={3}>Discarded Sections</Title>
+          <Button
+            variant="light"
+            color="grape"
+            size="sm"
+            leftSection={<IconDownload size={16} />}
+            onClick={exportToCSV}
+          >
+            CSV
+          </Button>
+        </Group>
+
+        <Stack gap={4}>
+          <Group justify="space-between">
+            <Text size="sm">
+              <Text span fw={600}>{formatBytes(discarded.totalSize)}</Text> of code and data in {discarded.sectionCount} sections removed by --gc-sections
+              {!!discarded.nonAllocatedSize && (
+                <Text span c="dimmed">, plus {formatBytes(discarded.nonAllocatedSize)} of debug info and comments</Text>
+              )}
+            </Text>
+            <Text size="sm" c="dimmed">{droppedPct.toFixed(1)}% of linked input</Text>
+          </Group>
+          <Progress value={droppedPct} color="green" size="sm" />
+        </Stack>
+
+        <Group gap="xs">
+          <SegmentedControl
+            size="xs"
+            value={groupBy}
+            onChange={(value) => setGroupBy(value as 'section' | 'object' | 'library')}
+            data={[
+              { label: 'Sections', value: 'section' },
+              { label: 'By Object', value: 'object' },
+              { label: 'By Library', value: 'library' },
+            ]}
+          />
+          <TextInput
+            placeholder="Search discarded sections..."
+            leftSection={<IconSearch size={16} />}
+            value={search}
+            onChange={(e) => setSearch(e.currentTarget.value)}
+            style={{ minWidth: 240 }}
+          />
+          {search && (
+            <Badge color="grape" variant="light">
+              {rows.length} matches
+            </Badge>
+          )}
+        </Group>
+
+        <ScrollArea h={400}>
+          <Table striped highlightOnHover>
+            <Table.Thead>
+              <Table.Tr>
+                <Table.Th>{groupBy === 'section' ? 'Section' : groupBy === 'library' ? 'Library' : 'Object File'}</Table.Th>
+                <Table.Th>Size</Table.Th>
+                <Table.Th>{groupBy === 'section' ? 'File' : 'Sections'}</Table.Th>
+              </Table.Tr>
+            </Table.Thead>
+            <Table.Tbody>
+              {rows.map((row, index) => (
+                <Table.Tr key={`${row.name}-${row.detail}-${index}`}>
+                  <Table.Td>
+                    <Text size="sm" ff="monospace">{row.name}</Text>
+                  </Table.Td>
+                  <Table.Td>
+                    <Text size="sm" fw={500}>{formatBytes(row.size)}</Text>
+                  </Table.Td>
+                  <Table.Td>
+                    <Text size="sm" c={groupBy === 'section' ? 'blue' : 'dimmed'}>{row.detail}</Text>
+                  </Table.Td>
+                </Table.Tr>
+              ))}
+            </Table.Tbody>
+          </Table>
+        </ScrollArea>
+      </Stack>
+    </Paper>
+  );
+}
@@ -1,12 +1,15 @@
-import { useState } from 'react';
-import { Paper, Text, Group, FileButton, Button, Loader, Alert, Badge, LoadingOverlay, Title, Stack } from '@mantine/core';
-import { IconUpload, IconFileText, IconCheck } from '@tabler/icons-react';
-import type { AnalysisResult } from '../types/index';
+import { useEffect, useState } from 'react';
+import { Paper, Text, Group, FileButton, Button, Loader, Alert, Badge, LoadingOverlay, Title, Stack, Progress } from '@mantine/core';
+import { IconUpload, IconFileText, IconCheck, IconBinary } from '@tabler/icons-react';
+import type { AnalysisResult, ElfCheck, ParseProgress } from '../types/index';
 import { Analytics } from '../hooks/useAnalytics';
+import { analyzeLocally } from '../utils/localAnalysis';
+import type { ParseMode } from '../utils/localAnalysis';
 
 interface FileUploaderProps {
   onAnalysisComplete: (result: AnalysisResult) => void;
   onFileSelect?: () => void;
+  parseMode: ParseMode;
 }
 
 function formatFileSize(bytes: number): string {
@@ -17,14 +20,44 @@ function formatFileSize(bytes: number): string {
   return Math.round((bytes / Math.pow(k, i)) * 100) / 100 + ' ' + sizes[i];
 }
 
-export function FileUploader({ onAnalysisComplete, onFileSelect }: FileUploaderProps) {
+// ELF images as named by GCC/Clang, Keil (.axf) and TI (.out)
+function isElfFileName(name: string): boolean {
+  return /\.(elf|axf|out)$/i.test(name);
+}
+
+export function FileUploader({ onAnalysisComplete, onFileSelect, parseMode }: FileUploaderProps) {
   const [file, setFile] = useState<File | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState(false);
+  const [elfFile, setElfFile] = useState<File | null>(null);
+  const [elfCheck, setElfCheck] = useState<ElfCheck | null>(null);
+  const [progressId, setProgressId] = useState<string | null>(null);
+  const [progress, setProgress] = useState<ParseProgress | null>(null);
+
+  // Poll the backend for parse progress while a file is being analyzed (large maps take a while)
+  useEffect(() => {
+    if (!progressId) return;
+
+    const timer = setInterval(async () => {
+      try {
+        const response = await fetch(`http://localhost:5000/analyze/progress/${progressId}`);
+        if (response.ok) {
+          setProgress(await response.json());
+        }
+      } catch {
+        // Progress is best effort; the analyze request reports real failures
+      }
+    }, 500);
+
+    return () => clearInterval(timer);
+  }, [progressId]);
 
   const handleFileChange = (newFile: File | null) => {
     setFile(newFile);
+    // An ELF added earlier belongs to the previous map, not this one
+    setElfFile(null);
+    setElfCheck(null);
     // Clear success and error messages when a new file is selected
     setSuccess(false);
     setError(null);
@@ -39,31 +72,55 @@ export function FileUploader({ onAnalysisComplete, onFileSelect }: FileUploaderP
     }
   };
 
+  const handleElfFileChange = (newFile: File | null) => {
+    setElfFile(newFile);
+    setSuccess(false);
+    setElfCheck(null);
+  };
+
+  // An ELF on its own is analyzed in place of a map; an ELF added to a map is cross-checked against it
+  const analyzeOnServer = async (mapFile: File | null, elf: File | null): Promise<AnalysisResult> => {
+    // Sent first, so the backend can record parse progress under it
+    const id = crypto.randomUUID();
+    setProgressId(id);
+
+    const formData = new FormData();
+    formData.append('progressId', id);
+    if (mapFile) formData.append('mapFile', mapFile);
+    if (elf) formData.append('elfFile', elf);
+
+    const response = await fetch('http://localhost:5000/analyze', {
+      method: 'POST',
+      body: formData,
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || 'Failed to analyze file. Please check if the file is a valid .map file.');
+    }
+
+    return response.json();
+  };
+
   const handleAnalyze = async () => {
     if (!file) return;
 
     setLoading(true);
     setError(null);
     setSuccess(false);
+    setProgress(null);
 
-    const formData = new FormData();
-    formData.append('mapFile', file);
+    const mapFile = isElfFileName(file.name) ? null : file;
+    const elf = isElfFileName(file.name) ? file : elfFile;
 
     // Start performance measurement
     const startTime = performance.now();
 
     try {
-      const response = await fetch('http://localhost:5000/analyze', {
-        method: 'POST',
-        body: formData,
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}));
-        throw new Error(errorData.error || 'Failed to analyze file. Please check if the file is a valid .map file.');
-      }
-
-      const data = await response.json();
+      // Parsed in a Web Worker unless the server is chosen; both give the same result
+      const data = parseMode === 'browser'
+        ? await analyzeLocally(mapFile, elf, setProgress)
+        : await analyzeOnServer(mapFile, elf);
 
       // Calculate parse time
       const parseTime = Math.round(performance.now() - startTime);
@@ -76,31 +133,47 @@ export function FileUploader({ onAnalysisComplete, onFileSelect }: FileUploaderP
       Analytics.trackFileAnalysis(file.size, parseTime, data.sections.length);
 
       onAnalysisComplete(data);
+      setElfCheck(data.elfCheck || null);
       setSuccess(true);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'An error occurred while analyzing the file');
     } finally {
       setLoading(false);
+      setProgressId(null);
+      setProgress(null);
     }
   };
 
   return (
     <Paper shadow="sm" p="xl" withBorder pos="relative">
-      <LoadingOverlay visible={loading} overlayProps={{ radius: 'sm', blur: 2 }} />
+      <LoadingOverlay
+        visible={loading}
+        overlayProps={{ radius: 'sm', blur: 2 }}
+        loaderProps={progress ? {
+          children: (
+            <Stack gap={4} align="center" w={240}>
+              <Progress value={progress.percent} color="grape" w="100%" animated />
+              <Text size="xs" c="dimmed">
+                Parsing {progress.fileName}: {formatFileSize(progress.bytesRead)} of {formatFileSize(progress.totalBytes)}
+              </Text>
+            </Stack>
+          ),
+        } : undefined}
+      />
 
       <Stack gap="md">
         <Group justify="space-between">
           <div>
             <Title order={3} mb={4}>Upload Map File</Title>
             <Text size="sm" c="dimmed">
-              Upload an embedded system .map file to analyze memory usage
+              Upload an embedded system .map or .elf file to analyze memory usage
             </Text>
           </div>
           <IconFileText size={32} stroke={1.5} color="var(--mantine-color-grape-6)" />
         </Group>
 
         <Group gap="md" align="center">
-          <FileButton onChange={handleFileChange} accept=".map">
+          <FileButton onChange={handleFileChange} accept=".map,.elf,.axf,.out">
             {(props) => (
               <Button
                 {...props}
@@ -121,7 +194,27 @@ export function FileUploader({ onAnalysisComplete, onFileSelect }: FileUploaderP
                 <Badge size="sm" variant="light" color="grape">
                   {formatFileSize(file.size)}
                 </Badge>
+                {elfFile && !isElfFileName(file.name) && (
+                  <Badge size="sm" variant="light" color="blue">
+                    + {elfFile.name}
+                  </Badge>
+                )}
               </Group>
+              {!isElfFileName(file.name) && (
+                <FileButton onChange={handleElfFileChange} accept=".elf,.axf,.out">
+                  {(props) => (
+                    <Button
+                      {...props}
+                      leftSection={<IconBinary size={16} />}
+                      variant="subtle"
+                      color="grape"
+                      disabled={loading}
+                    >
+                      {elfFile ? 'Change ELF' : 'Add ELF'}
+                    </Button>
+                  )}
+                </FileButton>
+              )}
               <Button
                 onClick={handleAnalyze}
                 disabled={loading}
@@ -145,6 +238,30 @@ export function FileUploader({ onAnalysisComplete, onFileSelect }: FileUploaderP
             Map file analyzed successfully!
           </Alert>
         )}
+
+        {elfCheck && (
+          <Alert
+            color={elfCheck.mismatches.length > 0 ? 'orange' : 'green'}
+            title={elfCheck.mismatches.length > 0
+              ? `ELF cross-check: ${elfCheck.mismatches.length} section(s) differ from the map`
+              : `ELF cross-check: ${elfCheck.matched} sections match the map`}
+            variant="light"
+          >
+            <Stack gap={4}>
+              {elfCheck.mismatches.map(mismatch => (
+                <Text key={mismatch.name} size="sm" ff="monospace">
+                  {mismatch.name}: map {mismatch.mapSize} bytes @ {mismatch.mapAddress}, ELF {mismatch.elfSize} bytes @ {mismatch.elfAddress}
+                </Text>
+              ))}
+              {elfCheck.missingInElf.length > 0 && (
+                <Text size="sm">Only in the map: {elfCheck.missingInElf.join(', ')}</Text>
+              )}
+              {elfCheck.missingInMap.length > 0 && (
+                <Text size="sm">Only in the ELF: {elfCheck.missingInMap.join(', ')}</Text>
+              )}
+            </Stack>
+          </Alert>
+        )}
       </Stack>
     </Paper>
   );
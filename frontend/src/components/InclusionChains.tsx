@@ -0,0 +1,238 @@
+import { useState, useMemo } from 'react';
+import { Paper, Text, Table, ScrollArea, TextInput, Group, Button, Title, Stack, Badge, Progress, SegmentedControl, ActionIcon } from '@mantine/core';
+import { IconSearch, IconDownload, IconChevronDown, IconChevronRight, IconArrowLeft } from '@tabler/icons-react';
+import type { ArchiveMember } from '../types/index';
+import { groupInclusionRoots, traceInclusion } from '../utils/sectionUtils';
+import { demangle } from '../utils/demangle';
+import { Analytics } from '../hooks/useAnalytics';
+import { SymbolName } from './SymbolName';
+
+interface InclusionChainsProps {
+  archiveMembers?: ArchiveMember[] | null;
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes === 0) return '0 Bytes';
+  const k = 1024;
+  const sizes = ['Bytes', 'KB', 'MB', 'GB'];
+  const i = Math.floor(Math.log(bytes) / Math.log(k));
+  return Math.round((bytes / Math.pow(k, i)) * 100) / 100 + ' ' + sizes[i];
+}
+
+// Symbols undefined on the command line (-u) have no referencing file
+function referrer(includedBy: string | null): string {
+  return includedBy || '(command line)';
+}
+
+function matches(query: string, texts: (string | null)[]): boolean {
+  return texts.some(text => text?.toLowerCase().includes(query));
+}
+
+export function InclusionChains({ archiveMembers }: InclusionChainsProps) {
+  const [search, setSearch] = useState('');
+  const [view, setView] = useState<'references' | 'members'>('references');
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  const members = useMemo(() => archiveMembers || [], [archiveMembers]);
+  const roots = useMemo(() => groupInclusionRoots(members), [members]);
+  const sortedMembers = useMemo(() => [...members].sort((a, b) => b.size - a.size), [members]);
+  const total = members.reduce((sum, member) => sum + member.size, 0);
+
+  const query = search.trim().toLowerCase();
+  const rootRows = useMemo(() => query
+    ? roots.filter(root => matches(query, [root.includedBy, root.symbol, demangle(root.symbol)])
+        || root.members.some(member => matches(query, [member.filePath])))
+    : roots, [roots, query]);
+  const memberRows = useMemo(() => query
+    ? sortedMembers.filter(member => matches(query, [member.filePath, member.includedBy, member.symbol, demangle(member.symbol)]))
+    : sortedMembers, [sortedMembers, query]);
+
+  const exportToCSV = () => {
+    const headers = view === 'references'
+      ? ['Referenced By', 'Symbol', 'Members', 'Total Size (Bytes)']
+      : ['Member', 'Size (Bytes)', 'Included By', 'Symbol'];
+    const cells = view === 'references'
+      ? rootRows.map(root => [referrer(root.includedBy), root.symbol, root.members.length, root.size])
+      : memberRows.map(member => [member.filePath || '', member.size, referrer(member.includedBy), member.symbol]);
+    const csvContent = [
+      headers.join(','),
+      ...cells.map(row => row.map(cell => `"${String(cell).replace(/"/g, '""')}"`).join(','))
+    ].join('\n');
+
+    const blob = new Blob([csvContent], { type: 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `archive-inclusions-${view}-${new Date().toISOString().split('T')[0]}.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+
+    // Track CSV export
+    Analytics.trackExport('csv', 'archive-inclusions');
+  };
+
+  if (members.length === 0) {
+    return (
+      <Paper shadow="sm" p="md" withBorder>
+        <Title order={3} mb="sm">Why Linked</Title>
+        <Text size="sm" c="dimmed">
+          No archive members found. GNU ld lists each static library member it links, and the reference that pulled it in, under "Archive member included to satisfy reference by file (symbol)".
+        </Text>
+      </Paper>
+    );
+  }
+
+  return (
+    <Paper shadow="sm" p="md" withBorder>
+      <Stack gap="md">
+        <Group justify="space-between">
+          <Group gap="xs">
+            <Title order={3}>Why Linked</Title>
+            <Badge color="grape" variant="light">{members.length} archive members, {formatBytes(total)}</Badge>
+          </Group>
+          <Button
+            variant="light"
+            color="grape"
+            size="sm"
+            leftSection={<IconDownload size={16} />}
+            onClick={exportToCSV}
+          >
+            CSV
+          </Button>
+        </Group>
+
+        <Text size="sm" c="dimmed">
+          Static library members pulled in by the linker, traced back to the reference from outside the libraries that started the chain, e.g. one call to <Text span ff="monospace">printf</Text> linking the whole formatted-output code.
+        </Text>
+
+        <Group gap="xs">
+          <TextInput
+            placeholder="Search files or symbols..."
+            leftSection={<IconSearch size={16} />}
+            value={search}
+            onChange={(e) => setSearch(e.currentTarget.value)}
+            style={{ minWidth: 240 }}
+          />
+          <SegmentedControl
+            size="xs"
+            value={view}
+            onChange={(value) => {
+              setView(value as 'references' | 'members');
+              setExpanded(null);
+            }}
+            data={[
+              { label: `By Reference (${roots.length})`, value: 'references' },
+              { label: `By Member (${members.length})`, value: 'members' },
+            ]}
+          />
+        </Group>
+
+        <ScrollArea h={500}>
+          <Table striped highlightOnHover>
+            <Table.Thead>
+              {view === 'references' ? (
+                <Table.Tr>
+                  <Table.Th>Reference</Table.Th>
+                  <Table.Th>Members</Table.Th>
+                  <Table.Th>Pulled In</Table.Th>
+                  <Table.Th>Share</Table.Th>
+                </Table.Tr>
+              ) : (
+                <Table.Tr>
+                  <Table.Th>Member</Table.Th>
+                  <Table.Th>Size</Table.Th>
+                  <Table.Th>Included By</Table.Th>
+                </Table.Tr>
+              )}
+            </Table.Thead>
+            <Table.Tbody>
+              {view === 'references' && rootRows.map(root => {
+                const key = `${root.includedBy}-${root.symbol}`;
+                const isExpanded = expanded === key;
+                const share = total > 0 ? (root.size / total) * 100 : 0;
+                return [
+                  <Table.Tr key={key} onClick={() => setExpanded(isExpanded ? null : key)} style={{ cursor: 'pointer' }}>
+                    <Table.Td>
+                      <Group gap={6} wrap="nowrap">
+                        <ActionIcon size="xs" variant="subtle" color="gray">
+                          {isExpanded ? <IconChevronDown size={14} /> : <IconChevronRight size={14} />}
+                        </ActionIcon>
+                        <Stack gap={0}>
+                          <SymbolName name={root.symbol} highlight={search} />
+                          <Text size="xs" c="blue">{referrer(root.includedBy)}</Text>
+                        </Stack>
+                      </Group>
+                    </Table.Td>
+                    <Table.Td>
+                      <Badge size="sm" variant="light" color="grape">{root.members.length}</Badge>
+                    </Table.Td>
+                    <Table.Td>
+                      <Text size="sm" fw={500}>{formatBytes(root.size)}</Text>
+                    </Table.Td>
+                    <Table.Td style={{ minWidth: 140 }}>
+                      <Group gap="xs" wrap="nowrap">
+                        <Progress value={share} color="grape" size="sm" style={{ flex: 1 }} />
+                        <Text size="xs" c="dimmed">{share.toFixed(1)}%</Text>
+                      </Group>
+                    </Table.Td>
+                  </Table.Tr>,
+                  ...(isExpanded ? root.members.map(member => (
+                    <Table.Tr key={`${key}-${member.inputPath}`}>
+                      <Table.Td style={{ paddingLeft: 40 }}>
+                        <Text size="xs" ff="monospace">{member.filePath}</Text>
+                      </Table.Td>
+                      <Table.Td />
+                      <Table.Td>
+                        <Text size="xs" c="dimmed">{formatBytes(member.size)}</Text>
+                      </Table.Td>
+                      <Table.Td />
+                    </Table.Tr>
+                  )) : []),
+                ];
+              })}
+
+              {view === 'members' && memberRows.map(member => {
+                const key = member.inputPath || member.filePath || '';
+                const isExpanded = expanded === key;
+                return [
+                  <Table.Tr key={key} onClick={() => setExpanded(isExpanded ? null : key)} style={{ cursor: 'pointer' }}>
+                    <Table.Td>
+                      <Group gap={6} wrap="nowrap">
+                        <ActionIcon size="xs" variant="subtle" color="gray">
+                          {isExpanded ? <IconChevronDown size={14} /> : <IconChevronRight size={14} />}
+                        </ActionIcon>
+                        <Text size="sm" ff="monospace">{member.filePath}</Text>
+                      </Group>
+                    </Table.Td>
+                    <Table.Td>
+                      <Text size="sm" fw={500}>{formatBytes(member.size)}</Text>
+                    </Table.Td>
+                    <Table.Td>
+                      <Text size="sm" c="blue">{referrer(member.includedBy)}</Text>
+                    </Table.Td>
+                  </Table.Tr>,
+                  ...(isExpanded ? [
+                    <Table.Tr key={`${key}-chain`}>
+                      <Table.Td colSpan={3} style={{ paddingLeft: 40 }}>
+                        <Stack gap={4}>
+                          {traceInclusion(member, members).map(link => (
+                            <Group key={link.inputPath} gap={6} wrap="nowrap">
+                              <Text size="xs" ff="monospace">{link.filePath}</Text>
+                              <IconArrowLeft size={12} />
+                              <Text size="xs" c="blue">{referrer(link.includedBy)}</Text>
+                              <SymbolName name={link.symbol} size="xs" />
+                            </Group>
+                          ))}
+                        </Stack>
+                      </Table.Td>
+                    </Table.Tr>
+                  ] : []),
+                ];
+              })}
+            </Table.Tbody>
+          </Table>
+        </ScrollArea>
+      </Stack>
+    </Paper>
+  );
+}
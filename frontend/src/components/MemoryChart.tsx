@@ -17,6 +17,7 @@ import { IconDownload } from '@tabler/icons-react';
 import html2canvas from 'html2canvas';
 import type { AnalysisResult } from '../types/index';
 import { getSectionColor, PIE_CHART_COLORS } from '../utils/colorMapping';
+import { demangle } from '../utils/demangle';
 
 interface MemoryChartProps {
   result: AnalysisResult;
@@ -87,7 +88,10 @@ export function MemoryChart({ result, selectedSection, onSectionClick }: MemoryC
       return (
         <Paper p="sm" shadow="md" withBorder>
           <Stack gap="xs">
-            <Text size="sm" fw={600}>{data.name}</Text>
+            <Text size="sm" fw={600}>{demangle(data.name) || data.name}</Text>
+            {demangle(data.name) && (
+              <Text size="xs" c="dimmed" ff="monospace">{data.name}</Text>
+            )}
             {data.filePath && (
               <Text size="xs" c="blue">File: {data.filePath}</Text>
             )}
@@ -1,7 +1,9 @@
 import { useNavigate } from 'react-router-dom';
-import { Paper, Text, Group, Card, RingProgress, Grid, Stack, Button } from '@mantine/core';
+import { Paper, Text, Group, Card, RingProgress, Grid, Stack, Button, Badge } from '@mantine/core';
 import { IconCpu, IconDatabase, IconDownload } from '@tabler/icons-react';
 import type { AnalysisResult } from '../types/index';
+import { calculateRegionUsage } from '../utils/memoryRegions';
+import { getRegionColor } from '../utils/colorMapping';
 import { Analytics } from '../hooks/useAnalytics';
 
 interface MemorySummaryProps {
@@ -9,31 +11,6 @@ interface MemorySummaryProps {
   hideExportButton?: boolean;
 }
 
-function calculateMemoryUsage(result: AnalysisResult) {
-  const flashSections = ['.text', '.rodata', '.data', '.init_array', '.fini_array', '.ARM.exidx', '.ARM.extab', '.preinit_array', '.init', '.fini', '.eh_frame'];
-  const ramSections = ['.data', '.bss', '.stack', '.heap'];
-
-  const usedFlash = result.sections
-    .filter(s => flashSections.some(fs => s.name.startsWith(fs)))
-    .reduce((sum, s) => sum + s.size, 0);
-
-  const usedRAM = result.sections
-    .filter(s => ramSections.some(rs => s.name.startsWith(rs)))
-    .reduce((sum, s) => sum + s.size, 0);
-
-  const totalFlash = result.memory.FLASH?.lengthBytes || 0;
-  const totalRAM = result.memory.RAM?.lengthBytes || 0;
-
-  return {
-    totalFlash,
-    usedFlash,
-    totalRAM,
-    usedRAM,
-    flashUsagePercent: totalFlash > 0 ? (usedFlash / totalFlash) * 100 : 0,
-    ramUsagePercent: totalRAM > 0 ? (usedRAM / totalRAM) * 100 : 0,
-  };
-}
-
 function formatBytes(bytes: number): string {
   if (bytes === 0) return '0 Bytes';
   const k = 1024;
@@ -44,7 +21,7 @@ function formatBytes(bytes: number): string {
 
 export function MemorySummary({ result, hideExportButton = false }: MemorySummaryProps) {
   const navigate = useNavigate();
-  const summary = calculateMemoryUsage(result);
+  const regions = calculateRegionUsage(result);
 
   const exportToPDF = () => {
     // Track PDF export
@@ -96,42 +73,26 @@ export function MemorySummary({ result, hideExportButton = false }: MemorySummar
 
         <h2>Memory Summary</h2>
         <div class="summary">
-          <div class="card">
-            <div class="card-title">FLASH Memory</div>
-            <div class="usage-bar">
-              <div class="usage-fill" style="width: ${summary.flashUsagePercent}%">${summary.flashUsagePercent.toFixed(1)}%</div>
-            </div>
-            <div class="card-row">
-              <span class="card-label">Used:</span>
-              <span class="card-value">${formatBytes(summary.usedFlash)}</span>
-            </div>
-            <div class="card-row">
-              <span class="card-label">Total:</span>
-              <span class="card-value">${formatBytes(summary.totalFlash)}</span>
-            </div>
-            <div class="card-row">
-              <span class="card-label">Available:</span>
-              <span class="card-value" style="color: #27ae60;">${formatBytes(summary.totalFlash - summary.usedFlash)}</span>
-            </div>
-          </div>
-          <div class="card">
-            <div class="card-title">RAM</div>
-            <div class="usage-bar">
-              <div class="usage-fill" style="width: ${summary.ramUsagePercent}%">${summary.ramUsagePercent.toFixed(1)}%</div>
-            </div>
-            <div class="card-row">
-              <span class="card-label">Used:</span>
-              <span class="card-value">${formatBytes(summary.usedRAM)}</span>
-            </div>
-            <div class="card-row">
-              <span class="card-label">Total:</span>
-              <span class="card-value">${formatBytes(summary.totalRAM)}</span>
-            </div>
-            <div class="card-row">
-              <span class="card-label">Available:</span>
-              <span class="card-value" style="color: #27ae60;">${formatBytes(summary.totalRAM - summary.usedRAM)}</span>
+          ${regions.map(region => `
+            <div class="card">
+              <div class="card-title">${region.name}</div>
+              <div class="usage-bar">
+                <div class="usage-fill" style="width: ${Math.min(region.usagePercent, 100)}%">${region.usagePercent.toFixed(1)}%</div>
+              </div>
+              <div class="card-row">
+                <span class="card-label">Used:</span>
+                <span class="card-value">${formatBytes(region.usedBytes)}</span>
+              </div>
+              <div class="card-row">
+                <span class="card-label">Total:</span>
+                <span class="card-value">${formatBytes(region.totalBytes)}</span>
+              </div>
+              <div class="card-row">
+                <span class="card-label">Available:</span>
+                <span class="card-value" style="color: #27ae60;">${formatBytes(region.totalBytes - region.usedBytes)}</span>
+              </div>
             </div>
-          </div>
+          `).join('')}
         </div>
 
         <h2>All Sections (${result.sections.length})</h2>
@@ -175,7 +136,14 @@ export function MemorySummary({ result, hideExportButton = false }: MemorySummar
   return (
     <Paper shadow="sm" p="md" withBorder>
       <Group justify="space-between" mb="md">
-        <Text size="lg" fw={600}>Memory Summary</Text>
+        <Group gap="xs">
+          <Text size="lg" fw={600}>Memory Summary</Text>
+          {!!result.padding?.totalSize && (
+            <Badge variant="light" color="gray">
+              Padding/waste: {formatBytes(result.padding.totalSize)}
+            </Badge>
+          )}
+        </Group>
         {!hideExportButton && (
           <Button variant="filled" color="grape" leftSection={<IconDownload size={16} />} onClick={exportToPDF}>
             View Full Report (PDF)
@@ -184,87 +152,89 @@ export function MemorySummary({ result, hideExportButton = false }: MemorySummar
       </Group>
 
       <Grid>
-        <Grid.Col span={{ base: 12, md: 6 }}>
-          <Card shadow="sm" padding="lg" radius="md" withBorder>
-            <Group justify="space-between" mb="md">
-              <Stack gap={4}>
-                <Group gap="xs">
-                  <IconCpu size={20} />
-                  <Text fw={600}>Flash Memory</Text>
-                </Group>
-                <Text size="sm" c="dimmed">Program Storage</Text>
-              </Stack>
-              <RingProgress
-                size={80}
-                thickness={8}
-                sections={[{ value: summary.flashUsagePercent, color: 'blue' }]}
-                label={
-                  <Text size="xs" ta="center" fw={700}>
-                    {summary.flashUsagePercent.toFixed(1)}%
+        {regions.map(region => (
+          <Grid.Col key={region.name} span={{ base: 12, md: 6, lg: regions.length > 2 ? 4 : 6 }}>
+            <Card shadow="sm" padding="lg" radius="md" withBorder>
+              <Group justify="space-between" mb="md">
+                <Stack gap={4}>
+                  <Group gap="xs">
+                    {region.writable ? <IconDatabase size={20} /> : <IconCpu size={20} />}
+                    <Text fw={600}>{region.name}</Text>
+                  </Group>
+                  <Text size="sm" c="dimmed">
+                    {region.kind || (region.writable ? 'Runtime Memory' : 'Program Storage')} @ {region.origin}
                   </Text>
-                }
-              />
-            </Group>
-
-            <Stack gap="xs">
-              <Group justify="space-between">
-                <Text size="sm" c="dimmed">Used:</Text>
-                <Text size="sm" fw={500}>{formatBytes(summary.usedFlash)}</Text>
-              </Group>
-              <Group justify="space-between">
-                <Text size="sm" c="dimmed">Total:</Text>
-                <Text size="sm" fw={500}>{formatBytes(summary.totalFlash)}</Text>
+                </Stack>
+                <RingProgress
+                  size={80}
+                  thickness={8}
+                  sections={[{ value: Math.min(region.usagePercent, 100), color: getRegionColor(region.name) }]}
+                  label={
+                    <Text size="xs" ta="center" fw={700}>
+                      {region.usagePercent.toFixed(1)}%
+                    </Text>
+                  }
+                />
               </Group>
-              <Group justify="space-between">
-                <Text size="sm" c="dimmed">Available:</Text>
-                <Text size="sm" fw={500} c="green">
-                  {formatBytes(summary.totalFlash - summary.usedFlash)}
-                </Text>
-              </Group>
-            </Stack>
-          </Card>
-        </Grid.Col>
 
-        <Grid.Col span={{ base: 12, md: 6 }}>
-          <Card shadow="sm" padding="lg" radius="md" withBorder>
-            <Group justify="space-between" mb="md">
-              <Stack gap={4}>
-                <Group gap="xs">
-                  <IconDatabase size={20} />
-                  <Text fw={600}>RAM</Text>
+              <Stack gap="xs">
+                <Group justify="space-between">
+                  <Text size="sm" c="dimmed">Used:</Text>
+                  <Text size="sm" fw={500}>{formatBytes(region.usedBytes)}</Text>
                 </Group>
-                <Text size="sm" c="dimmed">Runtime Memory</Text>
-              </Stack>
-              <RingProgress
-                size={80}
-                thickness={8}
-                sections={[{ value: summary.ramUsagePercent, color: 'orange' }]}
-                label={
-                  <Text size="xs" ta="center" fw={700}>
-                    {summary.ramUsagePercent.toFixed(1)}%
+                {region.paddingBytes > 0 && (
+                  <Group justify="space-between">
+                    <Text size="sm" c="dimmed">Padding:</Text>
+                    <Text size="sm" fw={500} c="dimmed">{formatBytes(region.paddingBytes)}</Text>
+                  </Group>
+                )}
+                {region.heapBytes + region.stackBytes > 0 && (
+                  <>
+                    <Group justify="space-between">
+                      <Text size="sm" c="dimmed">Heap / stack:</Text>
+                      <Text size="sm" fw={500} c="dimmed">
+                        {formatBytes(region.heapBytes)} / {formatBytes(region.stackBytes)}
+                      </Text>
+                    </Group>
+                    <Group justify="space-between">
+                      <Text size="sm" c="dimmed">Static data:</Text>
+                      <Text size="sm" fw={500}>
+                        {formatBytes(Math.max(region.usedBytes - region.heapBytes - region.stackBytes, 0))}
+                      </Text>
+                    </Group>
+                  </>
+                )}
+                {region.commonBytes > 0 && (
+                  <Group justify="space-between">
+                    <Text size="sm" c="dimmed">Common symbols:</Text>
+                    <Text size="sm" fw={500} c="dimmed">{formatBytes(region.commonBytes)}</Text>
+                  </Group>
+                )}
+                {region.linkerUsedBytes !== undefined && (
+                  <Group justify="space-between">
+                    <Text size="sm" c="dimmed">Linker reports:</Text>
+                    <Group gap={6}>
+                      {region.linkerUsedBytes !== region.usedBytes && (
+                        <Badge size="xs" color="orange" variant="light">mismatch</Badge>
+                      )}
+                      <Text size="sm" fw={500}>{formatBytes(region.linkerUsedBytes)}</Text>
+                    </Group>
+                  </Group>
+                )}
+                <Group justify="space-between">
+                  <Text size="sm" c="dimmed">Total:</Text>
+                  <Text size="sm" fw={500}>{formatBytes(region.totalBytes)}</Text>
+                </Group>
+                <Group justify="space-between">
+                  <Text size="sm" c="dimmed">Available:</Text>
+                  <Text size="sm" fw={500} c={region.usedBytes > region.totalBytes ? 'red' : 'green'}>
+                    {formatBytes(Math.max(region.totalBytes - region.usedBytes, 0))}
                   </Text>
-                }
-              />
-            </Group>
-
-            <Stack gap="xs">
-              <Group justify="space-between">
-                <Text size="sm" c="dimmed">Used:</Text>
-                <Text size="sm" fw={500}>{formatBytes(summary.usedRAM)}</Text>
-              </Group>
-              <Group justify="space-between">
-                <Text size="sm" c="dimmed">Total:</Text>
-                <Text size="sm" fw={500}>{formatBytes(summary.totalRAM)}</Text>
-              </Group>
-              <Group justify="space-between">
-                <Text size="sm" c="dimmed">Available:</Text>
-                <Text size="sm" fw={500} c="green">
-                  {formatBytes(summary.totalRAM - summary.usedRAM)}
-                </Text>
-              </Group>
-            </Stack>
-          </Card>
-        </Grid.Col>
+                </Group>
+              </Stack>
+            </Card>
+          </Grid.Col>
+        ))}
       </Grid>
     </Paper>
   );
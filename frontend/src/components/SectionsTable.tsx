@@ -4,9 +4,12 @@ import { IconSearch, IconDownload, IconFilter, IconArrowUp } from '@tabler/icons
 import { useWindowScroll } from '@mantine/hooks';
 import Fuse from 'fuse.js';
 import type { Section } from '../types/index';
-import { aggregateSections } from '../utils/sectionUtils';
-import { getSectionColor } from '../utils/colorMapping';
+import { aggregateSections, groupSections } from '../utils/sectionUtils';
+import { getSectionColor, getRegionColor } from '../utils/colorMapping';
+import { getSectionRegion } from '../utils/memoryRegions';
+import { demangle } from '../utils/demangle';
 import { Analytics } from '../hooks/useAnalytics';
+import { SymbolName } from './SymbolName';
 
 interface SectionsTableProps {
   sections: Section[];
@@ -27,45 +30,53 @@ export function SectionsTable({ sections, selectedSection, onSectionClick, analy
   const [search, setSearch] = useState('');
   const [sortBy, setSortBy] = useState<'name' | 'size' | 'percentage' | 'file' | 'region'>('size');
   const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('desc');
-  const [viewMode, setViewMode] = useState<'detailed' | 'summary'>('detailed');
+  const [viewMode, setViewMode] = useState<'detailed' | 'summary' | 'object' | 'library'>('detailed');
   const [sectionTypeFilter, setSectionTypeFilter] = useState<string | null>(null);
   const [scroll] = useWindowScroll();
 
-  const displaySections = viewMode === 'detailed' ? sections : aggregateSections(sections);
-  const totalSize = sections.reduce((sum, section) => sum + section.size, 0);
-
-  const getRegion = (sectionName: string): string => {
-    const flashSections = ['.text', '.rodata', '.data', '.init_array', '.fini_array', '.ARM.exidx', '.ARM.extab'];
-    const ramSections = ['.bss', '.stack', '.heap'];
+  // Resolve memory regions by address before any aggregation drops the addresses
+  const memory = analysisResult?.memory || {};
+  const sectionsWithRegion = sections.map(section => ({
+    ...section,
+    region: getSectionRegion(section, memory),
+  }));
 
-    if (flashSections.some(fs => sectionName.startsWith(fs))) return 'FLASH';
-    if (ramSections.some(rs => sectionName.startsWith(rs))) return 'RAM';
-    if (sectionName.startsWith('.data')) return 'FLASH+RAM';
-    return 'Unknown';
-  };
+  // Object/library views group the sections of the selected type, so filter before grouping
+  const isGrouped = viewMode === 'object' || viewMode === 'library';
+  const displaySections = viewMode === 'detailed'
+    ? sectionsWithRegion
+    : viewMode === 'summary'
+      ? aggregateSections(sectionsWithRegion)
+      : groupSections(
+          sectionTypeFilter ? sections.filter(section => section.name.startsWith(sectionTypeFilter)) : sections,
+          viewMode
+        );
+  const totalSize = sections.reduce((sum, section) => sum + section.size, 0);
 
   const sectionsWithPercentage = displaySections.map(section => ({
     ...section,
     percentage: totalSize > 0 ? (section.size / totalSize * 100) : 0,
-    region: getRegion(section.name),
+    region: section.region || 'Unplaced',
+    // C++/Rust names are searchable in their readable form too
+    demangledName: demangle(section.name),
   }));
 
   // Extract unique section types (.text, .data, .bss, etc.)
   const sectionTypes = useMemo(() => {
     const types = new Set<string>();
-    displaySections.forEach(section => {
+    sections.forEach(section => {
       const parts = section.name.split('.');
       if (parts.length >= 2) {
         types.add(parts.slice(0, 2).join('.'));
       }
     });
     return Array.from(types).sort();
-  }, [displaySections]);
+  }, [sections]);
 
   // Fuzzy search using Fuse.js
   const fuse = useMemo(() => {
     return new Fuse(sectionsWithPercentage, {
-      keys: ['name', 'filePath'],
+      keys: ['name', 'demangledName', 'filePath', 'library', 'objectFile'],
       threshold: 0.3,
       includeScore: true,
     });
@@ -74,8 +85,8 @@ export function SectionsTable({ sections, selectedSection, onSectionClick, analy
   const filteredSections = useMemo(() => {
     let filtered = sectionsWithPercentage;
 
-    // Apply section type filter
-    if (sectionTypeFilter) {
+    // Apply section type filter (grouped views are already filtered)
+    if (sectionTypeFilter && !isGrouped) {
       filtered = filtered.filter(section => section.name.startsWith(sectionTypeFilter));
     }
 
@@ -104,7 +115,7 @@ export function SectionsTable({ sections, selectedSection, onSectionClick, analy
       }
       return multiplier * (a.size - b.size);
     });
-  }, [sectionsWithPercentage, sectionTypeFilter, search, fuse, sortBy, sortOrder]);
+  }, [sectionsWithPercentage, sectionTypeFilter, isGrouped, search, fuse, sortBy, sortOrder]);
 
   const handleSort = (column: 'name' | 'size' | 'percentage' | 'file' | 'region') => {
     if (sortBy === column) {
@@ -117,8 +128,10 @@ export function SectionsTable({ sections, selectedSection, onSectionClick, analy
 
   const exportToCSV = () => {
     const headers = viewMode === 'detailed'
-      ? ['Section Name', 'Region', 'Address', 'Size (Bytes)', 'Size', '% of Total', 'File']
-      : ['Section Name', 'Region', 'Size (Bytes)', 'Size', '% of Total', 'Subsections'];
+      ? ['Section Name', 'Region', 'Address', 'Load Region', 'Load Address', 'Size (Bytes)', 'Size', '% of Total', 'File', 'Library', 'Input Path']
+      : isGrouped
+        ? [viewMode === 'library' ? 'Library' : 'Object File', 'Size (Bytes)', 'Size', '% of Total', 'Sections']
+        : ['Section Name', 'Region', 'Size (Bytes)', 'Size', '% of Total', 'Subsections'];
 
     const rows = filteredSections.map(section =>
       viewMode === 'detailed'
@@ -126,10 +139,22 @@ export function SectionsTable({ sections, selectedSection, onSectionClick, analy
             section.name,
             section.region,
             section.address || '',
+            section.loadRegion || '',
+            section.loadAddress || '',
             section.size,
             formatBytes(section.size),
             section.percentage.toFixed(2) + '%',
-            section.filePath || ''
+            section.filePath || '',
+            section.library || '',
+            section.inputPath || ''
+          ]
+        : isGrouped
+        ? [
+            section.name,
+            section.size,
+            formatBytes(section.size),
+            section.percentage.toFixed(2) + '%',
+            section.subsections || 1
           ]
         : [
             section.name,
@@ -163,10 +188,15 @@ export function SectionsTable({ sections, selectedSection, onSectionClick, analy
       name: section.name,
       region: section.region,
       address: section.address,
+      loadRegion: section.loadRegion,
+      loadAddress: section.loadAddress,
       sizeBytes: section.size,
       sizeFormatted: formatBytes(section.size),
       percentage: parseFloat(section.percentage.toFixed(2)),
       filePath: section.filePath,
+      library: section.library,
+      objectFile: section.objectFile,
+      inputPath: section.inputPath,
       subsections: section.subsections
     }));
 
@@ -205,10 +235,12 @@ export function SectionsTable({ sections, selectedSection, onSectionClick, analy
           <Group gap="xs">
             <SegmentedControl
               value={viewMode}
-              onChange={(value) => setViewMode(value as 'detailed' | 'summary')}
+              onChange={(value) => setViewMode(value as 'detailed' | 'summary' | 'object' | 'library')}
               data={[
                 { label: 'Detailed View', value: 'detailed' },
-                { label: 'High-Level Summary', value: 'summary' }
+                { label: 'High-Level Summary', value: 'summary' },
+                { label: 'By Object', value: 'object' },
+                { label: 'By Library', value: 'library' }
               ]}
               color="grape"
             />
@@ -268,22 +300,25 @@ export function SectionsTable({ sections, selectedSection, onSectionClick, analy
           <Table striped highlightOnHover>
             <Table.Thead>
               <Table.Tr>
-                <Tooltip label="Click to sort by section name">
+                <Tooltip label="Click to sort by name">
                   <Table.Th
                     style={{ cursor: 'pointer', userSelect: 'none' }}
                     onClick={() => handleSort('name')}
                   >
-                    Section Name {sortBy === 'name' && (sortOrder === 'asc' ? '↑' : '↓')}
-                  </Table.Th>
-                </Tooltip>
-                <Tooltip label="Click to sort by region">
-                  <Table.Th
-                    style={{ cursor: 'pointer', userSelect: 'none' }}
-                    onClick={() => handleSort('region')}
-                  >
-                    Region {sortBy === 'region' && (sortOrder === 'asc' ? '↑' : '↓')}
+                    {viewMode === 'library' ? 'Library' : viewMode === 'object' ? 'Object File' : 'Section Name'}{' '}
+                    {sortBy === 'name' && (sortOrder === 'asc' ? '↑' : '↓')}
                   </Table.Th>
                 </Tooltip>
+                {!isGrouped && (
+                  <Tooltip label="Click to sort by region">
+                    <Table.Th
+                      style={{ cursor: 'pointer', userSelect: 'none' }}
+                      onClick={() => handleSort('region')}
+                    >
+                      Region {sortBy === 'region' && (sortOrder === 'asc' ? '↑' : '↓')}
+                    </Table.Th>
+                  </Tooltip>
+                )}
                 {viewMode === 'detailed' && (
                   <>
                     <Tooltip label="Memory address">
@@ -299,9 +334,9 @@ export function SectionsTable({ sections, selectedSection, onSectionClick, analy
                     </Tooltip>
                   </>
                 )}
-                {viewMode === 'summary' && (
-                  <Tooltip label="Number of subsections">
-                    <Table.Th>Subsections</Table.Th>
+                {viewMode !== 'detailed' && (
+                  <Tooltip label={isGrouped ? 'Number of sections' : 'Number of subsections'}>
+                    <Table.Th>{isGrouped ? 'Sections' : 'Subsections'}</Table.Th>
                   </Tooltip>
                 )}
                 <Tooltip label="Click to sort by size">
@@ -356,46 +391,47 @@ export function SectionsTable({ sections, selectedSection, onSectionClick, analy
                           color={sectionColor}
                           style={{ borderColor: sectionColor }}
                         />
-                        <Highlight
-                          highlight={search}
-                          size="sm"
-                          ff="monospace"
-                          fw={isSelected ? 600 : 400}
-                        >
-                          {section.name}
-                        </Highlight>
+                        <SymbolName name={section.name} highlight={search} fw={isSelected ? 600 : 400} />
                       </Group>
                     </Table.Td>
-                    <Table.Td>
-                      <Badge
-                        size="sm"
-                        color={
-                          section.region === 'FLASH' ? 'blue' :
-                          section.region === 'RAM' ? 'orange' :
-                          section.region === 'FLASH+RAM' ? 'grape' :
-                          'gray'
-                        }
-                      >
-                        {section.region}
-                      </Badge>
-                    </Table.Td>
+                    {!isGrouped && (
+                      <Table.Td>
+                        <Group gap={4} wrap="nowrap">
+                          <Badge
+                            size="sm"
+                            color={getRegionColor(section.region === 'Unplaced' ? null : section.region)}
+                          >
+                            {section.region}
+                          </Badge>
+                          {section.loadRegion && section.loadRegion !== section.region && (
+                            <Tooltip label={`Load image (LMA)${section.loadAddress ? ` at ${section.loadAddress}` : ''}, copied to ${section.region} at startup`}>
+                              <Badge size="sm" variant="outline" color={getRegionColor(section.loadRegion)}>
+                                ← {section.loadRegion}
+                              </Badge>
+                            </Tooltip>
+                          )}
+                        </Group>
+                      </Table.Td>
+                    )}
                     {viewMode === 'detailed' && (
                       <>
                         <Table.Td>
                           <Text size="sm" c="dimmed" ff="monospace">{section.address || '-'}</Text>
                         </Table.Td>
                         <Table.Td>
-                          <Highlight
-                            highlight={search}
-                            size="sm"
-                            c="blue"
-                          >
-                            {section.filePath || '-'}
-                          </Highlight>
+                          <Tooltip label={section.inputPath} disabled={!section.inputPath}>
+                            <Highlight
+                              highlight={search}
+                              size="sm"
+                              c="blue"
+                            >
+                              {section.filePath || '-'}
+                            </Highlight>
+                          </Tooltip>
                         </Table.Td>
                       </>
                     )}
-                    {viewMode === 'summary' && (
+                    {viewMode !== 'detailed' && (
                       <Table.Td>
                         <Badge size="sm" variant="light" color="gray">
                           {section.subsections || 1}
@@ -420,7 +456,8 @@ export function SectionsTable({ sections, selectedSection, onSectionClick, analy
 
         <Group justify="space-between">
           <Text size="sm" c="dimmed">
-            Showing {filteredSections.length} {viewMode === 'detailed' ? 'sections' : 'section groups'}
+            Showing {filteredSections.length}{' '}
+            {viewMode === 'detailed' ? 'sections' : viewMode === 'library' ? 'libraries' : viewMode === 'object' ? 'object files' : 'section groups'}
             {filteredSections.length !== displaySections.length && ` (filtered from ${displaySections.length})`}
           </Text>
           <Text size="sm" fw={600} c="grape">
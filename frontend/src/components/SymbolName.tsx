@@ -0,0 +1,27 @@
+import { Highlight, Stack } from '@mantine/core';
+import { demangle } from '../utils/demangle';
+
+interface SymbolNameProps {
+  name: string;
+  highlight?: string;
+  size?: 'xs' | 'sm';
+  fw?: number;
+}
+
+// A section or symbol name, demangled when it is a C++ or Rust name, with the raw name dimmed beneath
+export function SymbolName({ name, highlight = '', size = 'sm', fw }: SymbolNameProps) {
+  const demangled = demangle(name);
+
+  return (
+    <Stack gap={0}>
+      <Highlight highlight={highlight} size={size} ff="monospace" fw={fw}>
+        {demangled || name}
+      </Highlight>
+      {demangled && (
+        <Highlight highlight={highlight} size="xs" c="dimmed" ff="monospace">
+          {name}
+        </Highlight>
+      )}
+    </Stack>
+  );
+}
@@ -0,0 +1,210 @@
+import { useState, useMemo } from 'react';
+import { Paper, Text, Table, ScrollArea, TextInput, Group, Button, Title, Stack, Badge, Tooltip } from '@mantine/core';
+import { IconSearch, IconDownload } from '@tabler/icons-react';
+import Fuse from 'fuse.js';
+import type { SymbolEntry } from '../types/index';
+import { getSectionColor } from '../utils/colorMapping';
+import { demangle } from '../utils/demangle';
+import { Analytics } from '../hooks/useAnalytics';
+import { SymbolName } from './SymbolName';
+
+interface SymbolsTableProps {
+  symbols: SymbolEntry[];
+}
+
+// Rendering tens of thousands of rows freezes the page, so only the top rows are shown
+const MAX_ROWS = 1000;
+
+function formatBytes(bytes: number): string {
+  if (bytes === 0) return '0 Bytes';
+  const k = 1024;
+  const sizes = ['Bytes', 'KB', 'MB', 'GB'];
+  const i = Math.floor(Math.log(bytes) / Math.log(k));
+  return Math.round((bytes / Math.pow(k, i)) * 100) / 100 + ' ' + sizes[i];
+}
+
+export function SymbolsTable({ symbols }: SymbolsTableProps) {
+  const [search, setSearch] = useState('');
+  const [sortBy, setSortBy] = useState<'name' | 'size' | 'address' | 'section'>('size');
+  const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('desc');
+
+  // C++/Rust names are searchable in their readable form too
+  const searchableSymbols = useMemo(
+    () => symbols.map(symbol => ({ ...symbol, demangledName: demangle(symbol.name) })),
+    [symbols]
+  );
+
+  // Fuzzy search using Fuse.js
+  const fuse = useMemo(() => {
+    return new Fuse(searchableSymbols, {
+      keys: ['name', 'demangledName', 'section', 'filePath', 'library', 'sourcePath'],
+      threshold: 0.3,
+    });
+  }, [searchableSymbols]);
+
+  const filteredSymbols = useMemo(() => {
+    const filtered = search.trim() ? fuse.search(search).map(result => result.item) : [...searchableSymbols];
+
+    return filtered.sort((a, b) => {
+      const multiplier = sortOrder === 'asc' ? 1 : -1;
+      if (sortBy === 'name') {
+        return multiplier * a.name.localeCompare(b.name);
+      }
+      if (sortBy === 'section') {
+        return multiplier * a.section.localeCompare(b.section);
+      }
+      if (sortBy === 'address') {
+        return multiplier * (parseInt(a.address, 16) - parseInt(b.address, 16));
+      }
+      return multiplier * (a.size - b.size);
+    });
+  }, [searchableSymbols, search, fuse, sortBy, sortOrder]);
+
+  const handleSort = (column: 'name' | 'size' | 'address' | 'section') => {
+    if (sortBy === column) {
+      setSortOrder(sortOrder === 'asc' ? 'desc' : 'asc');
+    } else {
+      setSortBy(column);
+      setSortOrder('desc');
+    }
+  };
+
+  const exportToCSV = () => {
+    const headers = ['Symbol', 'Address', 'Size (Bytes)', 'Section', 'File'];
+    const rows = filteredSymbols.map(symbol => [
+      symbol.name,
+      symbol.address,
+      symbol.size,
+      symbol.section,
+      symbol.filePath || '',
+    ]);
+
+    const csvContent = [
+      headers.join(','),
+      ...rows.map(row => row.map(cell => `"${cell}"`).join(','))
+    ].join('\n');
+
+    const blob = new Blob([csvContent], { type: 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `memory-symbols-${new Date().toISOString().split('T')[0]}.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+
+    // Track CSV export
+    Analytics.trackExport('csv', 'symbols');
+  };
+
+  const sortIndicator = (column: typeof sortBy) => sortBy === column && (sortOrder === 'asc' ? '↑' : '↓');
+
+  return (
+    <Paper shadow="sm" p="md" withBorder>
+      <Stack gap="md">
+        <Group justify="space-between">
+          <Title order={3}>Symbols</Title>
+          <Button
+            variant="light"
+            color="grape"
+            size="sm"
+            leftSection={<IconDownload size={16} />}
+            onClick={exportToCSV}
+            disabled={symbols.length === 0}
+          >
+            CSV
+          </Button>
+        </Group>
+
+        {symbols.length === 0 ? (
+          <Text size="sm" c="dimmed">
+            No symbols found. Symbol lines are listed under each input section in GNU ld map files.
+          </Text>
+        ) : (
+          <>
+            <Group gap="xs">
+              <TextInput
+                placeholder="Fuzzy search symbols, sections or files..."
+                leftSection={<IconSearch size={16} />}
+                value={search}
+                onChange={(e) => setSearch(e.currentTarget.value)}
+                style={{ minWidth: 280 }}
+              />
+              {search && (
+                <Badge color="grape" variant="light">
+                  {filteredSymbols.length} matches
+                </Badge>
+              )}
+            </Group>
+
+            <ScrollArea h={500}>
+              <Table striped highlightOnHover>
+                <Table.Thead>
+                  <Table.Tr>
+                    <Tooltip label="Click to sort by symbol name">
+                      <Table.Th style={{ cursor: 'pointer', userSelect: 'none' }} onClick={() => handleSort('name')}>
+                        Symbol {sortIndicator('name')}
+                      </Table.Th>
+                    </Tooltip>
+                    <Tooltip label="Click to sort by address">
+                      <Table.Th style={{ cursor: 'pointer', userSelect: 'none' }} onClick={() => handleSort('address')}>
+                        Address {sortIndicator('address')}
+                      </Table.Th>
+                    </Tooltip>
+                    <Tooltip label="Click to sort by size">
+                      <Table.Th style={{ cursor: 'pointer', userSelect: 'none' }} onClick={() => handleSort('size')}>
+                        Size {sortIndicator('size')}
+                      </Table.Th>
+                    </Tooltip>
+                    <Tooltip label="Click to sort by section">
+                      <Table.Th style={{ cursor: 'pointer', userSelect: 'none' }} onClick={() => handleSort('section')}>
+                        Section {sortIndicator('section')}
+                      </Table.Th>
+                    </Tooltip>
+                    <Table.Th>File</Table.Th>
+                  </Table.Tr>
+                </Table.Thead>
+                <Table.Tbody>
+                  {filteredSymbols.slice(0, MAX_ROWS).map((symbol, index) => (
+                    <Table.Tr key={`${symbol.name}-${symbol.address}-${index}`}>
+                      <Table.Td>
+                        <SymbolName name={symbol.name} highlight={search} />
+                      </Table.Td>
+                      <Table.Td>
+                        <Text size="sm" c="dimmed" ff="monospace">{symbol.address}</Text>
+                      </Table.Td>
+                      <Table.Td>
+                        <Text size="sm" fw={500}>{formatBytes(symbol.size)}</Text>
+                      </Table.Td>
+                      <Table.Td>
+                        <Group gap="xs" wrap="nowrap">
+                          <Badge
+                            size="xs"
+                            variant="dot"
+                            color={getSectionColor(symbol.section)}
+                            style={{ borderColor: getSectionColor(symbol.section) }}
+                          />
+                          <Text size="sm" ff="monospace">{symbol.section}</Text>
+                        </Group>
+                      </Table.Td>
+                      <Table.Td>
+                        <Text size="sm" c="blue">{symbol.filePath || '-'}</Text>
+                        {symbol.sourcePath && (
+                          <Text size="xs" c="dimmed" ff="monospace">{symbol.sourcePath}</Text>
+                        )}
+                      </Table.Td>
+                    </Table.Tr>
+                  ))}
+                </Table.Tbody>
+              </Table>
+            </ScrollArea>
+
+            <Text size="sm" c="dimmed">
+              Showing {Math.min(filteredSymbols.length, MAX_ROWS)} of {filteredSymbols.length} symbols
+              {filteredSymbols.length > MAX_ROWS && ' (refine the search to see more)'}
+            </Text>
+          </>
+        )}
+      </Stack>
+    </Paper>
+  );
+}
@@ -0,0 +1,182 @@
+import { useState, useMemo } from 'react';
+import { Paper, Text, Table, ScrollArea, TextInput, Group, Button, Title, Stack, Badge, Progress, SegmentedControl, ActionIcon } from '@mantine/core';
+import { IconSearch, IconDownload, IconChevronDown, IconChevronRight } from '@tabler/icons-react';
+import type { Section, SymbolEntry } from '../types/index';
+import { groupTemplateFamilies } from '../utils/sectionUtils';
+import { Analytics } from '../hooks/useAnalytics';
+import { SymbolName } from './SymbolName';
+
+interface TemplateFamiliesProps {
+  sections: Section[];
+  symbols: SymbolEntry[];
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes === 0) return '0 Bytes';
+  const k = 1024;
+  const sizes = ['Bytes', 'KB', 'MB', 'GB'];
+  const i = Math.floor(Math.log(bytes) / Math.log(k));
+  return Math.round((bytes / Math.pow(k, i)) * 100) / 100 + ' ' + sizes[i];
+}
+
+export function TemplateFamilies({ sections, symbols }: TemplateFamiliesProps) {
+  const [search, setSearch] = useState('');
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  const sectionFamilies = useMemo(() => groupTemplateFamilies(sections), [sections]);
+  const symbolFamilies = useMemo(() => groupTemplateFamilies(symbols), [symbols]);
+
+  // Sections (one per function with -ffunction-sections) by default; symbols when the map lists them instead
+  const [source, setSource] = useState<'sections' | 'symbols'>(
+    sectionFamilies.length === 0 && symbolFamilies.length > 0 ? 'symbols' : 'sections'
+  );
+  const families = source === 'sections' ? sectionFamilies : symbolFamilies;
+  const total = (source === 'sections' ? sections : symbols).reduce((sum, item) => sum + item.size, 0);
+
+  const rows = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    return query
+      ? families.filter(family => family.family.toLowerCase().includes(query))
+      : families;
+  }, [families, search]);
+
+  const exportToCSV = () => {
+    const headers = ['Family', 'Copies', 'Total Size (Bytes)', 'Largest Copy (Bytes)'];
+    const csvContent = [
+      headers.join(','),
+      ...rows.map(row => [row.family.replace(/"/g, '""'), row.copies, row.size, row.instances[0].size]
+        .map(cell => `"${cell}"`).join(','))
+    ].join('\n');
+
+    const blob = new Blob([csvContent], { type: 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `template-families-${new Date().toISOString().split('T')[0]}.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+
+    // Track CSV export
+    Analytics.trackExport('csv', 'template-families');
+  };
+
+  if (sectionFamilies.length === 0 && symbolFamilies.length === 0) {
+    return (
+      <Paper shadow="sm" p="md" withBorder>
+        <Title order={3} mb="sm">Template Families</Title>
+        <Text size="sm" c="dimmed">
+          No C++ template or Rust generic instantiated more than once. Build with -ffunction-sections, or include symbols in the map, to see one row per instantiation.
+        </Text>
+      </Paper>
+    );
+  }
+
+  const copies = families.reduce((sum, family) => sum + family.copies, 0);
+
+  return (
+    <Paper shadow="sm" p="md" withBorder>
+      <Stack gap="md">
+        <Group justify="space-between">
+          <Group gap="xs">
+            <Title order={3}>Template Families</Title>
+            <Badge color="grape" variant="light">{families.length} families, {copies} copies</Badge>
+          </Group>
+          <Button
+            variant="light"
+            color="grape"
+            size="sm"
+            leftSection={<IconDownload size={16} />}
+            onClick={exportToCSV}
+          >
+            CSV
+          </Button>
+        </Group>
+
+        <Text size="sm" c="dimmed">
+          C++ template instantiations and Rust monomorphizations grouped by the template or generic they come from, e.g. every <Text span ff="monospace">std::vector&lt;…&gt;::push_back</Text>.
+        </Text>
+
+        <Group gap="xs">
+          <TextInput
+            placeholder="Search families..."
+            leftSection={<IconSearch size={16} />}
+            value={search}
+            onChange={(e) => setSearch(e.currentTarget.value)}
+            style={{ minWidth: 240 }}
+          />
+          <SegmentedControl
+            size="xs"
+            value={source}
+            onChange={(value) => {
+              setSource(value as 'sections' | 'symbols');
+              setExpanded(null);
+            }}
+            data={[
+              { label: `Sections (${sectionFamilies.length})`, value: 'sections' },
+              { label: `Symbols (${symbolFamilies.length})`, value: 'symbols' },
+            ]}
+          />
+        </Group>
+
+        <ScrollArea h={500}>
+          <Table striped highlightOnHover>
+            <Table.Thead>
+              <Table.Tr>
+                <Table.Th>Family</Table.Th>
+                <Table.Th>Copies</Table.Th>
+                <Table.Th>Total Size</Table.Th>
+                <Table.Th>Share</Table.Th>
+              </Table.Tr>
+            </Table.Thead>
+            <Table.Tbody>
+              {rows.map(row => {
+                const share = total > 0 ? (row.size / total) * 100 : 0;
+                const isExpanded = expanded === row.family;
+                return [
+                  <Table.Tr
+                    key={row.family}
+                    onClick={() => setExpanded(isExpanded ? null : row.family)}
+                    style={{ cursor: 'pointer' }}
+                  >
+                    <Table.Td>
+                      <Group gap={6} wrap="nowrap">
+                        <ActionIcon size="xs" variant="subtle" color="gray">
+                          {isExpanded ? <IconChevronDown size={14} /> : <IconChevronRight size={14} />}
+                        </ActionIcon>
+                        <Text size="sm" ff="monospace">{row.family}</Text>
+                      </Group>
+                    </Table.Td>
+                    <Table.Td>
+                      <Badge size="sm" variant="light" color={row.copies >= 10 ? 'red' : 'grape'}>{row.copies}</Badge>
+                    </Table.Td>
+                    <Table.Td>
+                      <Text size="sm" fw={500}>{formatBytes(row.size)}</Text>
+                    </Table.Td>
+                    <Table.Td style={{ minWidth: 140 }}>
+                      <Group gap="xs" wrap="nowrap">
+                        <Progress value={share} color="grape" size="sm" style={{ flex: 1 }} />
+                        <Text size="xs" c="dimmed">{share.toFixed(1)}%</Text>
+                      </Group>
+                    </Table.Td>
+                  </Table.Tr>,
+                  ...(isExpanded ? row.instances.map((instance, index) => (
+                    <Table.Tr key={`${row.family}-${index}`}>
+                      <Table.Td style={{ paddingLeft: 40 }}>
+                        <SymbolName name={instance.name} size="xs" />
+                      </Table.Td>
+                      <Table.Td />
+                      <Table.Td>
+                        <Text size="xs" c="dimmed">{formatBytes(instance.size)}</Text>
+                      </Table.Td>
+                      <Table.Td />
+                    </Table.Tr>
+                  )) : []),
+                ];
+              })}
+            </Table.Tbody>
+          </Table>
+        </ScrollArea>
+      </Stack>
+    </Paper>
+  );
+}
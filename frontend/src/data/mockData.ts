@@ -1,8 +1,24 @@
-import type { AnalysisResult } from '../types/index';
+import type { AnalysisResult, SymbolEntry } from '../types/index';
+
+// One symbol per function/variable section (e.g. .text.HAL_Init → HAL_Init)
+function withMockSymbols(result: AnalysisResult): AnalysisResult {
+  const symbols: SymbolEntry[] = [];
+
+  result.sections.forEach(section => {
+    const match = section.name.match(/^\.(?:text|data|bss)\.([A-Za-z_]\w*)$/);
+    if (match && section.address) {
+      const symbol = { name: match[1], address: section.address, size: section.size };
+      section.symbols = [symbol];
+      symbols.push({ ...symbol, section: section.name, filePath: section.filePath, library: section.library });
+    }
+  });
+
+  return { ...result, symbols: symbols.sort((a, b) => b.size - a.size) };
+}
 
 // Realistic mock data representing a typical STM32 firmware project
 function generateRealisticMockData(): AnalysisResult {
-  return {
+  return withMockSymbols({
     memory: {
       FLASH: {
         origin: '0x08000000',
@@ -18,27 +34,27 @@ function generateRealisticMockData(): AnalysisResult {
     sections: [
       // TEXT sections (code in FLASH)
       { name: '.text', address: '0x08000200', size: 124856, filePath: 'main.o' },
-      { name: '.text.HAL_Init', address: '0x0801e7a8', size: 48320, filePath: 'stm32f4xx_hal.o' },
+      { name: '.text.HAL_Init', address: '0x0801e7a8', size: 48320, filePath: 'libstm32f4xx_hal.a(stm32f4xx_hal.o)', library: 'libstm32f4xx_hal.a', objectFile: 'stm32f4xx_hal.o' },
       { name: '.text.SystemClock_Config', address: '0x0802a548', size: 32768, filePath: 'system_stm32f4xx.o' },
       { name: '.text.MX_GPIO_Init', address: '0x08032548', size: 18432, filePath: 'gpio.o' },
       { name: '.text.MX_USART2_UART_Init', address: '0x08036d48', size: 12288, filePath: 'usart.o' },
-      { name: '.text.HAL_UART_Transmit', address: '0x08039d48', size: 8192, filePath: 'stm32f4xx_hal_uart.o' },
-      { name: '.text.HAL_GPIO_WritePin', address: '0x0803bd48', size: 6144, filePath: 'stm32f4xx_hal_gpio.o' },
-      { name: '.text.HAL_Delay', address: '0x0803d548', size: 4096, filePath: 'stm32f4xx_hal.o' },
+      { name: '.text.HAL_UART_Transmit', address: '0x08039d48', size: 8192, filePath: 'libstm32f4xx_hal.a(stm32f4xx_hal_uart.o)', library: 'libstm32f4xx_hal.a', objectFile: 'stm32f4xx_hal_uart.o' },
+      { name: '.text.HAL_GPIO_WritePin', address: '0x0803bd48', size: 6144, filePath: 'libstm32f4xx_hal.a(stm32f4xx_hal_gpio.o)', library: 'libstm32f4xx_hal.a', objectFile: 'stm32f4xx_hal_gpio.o' },
+      { name: '.text.HAL_Delay', address: '0x0803d548', size: 4096, filePath: 'libstm32f4xx_hal.a(stm32f4xx_hal.o)', library: 'libstm32f4xx_hal.a', objectFile: 'stm32f4xx_hal.o' },
       { name: '.text.Error_Handler', address: '0x0803e548', size: 2048, filePath: 'main.o' },
       { name: '.text.SysTick_Handler', address: '0x0803ed48', size: 1536, filePath: 'stm32f4xx_it.o' },
       { name: '.text.startup', address: '0x0803f348', size: 1024, filePath: 'startup_stm32f407xx.o' },
 
       // RODATA sections (constants in FLASH)
       { name: '.rodata', address: '0x0803f748', size: 24576, filePath: 'main.o' },
-      { name: '.rodata.str1.1', address: '0x08045748', size: 16384, filePath: 'printf.o' },
+      { name: '.rodata.str1.1', address: '0x08045748', size: 16384, filePath: 'libc_nano.a(printf.o)', library: 'libc_nano.a', objectFile: 'printf.o' },
       { name: '.rodata.const_table', address: '0x08049748', size: 8192, filePath: 'config.o' },
       { name: '.rodata.version_string', address: '0x0804b748', size: 512, filePath: 'version.o' },
 
       // DATA sections (initialized data in RAM, stored in FLASH)
-      { name: '.data', address: '0x20000000', size: 4096, filePath: 'main.o' },
-      { name: '.data.SystemCoreClock', address: '0x20001000', size: 2048, filePath: 'system_stm32f4xx.o' },
-      { name: '.data.uwTick', address: '0x20001800', size: 1024, filePath: 'stm32f4xx_hal.o' },
+      { name: '.data', address: '0x20000000', size: 4096, filePath: 'main.o', loadAddress: '0x0804c0c8', loadRegion: 'FLASH' },
+      { name: '.data.SystemCoreClock', address: '0x20001000', size: 2048, filePath: 'system_stm32f4xx.o', loadAddress: '0x0804d0c8', loadRegion: 'FLASH' },
+      { name: '.data.uwTick', address: '0x20001800', size: 1024, filePath: 'libstm32f4xx_hal.a(stm32f4xx_hal.o)', library: 'libstm32f4xx_hal.a', objectFile: 'stm32f4xx_hal.o', loadAddress: '0x0804d8c8', loadRegion: 'FLASH' },
 
       // BSS sections (uninitialized data in RAM)
       { name: '.bss', address: '0x20001c00', size: 32768, filePath: 'main.o' },
@@ -55,7 +71,30 @@ function generateRealisticMockData(): AnalysisResult {
       { name: '.ARM.extab', address: '0x0804bec8', size: 512, filePath: null },
       { name: '.ARM.attributes', address: '0x00000000', size: 56, filePath: null },
     ],
-  };
+    discarded: {
+      totalSize: 9472,
+      sectionCount: 5,
+      sections: [
+        { name: '.text.HAL_UART_Abort', size: 3584, filePath: 'libstm32f4xx_hal.a(stm32f4xx_hal_uart.o)', library: 'libstm32f4xx_hal.a', objectFile: 'stm32f4xx_hal_uart.o' },
+        { name: '.text.HAL_RCC_DeInit', size: 2304, filePath: 'libstm32f4xx_hal.a(stm32f4xx_hal_rcc.o)', library: 'libstm32f4xx_hal.a', objectFile: 'stm32f4xx_hal_rcc.o' },
+        { name: '.text.HAL_GPIO_DeInit', size: 1792, filePath: 'libstm32f4xx_hal.a(stm32f4xx_hal_gpio.o)', library: 'libstm32f4xx_hal.a', objectFile: 'stm32f4xx_hal_gpio.o' },
+        { name: '.text._vfprintf_r', size: 1536, filePath: 'libc_nano.a(nano-vfprintf.o)', library: 'libc_nano.a', objectFile: 'nano-vfprintf.o' },
+        { name: '.text.MX_USART2_DeInit', size: 256, filePath: 'usart.o', library: null, objectFile: 'usart.o' },
+      ],
+      objects: [
+        { name: 'libstm32f4xx_hal.a(stm32f4xx_hal_uart.o)', size: 3584, sectionCount: 1 },
+        { name: 'libstm32f4xx_hal.a(stm32f4xx_hal_rcc.o)', size: 2304, sectionCount: 1 },
+        { name: 'libstm32f4xx_hal.a(stm32f4xx_hal_gpio.o)', size: 1792, sectionCount: 1 },
+        { name: 'libc_nano.a(nano-vfprintf.o)', size: 1536, sectionCount: 1 },
+        { name: 'usart.o', size: 256, sectionCount: 1 },
+      ],
+      libraries: [
+        { name: 'libstm32f4xx_hal.a', size: 7680, sectionCount: 3 },
+        { name: 'libc_nano.a', size: 1536, sectionCount: 1 },
+        { name: '(no library)', size: 256, sectionCount: 1 },
+      ],
+    },
+  });
 }
 
 // Small dataset for quick testing
@@ -80,8 +119,8 @@ export const mockAnalysisResultSmall: AnalysisResult = {
     { name: '.text.hal', address: '0x08073000', size: 12288, filePath: 'hal.o' },
     { name: '.rodata.const', address: '0x08076000', size: 81920, filePath: 'main.o' },
     { name: '.rodata.strings', address: '0x0808a000', size: 40960, filePath: 'driver.o' },
-    { name: '.data.initialized', address: '0x20000000', size: 6144, filePath: 'main.o' },
-    { name: '.data.config', address: '0x20001800', size: 2048, filePath: 'driver.o' },
+    { name: '.data.initialized', address: '0x20000000', size: 6144, filePath: 'main.o', loadAddress: '0x080a0f00', loadRegion: 'FLASH' },
+    { name: '.data.config', address: '0x20001800', size: 2048, filePath: 'driver.o', loadAddress: '0x080a2700', loadRegion: 'FLASH' },
     { name: '.bss.buffer', address: '0x20002000', size: 49152, filePath: 'driver.o' },
     { name: '.bss.heap', address: '0x2000e000', size: 16384, filePath: null },
     { name: '.init_array', address: '0x080a0000', size: 512, filePath: null },
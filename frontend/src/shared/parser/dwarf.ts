@@ -0,0 +1,508 @@
+// DWARF compilation unit reader.
+// Finds the source file each address range was compiled from (DW_TAG_compile_unit name and comp_dir),
+// using the unit's code ranges and the addresses of its global and static variables
+import { collectSymbols } from './mapUtils';
+import { normalize } from '../utils/posixPath';
+import type { ParsedAnalysis } from '../types';
+
+const DW_TAG_compile_unit = 0x11;
+const DW_TAG_variable = 0x34;
+
+const DW_AT_location = 0x02;
+const DW_AT_name = 0x03;
+const DW_AT_low_pc = 0x11;
+const DW_AT_high_pc = 0x12;
+const DW_AT_comp_dir = 0x1b;
+const DW_AT_ranges = 0x55;
+const DW_AT_str_offsets_base = 0x72;
+const DW_AT_addr_base = 0x73;
+const DW_AT_rnglists_base = 0x74;
+
+const DW_UT_skeleton = 0x04;
+const DW_UT_split_compile = 0x05;
+const DW_UT_type = 0x02;
+const DW_UT_split_type = 0x06;
+
+const DW_OP_addr = 0x03;
+
+// Forms whose value is a constant; DW_AT_high_pc in one of these is an offset from DW_AT_low_pc
+const CONSTANT_FORMS = new Set([0x05, 0x06, 0x07, 0x0b, 0x0d, 0x0f, 0x21]);
+
+export type DebugSections = Record<string, Uint8Array>;
+
+export type AddressSpan = {
+  start: number;
+  end: number;
+}
+
+export type CompilationUnit = {
+  sourcePath: string;
+  ranges: AddressSpan[];
+}
+
+// Strings and addresses referenced through an index (strx, addrx, rnglistx) are read as { index }
+type FormValue = number | boolean | string | null | undefined | Uint8Array | { index: number };
+
+type Debug = {
+  sections: DebugSections;
+  littleEndian: boolean;
+}
+
+type Unit = {
+  version: number;
+  addressSize: number;
+  offsetSize: number;
+  ranges: AddressSpan[];
+  sourcePath?: string;
+  lowPc?: FormValue;
+  strOffsetsBase?: FormValue;
+  addrBase?: FormValue;
+  rnglistsBase?: FormValue;
+}
+
+type AttributeSpec = {
+  name: number;
+  form: number;
+  implicitConst?: number;
+}
+
+type Abbreviation = {
+  tag: number;
+  hasChildren: boolean;
+  specs: AttributeSpec[];
+}
+
+type Attribute = {
+  form: number;
+  value: FormValue;
+}
+
+const utf8 = new TextDecoder('utf-8', { ignoreBOM: true });
+
+// Decode bytes [start, end) as Buffer.toString does: empty when end is before start
+function decodeUtf8(bytes: Uint8Array, start: number, end: number): string {
+  return end > start ? utf8.decode(bytes.subarray(start, end)) : '';
+}
+
+// Cursor over a debug section, with readers that advance it
+function createCursor(bytes: Uint8Array, littleEndian: boolean) {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const cursor = {
+    bytes,
+    pos: 0,
+    u8: (): number => bytes[cursor.pos++],
+    u16: (): number => {
+      const value = view.getUint16(cursor.pos, littleEndian);
+      cursor.pos += 2;
+      return value;
+    },
+    u24: (): number => {
+      const b = [cursor.u8(), cursor.u8(), cursor.u8()];
+      return littleEndian ? b[0] | (b[1] << 8) | (b[2] << 16) : (b[0] << 16) | (b[1] << 8) | b[2];
+    },
+    u32: (): number => {
+      const value = view.getUint32(cursor.pos, littleEndian);
+      cursor.pos += 4;
+      return value;
+    },
+    u64: (): number => {
+      const value = view.getBigUint64(cursor.pos, littleEndian);
+      cursor.pos += 8;
+      return Number(value);
+    },
+    uint: (size: number): number => (size === 8 ? cursor.u64() : size === 4 ? cursor.u32() : size === 2 ? cursor.u16() : cursor.u8()),
+    uleb: (): number => {
+      let result = 0;
+      let shift = 0;
+      let byte;
+      do {
+        byte = bytes[cursor.pos++];
+        result += (byte & 0x7f) * 2 ** shift;
+        shift += 7;
+      } while (byte & 0x80);
+      return result;
+    },
+    sleb: (): number => {
+      let result = 0;
+      let shift = 0;
+      let byte;
+      do {
+        byte = bytes[cursor.pos++];
+        result += (byte & 0x7f) * 2 ** shift;
+        shift += 7;
+      } while (byte & 0x80);
+      return byte & 0x40 ? result - 2 ** shift : result;
+    },
+    cstring: (): string => {
+      const end = bytes.indexOf(0, cursor.pos);
+      const value = decodeUtf8(bytes, cursor.pos, end);
+      cursor.pos = end + 1;
+      return value;
+    },
+  };
+  return cursor;
+}
+
+type Cursor = ReturnType<typeof createCursor>;
+
+function isIndex(value: FormValue): value is { index: number } {
+  return !!value && typeof value === 'object' && !(value instanceof Uint8Array);
+}
+
+// Read the abbreviation table of a unit, by abbreviation code
+function readAbbreviations(debug: Debug, offset: number): Map<number, Abbreviation> {
+  const cursor = createCursor(debug.sections['.debug_abbrev'], debug.littleEndian);
+  cursor.pos = offset;
+  const abbreviations = new Map<number, Abbreviation>();
+
+  for (let code = cursor.uleb(); code !== 0; code = cursor.uleb()) {
+    const tag = cursor.uleb();
+    const hasChildren = cursor.u8() === 1;
+    const specs: AttributeSpec[] = [];
+    for (let name = cursor.uleb(), form = cursor.uleb(); name !== 0 || form !== 0; name = cursor.uleb(), form = cursor.uleb()) {
+      specs.push({ name, form, implicitConst: form === 0x21 ? cursor.sleb() : undefined });
+    }
+    abbreviations.set(code, { tag, hasChildren, specs });
+  }
+
+  return abbreviations;
+}
+
+// Read one attribute value. Strings and addresses referenced through an index (strx, addrx) are
+// returned as { index } and resolved once the unit's bases are known
+function readForm(cursor: Cursor, form: number, unit: Unit, debug: Debug, implicitConst?: number): FormValue {
+  const offset = () => cursor.uint(unit.offsetSize);
+  const block = (length: number) => {
+    const value = cursor.bytes.subarray(cursor.pos, cursor.pos + length);
+    cursor.pos += length;
+    return value;
+  };
+  const string = (sectionName: string, at: number) => {
+    const section = debug.sections[sectionName];
+    if (!section) return null;
+    const end = section.indexOf(0, at);
+    return decodeUtf8(section, at, end < 0 ? section.length : end);
+  };
+
+  switch (form) {
+    case 0x01: return cursor.uint(unit.addressSize); // addr
+    case 0x03: return block(cursor.u16()); // block2
+    case 0x04: return block(cursor.u32()); // block4
+    case 0x05: return cursor.u16(); // data2
+    case 0x06: return cursor.u32(); // data4
+    case 0x07: return cursor.u64(); // data8
+    case 0x08: return cursor.cstring(); // string
+    case 0x09: return block(cursor.uleb()); // block
+    case 0x0a: return block(cursor.u8()); // block1
+    case 0x0b: return cursor.u8(); // data1
+    case 0x0c: return cursor.u8(); // flag
+    case 0x0d: return cursor.sleb(); // sdata
+    case 0x0e: return string('.debug_str', offset()); // strp
+    case 0x0f: return cursor.uleb(); // udata
+    case 0x10: return unit.version <= 2 ? cursor.uint(unit.addressSize) : offset(); // ref_addr
+    case 0x11: return cursor.u8(); // ref1
+    case 0x12: return cursor.u16(); // ref2
+    case 0x13: return cursor.u32(); // ref4
+    case 0x14: return cursor.u64(); // ref8
+    case 0x15: return cursor.uleb(); // ref_udata
+    case 0x16: return readForm(cursor, cursor.uleb(), unit, debug); // indirect
+    case 0x17: return offset(); // sec_offset
+    case 0x18: return block(cursor.uleb()); // exprloc
+    case 0x19: return true; // flag_present
+    case 0x1a: return { index: cursor.uleb() }; // strx
+    case 0x1b: return { index: cursor.uleb() }; // addrx
+    case 0x1c: return cursor.u32(); // ref_sup4
+    case 0x1d: return offset(); // strp_sup
+    case 0x1e: return block(16); // data16
+    case 0x1f: return string('.debug_line_str', offset()); // line_strp
+    case 0x20: return block(8); // ref_sig8
+    case 0x21: return implicitConst; // implicit_const
+    case 0x22: return cursor.uleb(); // loclistx
+    case 0x23: return { index: cursor.uleb() }; // rnglistx
+    case 0x24: return cursor.u64(); // ref_sup8
+    case 0x25: return { index: cursor.u8() }; // strx1
+    case 0x26: return { index: cursor.u16() }; // strx2
+    case 0x27: return { index: cursor.u24() }; // strx3
+    case 0x28: return { index: cursor.u32() }; // strx4
+    case 0x29: return { index: cursor.u8() }; // addrx1
+    case 0x2a: return { index: cursor.u16() }; // addrx2
+    case 0x2b: return { index: cursor.u24() }; // addrx3
+    case 0x2c: return { index: cursor.u32() }; // addrx4
+    case 0x1f01: return { index: cursor.uleb() }; // GNU_addr_index
+    case 0x1f02: return { index: cursor.uleb() }; // GNU_str_index
+    case 0x1f20: return offset(); // GNU_ref_alt
+    case 0x1f21: return offset(); // GNU_strp_alt
+    default:
+      throw new Error(`Unsupported DWARF form 0x${form.toString(16)}`);
+  }
+}
+
+// Read the address ranges of a unit's DW_AT_ranges, from .debug_ranges (DWARF 2-4) or .debug_rnglists (DWARF 5).
+// The value is a section offset, or { index } for DW_FORM_rnglistx
+function readRanges(debug: Debug, unit: Unit, value: FormValue): AddressSpan[] {
+  const ranges: AddressSpan[] = [];
+  const base = typeof unit.lowPc === 'number' ? unit.lowPc : 0;
+
+  if (unit.version < 5) {
+    const section = debug.sections['.debug_ranges'];
+    if (!section) return ranges;
+    const cursor = createCursor(section, debug.littleEndian);
+    const maxAddress = 2 ** (unit.addressSize * 8) - 1;
+    let currentBase = base;
+    cursor.pos = value as number;
+    while (cursor.pos + unit.addressSize * 2 <= section.length) {
+      const start = cursor.uint(unit.addressSize);
+      const end = cursor.uint(unit.addressSize);
+      if (start === 0 && end === 0) break;
+      if (start === maxAddress) {
+        currentBase = end;
+      } else {
+        ranges.push({ start: currentBase + start, end: currentBase + end });
+      }
+    }
+    return ranges;
+  }
+
+  const section = debug.sections['.debug_rnglists'];
+  if (!section) return ranges;
+  const cursor = createCursor(section, debug.littleEndian);
+  const rnglistsBase = unit.rnglistsBase as number;
+  if (isIndex(value)) {
+    // DW_FORM_rnglistx: index into the offsets table following DW_AT_rnglists_base
+    cursor.pos = rnglistsBase + value.index * unit.offsetSize;
+    cursor.pos = rnglistsBase + cursor.uint(unit.offsetSize);
+  } else {
+    cursor.pos = value as number;
+  }
+
+  // Addresses of .debug_addr are numbers once the unit has DW_AT_addr_base
+  const address = (index: number) => readAddressIndex(debug, unit, index) as number;
+
+  let currentBase = base;
+  for (let kind = cursor.u8(); kind !== 0 && kind !== undefined; kind = cursor.u8()) {
+    switch (kind) {
+      case 1: currentBase = address(cursor.uleb()); break; // base_addressx
+      case 2: { // startx_endx
+        const start = address(cursor.uleb());
+        ranges.push({ start, end: address(cursor.uleb()) });
+        break;
+      }
+      case 3: { // startx_length
+        const start = address(cursor.uleb());
+        ranges.push({ start, end: start + cursor.uleb() });
+        break;
+      }
+      case 4: { // offset_pair
+        const start = currentBase + cursor.uleb();
+        ranges.push({ start, end: currentBase + cursor.uleb() });
+        break;
+      }
+      case 5: currentBase = cursor.uint(unit.addressSize); break; // base_address
+      case 6: { // start_end
+        const start = cursor.uint(unit.addressSize);
+        ranges.push({ start, end: cursor.uint(unit.addressSize) });
+        break;
+      }
+      case 7: { // start_length
+        const start = cursor.uint(unit.addressSize);
+        ranges.push({ start, end: start + cursor.uleb() });
+        break;
+      }
+      default:
+        return ranges;
+    }
+  }
+  return ranges;
+}
+
+// Resolve an address index (DW_FORM_addrx) through .debug_addr
+function readAddressIndex(debug: Debug, unit: Unit, index: number): number | null {
+  const section = debug.sections['.debug_addr'];
+  if (!section || unit.addrBase === undefined) return null;
+  const cursor = createCursor(section, debug.littleEndian);
+  cursor.pos = (unit.addrBase as number) + index * unit.addressSize;
+  return cursor.uint(unit.addressSize);
+}
+
+// Resolve a string index (DW_FORM_strx) through .debug_str_offsets
+function readStringIndex(debug: Debug, unit: Unit, index: number): string | null {
+  const offsets = debug.sections['.debug_str_offsets'];
+  const strings = debug.sections['.debug_str'];
+  if (!offsets || !strings || unit.strOffsetsBase === undefined) return null;
+  const cursor = createCursor(offsets, debug.littleEndian);
+  cursor.pos = (unit.strOffsetsBase as number) + index * unit.offsetSize;
+  const at = cursor.uint(unit.offsetSize);
+  return decodeUtf8(strings, at, strings.indexOf(0, at));
+}
+
+// Source path of a compile unit: DW_AT_name, relative to DW_AT_comp_dir unless absolute
+function joinSourcePath(name: string, compDir: FormValue): string {
+  const posixName = name.replace(/\\/g, '/');
+  const absolute = posixName.startsWith('/') || /^[A-Za-z]:\//.test(posixName);
+  return normalize(absolute || !compDir ? posixName : `${String(compDir).replace(/\\/g, '/')}/${posixName}`);
+}
+
+// Read the compilation units of .debug_info with the address ranges compiled from each source file:
+// code ranges plus one-byte ranges at the address of each variable
+export function readCompilationUnits(sections: DebugSections, littleEndian: boolean): CompilationUnit[] {
+  const info = sections['.debug_info'];
+  if (!info || !sections['.debug_abbrev']) {
+    return [];
+  }
+
+  const debug: Debug = { sections, littleEndian };
+  const cursor = createCursor(info, littleEndian);
+  const units: CompilationUnit[] = [];
+
+  while (cursor.pos + 11 <= info.length) {
+    const unitStart = cursor.pos;
+    let length = cursor.u32();
+    let offsetSize = 4;
+    if (length === 0xffffffff) {
+      length = cursor.u64();
+      offsetSize = 8;
+    }
+    const unitEnd = cursor.pos + length;
+    const version = cursor.u16();
+
+    let unitType = DW_TAG_compile_unit;
+    let addressSize;
+    let abbrevOffset;
+    if (version >= 5) {
+      unitType = cursor.u8();
+      addressSize = cursor.u8();
+      abbrevOffset = cursor.uint(offsetSize);
+      if (unitType === DW_UT_skeleton || unitType === DW_UT_split_compile) {
+        cursor.pos += 8; // dwo_id
+      } else if (unitType === DW_UT_type || unitType === DW_UT_split_type) {
+        cursor.pos += 8 + offsetSize; // type_signature, type_offset
+      }
+    } else {
+      abbrevOffset = cursor.uint(offsetSize);
+      addressSize = cursor.u8();
+    }
+
+    const unit: Unit = { version, addressSize, offsetSize, ranges: [] };
+    try {
+      readUnitEntries(cursor, unitEnd, unit, debug, readAbbreviations(debug, abbrevOffset));
+      if (unit.sourcePath) {
+        units.push({ sourcePath: unit.sourcePath, ranges: unit.ranges.filter(range => isLiveRange(range, unit.addressSize)) });
+      }
+    } catch (error) {
+      // A form this reader does not know ends the unit; the others are still read
+      console.warn(`Skipping DWARF unit at 0x${unitStart.toString(16)}: ${(error as Error).message}`);
+    }
+
+    cursor.pos = unitEnd;
+  }
+
+  return units;
+}
+
+// Check whether a range covers bytes of the image: it is not empty, and does not start at a tombstone,
+// the address lld gives the debug info of code removed by --gc-sections (-1, or -2 in .debug_ranges
+// where -1 selects a base address). GNU ld leaves such ranges at address 0 instead, which is also
+// where many MCUs link their code, so ranges at 0 are kept
+function isLiveRange(range: AddressSpan, addressSize: number): boolean {
+  return range.end > range.start && range.start < 2 ** (addressSize * 8) - 2;
+}
+
+// Walk the entries of one unit: the compile unit entry gives the source path and code ranges,
+// variables with a fixed address (DW_OP_addr) add their address
+function readUnitEntries(cursor: Cursor, unitEnd: number, unit: Unit, debug: Debug, abbreviations: Map<number, Abbreviation>) {
+  while (cursor.pos < unitEnd) {
+    const code = cursor.uleb();
+    if (code === 0) {
+      continue;
+    }
+    const abbreviation = abbreviations.get(code);
+    if (!abbreviation) {
+      throw new Error(`Unknown abbreviation ${code}`);
+    }
+
+    const attributes = new Map<number, Attribute>();
+    abbreviation.specs.forEach(spec => {
+      attributes.set(spec.name, { form: spec.form, value: readForm(cursor, spec.form, unit, debug, spec.implicitConst) });
+    });
+
+    if (abbreviation.tag === DW_TAG_compile_unit) {
+      readCompileUnitEntry(attributes, unit, debug);
+    } else if (abbreviation.tag === DW_TAG_variable && attributes.has(DW_AT_location)) {
+      const location = attributes.get(DW_AT_location)!.value;
+      if (location instanceof Uint8Array && location.length === 1 + unit.addressSize && location[0] === DW_OP_addr) {
+        const address = createCursor(location, debug.littleEndian);
+        address.pos = 1;
+        const start = address.uint(unit.addressSize);
+        unit.ranges.push({ start, end: start + 1 });
+      }
+    }
+  }
+}
+
+// Take the source path and code ranges of a unit from its DW_TAG_compile_unit entry
+function readCompileUnitEntry(attributes: Map<number, Attribute>, unit: Unit, debug: Debug) {
+  const value = (name: number) => attributes.get(name)?.value;
+  unit.strOffsetsBase = value(DW_AT_str_offsets_base);
+  unit.addrBase = value(DW_AT_addr_base);
+  unit.rnglistsBase = value(DW_AT_rnglists_base);
+
+  const resolveString = (v: FormValue) => (isIndex(v) ? readStringIndex(debug, unit, v.index) : v);
+  const resolveAddress = (v: FormValue) => (v && typeof v === 'object' ? readAddressIndex(debug, unit, (v as { index: number }).index) : v);
+
+  const name = resolveString(value(DW_AT_name));
+  if (typeof name !== 'string') {
+    return;
+  }
+  unit.sourcePath = joinSourcePath(name, resolveString(value(DW_AT_comp_dir)));
+
+  unit.lowPc = resolveAddress(value(DW_AT_low_pc));
+  if (attributes.has(DW_AT_ranges)) {
+    unit.ranges.push(...readRanges(debug, unit, value(DW_AT_ranges)));
+  } else if (typeof unit.lowPc === 'number' && attributes.has(DW_AT_high_pc)) {
+    const highPc = attributes.get(DW_AT_high_pc)!;
+    const end = CONSTANT_FORMS.has(highPc.form) ? unit.lowPc + (highPc.value as number) : resolveAddress(highPc.value);
+    if (typeof end === 'number' && end > unit.lowPc) {
+      unit.ranges.push({ start: unit.lowPc, end });
+    }
+  }
+}
+
+// Record on each symbol, and on each input section with a file, the source file it was compiled from.
+// Symbols are matched by their address; the flat symbol list is rebuilt to carry the paths
+export function attributeSourcePaths(analysis: ParsedAnalysis, units: CompilationUnit[]) {
+  // Of ranges starting at the same address the longest sorts last and is the one found, so code linked
+  // at 0 is not attributed to a shorter range GNU ld left there for code removed by --gc-sections
+  const ranges = units
+    .flatMap(unit => unit.ranges.map(range => ({ ...range, sourcePath: unit.sourcePath })))
+    .sort((a, b) => a.start - b.start || a.end - b.end);
+  if (ranges.length === 0) {
+    return;
+  }
+
+  // Last range starting at or before the address, by binary search
+  const findSourcePath = (address: number) => {
+    let low = 0;
+    let high = ranges.length - 1;
+    let found = null;
+    while (low <= high) {
+      const mid = (low + high) >> 1;
+      if (ranges[mid].start <= address) {
+        found = ranges[mid];
+        low = mid + 1;
+      } else {
+        high = mid - 1;
+      }
+    }
+    return found && address < found.end ? found.sourcePath : null;
+  };
+
+  analysis.sections.forEach(section => {
+    if (section.filePath && section.region) {
+      section.sourcePath = findSourcePath(parseInt(section.address!, 16));
+    }
+    section.symbols.forEach(symbol => {
+      symbol.sourcePath = findSourcePath(parseInt(symbol.address, 16));
+    });
+  });
+  analysis.symbols = collectSymbols(analysis.sections);
+}
@@ -0,0 +1,213 @@
+// Toolchain dialects of GNU ld map files (AVR-GCC, Microchip XC16 and XC32, ESP-IDF).
+// The layout is GNU ld's, but regions and sizes need toolchain knowledge
+import { isWritableRegion } from '../utils/memoryRegions';
+import { formatAddress } from './mapUtils';
+import type { ParsedMemory, ParsedOutputSection, ParsedRegion } from '../types';
+
+// AVR regions holding non-volatile data; the linker scripts declare them "rw !x" like SRAM
+const AVR_NON_VOLATILE_REGIONS = ['eeprom', 'fuse', 'lock', 'signature', 'user_signatures'];
+
+// Flash, SRAM and EEPROM of common AVR parts, for maps linked with the default region lengths
+// (text 128K, data 0xffa0, eeprom 64K) that do not describe the device
+const AVR_DEVICES: Record<string, { flash: number; ramStart: number; ram: number; eeprom: number }> = {
+  atmega168: { flash: 0x4000, ramStart: 0x100, ram: 0x400, eeprom: 0x200 },
+  atmega328: { flash: 0x8000, ramStart: 0x100, ram: 0x800, eeprom: 0x400 },
+  atmega328p: { flash: 0x8000, ramStart: 0x100, ram: 0x800, eeprom: 0x400 },
+  atmega32u4: { flash: 0x8000, ramStart: 0x100, ram: 0xa00, eeprom: 0x400 },
+  atmega644p: { flash: 0x10000, ramStart: 0x100, ram: 0x1000, eeprom: 0x800 },
+  atmega1284p: { flash: 0x20000, ramStart: 0x100, ram: 0x4000, eeprom: 0x1000 },
+  atmega2560: { flash: 0x40000, ramStart: 0x200, ram: 0x2000, eeprom: 0x1000 },
+  attiny85: { flash: 0x2000, ramStart: 0x60, ram: 0x200, eeprom: 0x200 },
+};
+
+// AVR data addresses are offset into a separate address space: SRAM 0x00800000, EEPROM 0x00810000
+const AVR_DATA_OFFSET = 0x800000;
+const AVR_DEFAULT_DATA_LENGTH = 0xffa0;
+const AVR_DEFAULT_EEPROM_LENGTH = 0x10000;
+
+// Set a region's length in bytes, keeping the printed length in step
+function setLength(region: ParsedRegion, lengthBytes: number): void {
+  region.lengthBytes = lengthBytes;
+  region.length = '0x' + lengthBytes.toString(16);
+}
+
+// AVR: EEPROM, fuses, lock bits and signatures are not RAM, and the default region lengths are
+// narrowed to the device found from its startup file (crtatmega328p.o)
+function prepareAvrMemory(memory: ParsedMemory, content: string): void {
+  AVR_NON_VOLATILE_REGIONS
+    .filter(name => memory[name])
+    .forEach(name => {
+      memory[name].writable = false;
+    });
+
+  const deviceMatch = content.match(/\bcrt(at\w+?)\.o\b/i);
+  const device = deviceMatch && AVR_DEVICES[deviceMatch[1].toLowerCase()];
+  if (!device) {
+    return;
+  }
+
+  if (memory.text && memory.text.lengthBytes > device.flash) {
+    setLength(memory.text, device.flash);
+  }
+  if (memory.data && memory.data.lengthBytes === AVR_DEFAULT_DATA_LENGTH) {
+    memory.data.origin = formatAddress(AVR_DATA_OFFSET + device.ramStart);
+    setLength(memory.data, device.ram);
+  }
+  if (memory.eeprom && memory.eeprom.lengthBytes === AVR_DEFAULT_EEPROM_LENGTH) {
+    setLength(memory.eeprom, device.eeprom);
+  }
+}
+
+// XC16: record the "Total program/data memory used" figures of the usage tables on the region
+// whose origin the table header names:  "program" Memory  [Origin = 0x200, Length = 0xa9fc]
+function prepareXc16Memory(memory: ParsedMemory, content: string): void {
+  const tableRegex = /^"?\w+"? Memory\s+\[Origin = 0x([0-9a-fA-F]+), Length = 0x[0-9a-fA-F]+\][\s\S]*?Total "?\w+"? memory used \(bytes\):\s+0x([0-9a-fA-F]+)/gm;
+
+  for (const match of content.matchAll(tableRegex)) {
+    const origin = parseInt(match[1], 16);
+    const region = Object.values(memory).find(r => parseInt(r.origin, 16) === origin);
+    if (region) {
+      region.used = parseInt(match[2], 16);
+    }
+  }
+}
+
+// XC16: program memory is addressed in PC units, two per 24-bit instruction word, and the map sizes
+// program-space sections in PC units too. Sizes in read-only regions are converted to bytes
+// (3 per 2 PC units) as MPLAB reports them; addresses stay in PC units as printed
+function convertXc16ProgramSizes(memory: ParsedMemory, outputSections: ParsedOutputSection[]): void {
+  const toBytes = (pcUnits: number) => pcUnits * 3 / 2;
+
+  Object.entries(memory)
+    .filter(([name]) => !isWritableRegion(memory, name))
+    .forEach(([, region]) => setLength(region, toBytes(region.lengthBytes)));
+
+  outputSections
+    .filter(output => output.region && !isWritableRegion(memory, output.region))
+    .forEach(output => {
+      output.size = toBytes(output.size);
+      output.fill = toBytes(output.fill);
+      output.padding = toBytes(output.padding);
+      output.fillEntries.forEach(entry => {
+        entry.size = toBytes(entry.size);
+      });
+      output.inputSections.forEach(section => {
+        section.size = toBytes(section.size);
+        section.symbols.forEach(symbol => {
+          symbol.size = toBytes(symbol.size);
+        });
+      });
+    });
+}
+
+// XC32: record the totals of the "Microchip PIC32 Memory-Usage Report" on their regions
+//   kseg0 Program-Memory Usage  :  0x4f4  1268  bytes  0% of 0x80000  → kseg0_program_mem
+function prepareXc32Memory(memory: ParsedMemory, content: string): void {
+  for (const match of content.matchAll(/^\s*(.+?)-Memory Usage\s+:\s+0x([0-9a-fA-F]+)\s+\d+\s+bytes/gm)) {
+    const name = `${match[1].trim().toLowerCase().replace(/\s+/g, '_')}_mem`;
+    if (memory[name]) {
+      memory[name].used = parseInt(match[2], 16);
+    }
+  }
+}
+
+const ESP_IDF_REGION_KINDS = [
+  { pattern: /^iram0_0_seg$/, kind: 'IRAM' },
+  { pattern: /^(iram0_2_seg|irom_seg)$/, kind: 'Flash Code' },
+  { pattern: /^dram0_\d_seg$/, kind: 'DRAM' },
+  { pattern: /^(drom0_0_seg|drom_seg)$/, kind: 'Flash Data' },
+  { pattern: /^sram_seg$/, kind: 'DIRAM' },
+  { pattern: /^(rtc|lp)_\w+$/, kind: 'RTC' },
+  { pattern: /^extern_ram_seg$/, kind: 'PSRAM' },
+];
+
+// ESP-IDF: label each region with its memory kind (IRAM, DRAM, Flash Code, ...). IRAM is declared
+// "xr" in the linker scripts but is internal SRAM
+function prepareEspIdfMemory(memory: ParsedMemory): void {
+  Object.entries(memory).forEach(([name, region]) => {
+    const match = ESP_IDF_REGION_KINDS.find(({ pattern }) => pattern.test(name));
+    if (match) {
+      region.kind = match.kind;
+    }
+  });
+  if (memory.iram0_0_seg) {
+    memory.iram0_0_seg.writable = true;
+  }
+}
+
+// ESP-IDF: dummy sections (.dram0.dummy, .flash_rodata_dummy, .flash.rodata_noload, ...) only
+// reserve address space shared with another bus and are left out of the region usage
+function excludeEspIdfReservations(_memory: ParsedMemory, outputSections: ParsedOutputSection[]): void {
+  outputSections
+    .filter(output => /[._](dummy|noload)$/.test(output.name))
+    .forEach(output => {
+      output.region = null;
+      output.inputSections.forEach(section => {
+        section.region = null;
+      });
+    });
+}
+
+type DialectHandler = {
+  memory?: (memory: ParsedMemory, content: string) => void;
+  sections?: (memory: ParsedMemory, outputSections: ParsedOutputSection[]) => void;
+}
+
+// Dialect handlers: memory() runs once the Memory Configuration is parsed, sections() once
+// padding and symbol sizes are known
+const GNU_DIALECTS: Record<string, DialectHandler> = {
+  avr: { memory: prepareAvrMemory },
+  xc16: { memory: prepareXc16Memory, sections: convertXc16ProgramSizes },
+  xc32: { memory: prepareXc32Memory },
+  'esp-idf': { memory: prepareEspIdfMemory, sections: excludeEspIdfReservations },
+};
+
+// Lines the dialects are detected and their memory adjusted from. A streamed map keeps only these
+// lines, which stand in for the map text given to detectGnuDialect and applyDialectToMemory
+const DIALECT_LINE_PATTERNS = [
+  /Microchip PIC32 Memory-Usage Report/,
+  /\b(elf32|coff)-pic30\b|Total "?\w+"? memory used/,
+  /^"?\w+"? Memory\s+\[Origin = /,
+  /-Memory Usage\s+:/,
+  /\belf32-avr\b/,
+  /\bcrtat\w+?\.o\b/i,
+  /^\s*(iram0_0_seg|dram0_0_seg)\s+0x/,
+];
+
+// Whether a map line is needed to detect the dialect or adjust its memory regions
+export function isDialectLine(line: string): boolean {
+  return DIALECT_LINE_PATTERNS.some(pattern => pattern.test(line));
+}
+
+// Detect the toolchain of a GNU ld map from its output format and toolchain-specific blocks
+export function detectGnuDialect(content: string): string | null {
+  if (/Microchip PIC32 Memory-Usage Report/.test(content)) {
+    return 'xc32';
+  }
+  if (/\b(elf32|coff)-pic30\b|Total "?program"? memory used/.test(content)) {
+    return 'xc16';
+  }
+  if (/\belf32-avr\b/.test(content)) {
+    return 'avr';
+  }
+  if (/^\s*(iram0_0_seg|dram0_0_seg)\s+0x/m.test(content)) {
+    return 'esp-idf';
+  }
+  return null;
+}
+
+// Apply a dialect's memory region adjustments
+export function applyDialectToMemory(dialect: string | null, memory: ParsedMemory, content: string): void {
+  const handler = dialect ? GNU_DIALECTS[dialect] : undefined;
+  if (handler && handler.memory) {
+    handler.memory(memory, content);
+  }
+}
+
+// Apply a dialect's section adjustments
+export function applyDialectToSections(dialect: string | null, memory: ParsedMemory, outputSections: ParsedOutputSection[]): void {
+  const handler = dialect ? GNU_DIALECTS[dialect] : undefined;
+  if (handler && handler.sections) {
+    handler.sections(memory, outputSections);
+  }
+}
@@ -0,0 +1,84 @@
+// Format detection and the parse entry points, on bytes and browser Files
+// (the server reads files into bytes, see backend/parser/index.js)
+import { parseGnuMap, createGnuMapParser } from './parseMapFile';
+import { parseIarMap } from './parseIarMap';
+import { parseKeilMap } from './parseKeilMap';
+import { parseLldMap } from './parseLldMap';
+import { parseTiMap } from './parseTiMap';
+import { isElf, parseElf } from './parseElf';
+import type { ParsedAnalysis } from '../types';
+
+// Map file parsers by format; each returns the same AnalysisResult shape
+const PARSERS: Record<string, (content: string) => ParsedAnalysis> = {
+  'gnu-ld': parseGnuMap,
+  iar: parseIarMap,
+  armlink: parseKeilMap,
+  lld: parseLldMap,
+  ti: parseTiMap,
+};
+
+// Decoded as Buffer.toString('utf-8') does: a byte order mark is kept, not stripped
+const decodeText = (bytes: Uint8Array) => new TextDecoder('utf-8', { ignoreBOM: true }).decode(bytes);
+
+// Detect which linker wrote a map file from its banner and block titles; GNU ld when nothing else matches
+export function detectMapFormat(content: string): string {
+  if (/IAR ELF Linker|\*\*\* PLACEMENT SUMMARY/.test(content)) {
+    return 'iar';
+  }
+  if (/Tool: armlink|Memory Map of the image|Image component sizes/.test(content)) {
+    return 'armlink';
+  }
+  if (/^\s*(VMA\s+LMA|Address)\s+Size\s+Align\s+Out\s+In\s+Symbol/m.test(content)) {
+    return 'lld';
+  }
+  if (/^SECTION ALLOCATION MAP|^MEMORY CONFIGURATION/m.test(content)) {
+    return 'ti';
+  }
+  return 'gnu-ld';
+}
+
+// Parse a linker map file of any supported format, or an ELF image in its place
+export async function parseMap(bytes: Uint8Array): Promise<ParsedAnalysis> {
+  if (isElf(bytes)) {
+    return parseElf(bytes);
+  }
+
+  const content = decodeText(bytes);
+  return PARSERS[detectMapFormat(content)](content);
+}
+
+// Streamed maps are read in chunks of this size; the format is detected from the first chunk,
+// as every linker names itself or its block layout within the first lines
+const CHUNK_SIZE = 1024 * 1024;
+
+// Parse a map file with bounded memory: GNU ld maps are parsed line by line as they are read,
+// other formats and ELF images are read whole, as parseMap does.
+// onProgress is called with (bytesRead, totalBytes) as the file is read
+export async function parseMapStream(
+  file: Blob,
+  onProgress: (bytesRead: number, totalBytes: number) => void = () => {}
+): Promise<ParsedAnalysis> {
+  const totalBytes = file.size;
+  const head = new Uint8Array(await file.slice(0, CHUNK_SIZE).arrayBuffer());
+
+  if (!isElf(head) && detectMapFormat(decodeText(head)) === 'gnu-ld') {
+    const parser = createGnuMapParser();
+    // Lines are split as content.split('\n') would split the whole text
+    const decoder = new TextDecoder('utf-8', { ignoreBOM: true });
+    let rest = '';
+    for (let bytesRead = 0; bytesRead < totalBytes;) {
+      const chunk = new Uint8Array(await file.slice(bytesRead, bytesRead + CHUNK_SIZE).arrayBuffer());
+      bytesRead += chunk.length;
+      const lines = (rest + decoder.decode(chunk, { stream: true })).split('\n');
+      rest = lines.pop()!;
+      lines.forEach(line => parser.push(line));
+      onProgress(bytesRead, totalBytes);
+    }
+    parser.push(rest + decoder.decode());
+    return parser.finish();
+  }
+
+  const result = await parseMap(new Uint8Array(await file.arrayBuffer()));
+  onProgress(totalBytes, totalBytes);
+  return result;
+}
@@ -0,0 +1,351 @@
+// Helpers shared by the map file parsers and the ELF reader
+import { findRegion, hasLoadImage, isAllocatedSection, sumPaddingByRegion } from '../utils/memoryRegions';
+import type {
+  ArchiveMember,
+  CollectedSymbol,
+  CommonSymbol,
+  DiscardedSection,
+  DiscardedSummary,
+  PaddingSummary,
+  ParsedMemory,
+  ParsedOutputSection,
+  ParsedSection,
+  Reservation,
+  SizeGroup,
+  SymbolAssignment,
+} from '../types';
+
+export type AddressRange = {
+  start: number;
+  size: number;
+  writable: boolean;
+}
+
+// Strip directories from a path, accepting both / and \ separators
+export function baseName(filePath: string): string {
+  return filePath.split(/[\\/]/).pop()!;
+}
+
+// Format an address the way the GNU ld parser reports it (0x08000188)
+export function formatAddress(value: number): string {
+  return '0x' + value.toString(16).padStart(8, '0');
+}
+
+// Find the input section a symbol lives in, for maps that list symbols apart from sections.
+// The section of the symbol's own object file is preferred when sections overlap
+export function findContainingSection(
+  sections: ParsedSection[],
+  address: number,
+  objectFile?: string
+): ParsedSection | undefined {
+  const containing = sections.filter(section => {
+    const start = parseInt(section.address!, 16);
+    return address >= start && address < start + section.size;
+  });
+  return containing.find(s => s.objectFile === objectFile) || containing[0];
+}
+
+// Split a linker input file reference into library and object parts:
+// "/path/libhal.a(stm32_hal_uart.o)" → library "libhal.a", object "stm32_hal_uart.o"
+export function parseInputPath(inputPath: string | null | undefined): {
+  inputPath: string | null;
+  library: string | null;
+  objectFile: string | null;
+} {
+  if (!inputPath) {
+    return { inputPath: null, library: null, objectFile: null };
+  }
+
+  // Archive members are written as archive(member)
+  const archiveMatch = inputPath.match(/^(.+?)\(([^()]+)\)$/);
+  if (archiveMatch) {
+    return {
+      inputPath,
+      library: baseName(archiveMatch[1]),
+      objectFile: baseName(archiveMatch[2]),
+    };
+  }
+
+  return {
+    inputPath,
+    library: null,
+    objectFile: baseName(inputPath),
+  };
+}
+
+// Address ranges further apart than this are taken to live in different memories (flash at 0x08000000, RAM at 0x20000000)
+const REGION_WINDOW = 0x1000000;
+
+// Infer memory regions from the address ranges in use, for inputs that do not describe the MEMORY command.
+// Ranges in the same 16 MB window form one region spanning them; windows holding a writable range are RAM
+export function inferRegions(ranges: AddressRange[]): ParsedMemory {
+  const windows = new Map<number, { start: number; end: number; writable: boolean }>();
+  ranges.forEach(({ start, size, writable }) => {
+    const key = Math.floor(start / REGION_WINDOW);
+    const window = windows.get(key) || { start, end: start + size, writable: false };
+    window.start = Math.min(window.start, start);
+    window.end = Math.max(window.end, start + size);
+    window.writable = window.writable || writable;
+    windows.set(key, window);
+  });
+
+  const memory: ParsedMemory = {};
+  [...windows.values()]
+    .sort((a, b) => a.start - b.start)
+    .forEach(window => {
+      const prefix = window.writable ? 'RAM' : 'ROM';
+      let name = prefix;
+      for (let n = 2; memory[name]; n++) {
+        name = `${prefix}${n}`;
+      }
+
+      const lengthBytes = window.end - window.start;
+      memory[name] = {
+        origin: formatAddress(window.start),
+        length: '0x' + lengthBytes.toString(16),
+        lengthBytes,
+        attributes: window.writable ? 'rwx' : 'rx'
+      };
+    });
+
+  return memory;
+}
+
+// Give output sections without listed inputs an input section standing in for their own contents,
+// so the flat section list always holds the input level and can be summed without double counting
+export function addStandInSections(outputSections: ParsedOutputSection[], sections: ParsedSection[]): void {
+  outputSections
+    .filter(output => output.inputSections.length === 0 && output.size > output.fill)
+    .forEach(output => {
+      const section: ParsedSection = {
+        name: output.name,
+        address: output.address,
+        size: output.size - output.fill,
+        filePath: null,
+        library: null,
+        objectFile: null,
+        inputPath: null,
+        outputSection: output.name,
+        region: output.region,
+        symbols: []
+      };
+      output.inputSections.push(section);
+      sections.push(section);
+    });
+}
+
+// Compute the bytes of an output section not covered by any input section:
+// explicit *fill* entries plus alignment gaps between consecutive input sections
+export function computePadding(output: ParsedOutputSection): void {
+  const start = parseInt(output.address, 16);
+  const end = start + output.size;
+  const inputs = [...output.inputSections].sort((a, b) => parseInt(a.address!, 16) - parseInt(b.address!, 16));
+  let cursor = start;
+  let padding = 0;
+
+  inputs.forEach(section => {
+    const address = parseInt(section.address!, 16);
+    if (address > cursor) {
+      padding += address - cursor;
+    }
+    cursor = Math.max(cursor, address + section.size);
+  });
+
+  if (end > cursor) {
+    padding += end - cursor;
+  }
+
+  output.padding = padding;
+}
+
+// Resolve load addresses (LMA) of output sections and the input sections placed in them.
+// Only sections with a load image whose LMA differs from the run address (VMA) get a load region
+export function assignLoadRegions(outputSections: ParsedOutputSection[], memory: ParsedMemory): void {
+  outputSections.forEach((output, index) => {
+    const lma = output.rawLoadAddress;
+    const vma = parseInt(output.address, 16);
+    delete output.rawLoadAddress;
+
+    // A NOBITS section does not advance the load address, so the next loaded section shares its LMA
+    const next = outputSections.slice(index + 1).find(o => o.rawLoadAddress !== undefined);
+    const loaded = lma !== undefined && lma !== vma && hasLoadImage(output.name) &&
+      !(next && next.rawLoadAddress === lma);
+
+    output.loadAddress = loaded ? formatAddress(lma) : null;
+    output.loadRegion = loaded ? findRegion(memory, output.loadAddress) : null;
+
+    output.inputSections.forEach(section => {
+      section.loadAddress = loaded
+        ? formatAddress(lma + parseInt(section.address!, 16) - vma)
+        : null;
+      section.loadRegion = output.loadRegion;
+    });
+  });
+}
+
+// Infer symbol sizes from the next symbol address, or the end of the section for the last one.
+// Aliases (several names at one address) all get the same size
+export function inferSymbolSizes(section: ParsedSection): void {
+  const sectionEnd = parseInt(section.address!, 16) + section.size;
+  const addresses = Array.from(new Set(section.symbols.map(s => parseInt(s.address, 16))))
+    .sort((a, b) => a - b);
+
+  section.symbols.forEach(symbol => {
+    const address = parseInt(symbol.address, 16);
+    const nextAddress = addresses.find(a => a > address);
+    symbol.size = Math.max((nextAddress !== undefined ? nextAddress : sectionEnd) - address, 0);
+  });
+}
+
+// Total section sizes per group key (object file, library), largest first
+export function groupBySize<T extends { size: number }>(sections: T[], getKey: (section: T) => string): SizeGroup[] {
+  const groups = new Map<string, SizeGroup>();
+
+  sections.forEach(section => {
+    const key = getKey(section);
+    const group = groups.get(key) || { name: key, size: 0, sectionCount: 0 };
+    group.size += section.size;
+    group.sectionCount++;
+    groups.set(key, group);
+  });
+
+  return Array.from(groups.values()).sort((a, b) => b.size - a.size);
+}
+
+// Summarize sections removed by the linker's unused section elimination. Totals count the code and
+// data that would have been placed in memory; discarded debug info and comments are totalled apart
+export function summarizeDiscarded(sections: DiscardedSection[]): DiscardedSummary {
+  const allocated = sections.filter(s => isAllocatedSection(s.name));
+  const totalOf = (list: DiscardedSection[]) => list.reduce((sum, s) => sum + s.size, 0);
+  return {
+    totalSize: totalOf(allocated),
+    nonAllocatedSize: totalOf(sections) - totalOf(allocated),
+    sectionCount: sections.length,
+    sections: sections.sort((a, b) => b.size - a.size),
+    objects: groupBySize(allocated, s => s.filePath || 'unknown'),
+    libraries: groupBySize(allocated, s => s.library || '(no library)')
+  };
+}
+
+// Summarize padding of sections placed in memory; debug sections have no region and are left out
+export function summarizePadding(outputSections: ParsedOutputSection[]): PaddingSummary {
+  return {
+    totalSize: outputSections.filter(o => o.region).reduce((sum, o) => sum + o.padding, 0),
+    regions: sumPaddingByRegion(outputSections)
+  };
+}
+
+// Give the symbols of COMMON input sections the exact sizes from "Allocating common symbols"
+// (inferred sizes include the alignment gap to the next symbol), and the common symbols
+// the address and region the memory map placed them at
+export function applyCommonSymbols(commonSymbols: CommonSymbol[] | null, sections: ParsedSection[]) {
+  if (!commonSymbols) {
+    return;
+  }
+
+  const byName = new Map(commonSymbols.map(common => [common.name, common]));
+  sections
+    .filter(section => section.name === 'COMMON')
+    .forEach(section => {
+      section.symbols.forEach(symbol => {
+        const common = byName.get(symbol.name);
+        if (common) {
+          symbol.size = common.size;
+          common.address = symbol.address;
+          common.region = section.region;
+        }
+      });
+    });
+}
+
+// Total the input sections each included archive member placed in memory; debug sections are left out
+export function sizeArchiveMembers(members: ArchiveMember[] | null, sections: ParsedSection[]) {
+  if (!members) {
+    return;
+  }
+
+  const sizes = new Map<string | null, number>();
+  sections
+    .filter(section => section.region)
+    .forEach(section => {
+      sizes.set(section.inputPath, (sizes.get(section.inputPath) || 0) + section.size);
+    });
+  members.forEach(member => {
+    member.size = sizes.get(member.inputPath) || 0;
+  });
+}
+
+// Location counter increment by a size symbol, with the address after it
+export type LocationIncrement = {
+  address: number;
+  symbol: string;
+  output: ParsedOutputSection | null;
+}
+
+// Tell a heap from a stack by name; names mentioning both (._user_heap_stack) or neither give null
+function reservationKind(name: string): 'heap' | 'stack' | null {
+  const heap = /heap/i.test(name);
+  const stack = /stack/i.test(name);
+  if (heap === stack) {
+    return null;
+  }
+  return heap ? 'heap' : 'stack';
+}
+
+// Derive heap and stack reservations from location counter increments by a heap or stack size symbol
+// (". = (. + _Min_Heap_Size)" in ._user_heap_stack), or else from output sections named after them (.heap, .stack)
+export function findReservations(
+  symbolAssignments: SymbolAssignment[],
+  increments: LocationIncrement[],
+  outputSections: ParsedOutputSection[]
+): Reservation[] {
+  const values = new Map(symbolAssignments.map(assignment => [assignment.name, parseInt(assignment.value, 16)]));
+  const reservations: Reservation[] = [];
+
+  increments.forEach(increment => {
+    const kind = reservationKind(increment.symbol);
+    const size = values.get(increment.symbol);
+    if (!kind || size === undefined || !increment.output) {
+      return;
+    }
+    // The map prints the location counter after the increment
+    reservations.push({
+      kind,
+      name: increment.symbol,
+      address: formatAddress(increment.address - size),
+      size,
+      outputSection: increment.output.name,
+      region: increment.output.region
+    });
+  });
+
+  outputSections
+    .filter(output => !reservations.some(reservation => reservation.outputSection === output.name))
+    .forEach(output => {
+      const kind = reservationKind(output.name);
+      if (kind) {
+        reservations.push({
+          kind,
+          name: output.name,
+          address: output.address,
+          size: output.size,
+          outputSection: output.name,
+          region: output.region
+        });
+      }
+    });
+
+  return reservations;
+}
+
+// Flat symbol list with the section and file each symbol lives in, largest first
+export function collectSymbols(sections: ParsedSection[]): CollectedSymbol[] {
+  return sections
+    .flatMap(section => section.symbols.map(symbol => ({
+      ...symbol,
+      section: section.name,
+      filePath: section.filePath,
+      library: section.library
+    })))
+    .sort((a, b) => b.size - a.size);
+}
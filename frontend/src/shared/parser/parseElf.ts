@@ -0,0 +1,359 @@
+// ELF image reader.
+// Compressed debug sections are inflated with DecompressionStream, so reading an ELF is asynchronous
+import { findRegion } from '../utils/memoryRegions';
+import { readCompilationUnits, attributeSourcePaths } from './dwarf';
+import type { CompilationUnit, DebugSections } from './dwarf';
+import {
+  formatAddress,
+  inferRegions,
+  computePadding,
+  assignLoadRegions,
+  summarizePadding,
+  collectSymbols
+} from './mapUtils';
+import type { AddressRange } from './mapUtils';
+import type { ParsedAnalysis, ParsedOutputSection, ParsedSection } from '../types';
+
+const ELF_MAGIC = 0x7f454c46; // "\x7fELF"
+
+const ELFCLASS64 = 2;
+const ELFDATA2MSB = 2;
+const EM_ARM = 40;
+
+const SHT_SYMTAB = 2;
+const SHT_NOBITS = 8;
+const SHF_ALLOC = 0x2;
+const SHF_COMPRESSED = 0x800;
+const ELFCOMPRESS_ZLIB = 1;
+
+const PT_LOAD = 1;
+const PF_W = 0x2;
+
+const STT_OBJECT = 1;
+const STT_FUNC = 2;
+
+type Reader = ReturnType<typeof createReader>;
+type ElfHeader = ReturnType<typeof readHeader>;
+
+type SectionHeader = {
+  name: string;
+  nameOffset: number;
+  type: number;
+  flags: number;
+  addr: number;
+  offset: number;
+  size: number;
+  link: number;
+  entsize: number;
+}
+
+type LoadSegment = {
+  vaddr: number;
+  paddr: number;
+  filesz: number;
+  memsz: number;
+  flags: number;
+}
+
+type ElfSymbol = {
+  name: string;
+  value: number;
+  size: number;
+  shndx: number;
+}
+
+// Check whether a file is an ELF image rather than a text map
+export function isElf(bytes: Uint8Array): boolean {
+  return bytes.length >= 4 &&
+    new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength).getUint32(0) === ELF_MAGIC;
+}
+
+// Field readers for the file's class (32/64-bit) and byte order, taking an offset
+function createReader(bytes: Uint8Array) {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const is64 = bytes[4] === ELFCLASS64;
+  const littleEndian = bytes[5] !== ELFDATA2MSB;
+  const u16 = (offset: number) => view.getUint16(offset, littleEndian);
+  const u32 = (offset: number) => view.getUint32(offset, littleEndian);
+  const u64 = (offset: number) => Number(view.getBigUint64(offset, littleEndian));
+
+  return {
+    is64,
+    littleEndian,
+    size: bytes.length,
+    u8: (offset: number) => bytes[offset],
+    u16,
+    u32,
+    word: is64 ? u64 : u32,
+  };
+}
+
+// Error for an ELF file whose headers point past its end or are malformed, with code INVALID_ELF
+function invalidElfError(): Error {
+  return Object.assign(new Error('Invalid or truncated ELF file'), { code: 'INVALID_ELF' });
+}
+
+// Check that a range of bytes lies within the file
+function checkRange(read: Reader, offset: number, length: number) {
+  if (offset + length > read.size) {
+    throw invalidElfError();
+  }
+}
+
+// Check that a table of entries lies within the file and its entries, entrySize bytes each as the
+// ELF header says, hold the minEntrySize bytes of the structure for the file's class
+function checkTable(read: Reader, offset: number, count: number, entrySize: number, minEntrySize: number) {
+  if (count === 0) {
+    return;
+  }
+  if (entrySize < minEntrySize) {
+    throw invalidElfError();
+  }
+  checkRange(read, offset, count * entrySize);
+}
+
+// Read a NUL-terminated string from a string table, byte per character as latin1
+function readString(bytes: Uint8Array, offset: number): string {
+  const end = bytes.indexOf(0, offset);
+  let value = '';
+  for (let i = offset; i < (end < 0 ? bytes.length : end); i++) {
+    value += String.fromCharCode(bytes[i]);
+  }
+  return value;
+}
+
+// Read the ELF header fields needed to find the section and program header tables
+function readHeader(read: Reader) {
+  checkRange(read, 0, read.is64 ? 64 : 52);
+  const base = read.is64 ? 40 : 32; // e_shoff; e_phoff is the word before it
+  const wordSize = read.is64 ? 8 : 4;
+  const rest = base + wordSize + 4; // after e_shoff and e_flags
+
+  return {
+    machine: read.u16(18),
+    phoff: read.word(base - wordSize),
+    shoff: read.word(base),
+    phentsize: read.u16(rest + 2),
+    phnum: read.u16(rest + 4),
+    shentsize: read.u16(rest + 6),
+    shnum: read.u16(rest + 8),
+    shstrndx: read.u16(rest + 10),
+  };
+}
+
+// Read the section header table, with names resolved through .shstrtab
+function readSectionHeaders(bytes: Uint8Array, read: Reader, header: ElfHeader): SectionHeader[] {
+  checkTable(read, header.shoff, header.shnum, header.shentsize, read.is64 ? 64 : 40);
+  const headers: SectionHeader[] = [];
+  for (let i = 0; i < header.shnum; i++) {
+    const at = header.shoff + i * header.shentsize;
+    headers.push(read.is64
+      ? {
+        name: '', nameOffset: read.u32(at), type: read.u32(at + 4), flags: read.word(at + 8), addr: read.word(at + 16),
+        offset: read.word(at + 24), size: read.word(at + 32), link: read.u32(at + 40), entsize: read.word(at + 56)
+      }
+      : {
+        name: '', nameOffset: read.u32(at), type: read.u32(at + 4), flags: read.u32(at + 8), addr: read.u32(at + 12),
+        offset: read.u32(at + 16), size: read.u32(at + 20), link: read.u32(at + 24), entsize: read.u32(at + 36)
+      });
+  }
+
+  // Contents of NOBITS sections (.bss) take no space in the file
+  headers
+    .filter(section => section.type !== SHT_NOBITS)
+    .forEach(section => checkRange(read, section.offset, section.size));
+
+  const names = headers[header.shstrndx];
+  headers.forEach(section => {
+    section.name = names ? readString(bytes, names.offset + section.nameOffset) : '';
+  });
+  return headers;
+}
+
+// Read the PT_LOAD entries of the program header table
+function readLoadSegments(read: Reader, header: ElfHeader): LoadSegment[] {
+  checkTable(read, header.phoff, header.phnum, header.phentsize, read.is64 ? 56 : 32);
+  const segments: LoadSegment[] = [];
+  for (let i = 0; i < header.phnum; i++) {
+    const at = header.phoff + i * header.phentsize;
+    if (read.u32(at) !== PT_LOAD) {
+      continue;
+    }
+    segments.push(read.is64
+      ? { flags: read.u32(at + 4), vaddr: read.word(at + 16), paddr: read.word(at + 24), filesz: read.word(at + 32), memsz: read.word(at + 40) }
+      : { vaddr: read.u32(at + 8), paddr: read.u32(at + 12), filesz: read.u32(at + 16), memsz: read.u32(at + 20), flags: read.u32(at + 24) });
+  }
+  return segments;
+}
+
+// Read the sized function and object symbols of .symtab. Arm Thumb function addresses have bit 0 set
+function readSymbols(bytes: Uint8Array, read: Reader, sectionHeaders: SectionHeader[], machine: number): ElfSymbol[] {
+  const symtab = sectionHeaders.find(section => section.type === SHT_SYMTAB);
+  if (!symtab) {
+    return [];
+  }
+
+  const strtab = sectionHeaders[symtab.link];
+  if (!strtab) {
+    throw invalidElfError();
+  }
+  const entrySize = symtab.entsize || (read.is64 ? 24 : 16);
+  const symbols: ElfSymbol[] = [];
+
+  for (let at = symtab.offset + entrySize; at + entrySize <= symtab.offset + symtab.size; at += entrySize) {
+    const symbol = read.is64
+      ? { nameOffset: read.u32(at), info: read.u8(at + 4), shndx: read.u16(at + 6), value: read.word(at + 8), size: read.word(at + 16) }
+      : { nameOffset: read.u32(at), value: read.u32(at + 4), size: read.u32(at + 8), info: read.u8(at + 12), shndx: read.u16(at + 14) };
+    const type = symbol.info & 0xf;
+
+    if ((type !== STT_FUNC && type !== STT_OBJECT) || symbol.size === 0) {
+      continue;
+    }
+    symbols.push({
+      name: readString(bytes, strtab.offset + symbol.nameOffset),
+      value: type === STT_FUNC && machine === EM_ARM ? symbol.value - (symbol.value % 2) : symbol.value,
+      size: symbol.size,
+      shndx: symbol.shndx,
+    });
+  }
+
+  return symbols;
+}
+
+// Inflate zlib data (the stream format zlib.inflateSync reads)
+async function inflate(bytes: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([bytes as Uint8Array<ArrayBuffer>]).stream().pipeThrough(new DecompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+// Contents of the .debug_* sections, inflated when compressed (SHF_COMPRESSED, --compress-debug-sections)
+async function readDebugSections(bytes: Uint8Array, read: Reader, sectionHeaders: SectionHeader[]): Promise<DebugSections> {
+  const sections: DebugSections = {};
+  for (const section of sectionHeaders.filter(s => s.name.startsWith('.debug_') && s.size > 0)) {
+    const contents = bytes.subarray(section.offset, section.offset + section.size);
+    if (!(section.flags & SHF_COMPRESSED)) {
+      sections[section.name] = contents;
+      continue;
+    }
+    // Elf32_Chdr / Elf64_Chdr: ch_type, then the uncompressed size and alignment
+    if (read.u32(section.offset) === ELFCOMPRESS_ZLIB) {
+      sections[section.name] = await inflate(contents.subarray(read.is64 ? 24 : 12));
+    }
+  }
+  return sections;
+}
+
+// Read the compilation units of an ELF's DWARF debug info, for attributing a map's symbols to source files.
+// Empty without debug info
+export async function readSourceUnits(bytes: Uint8Array): Promise<CompilationUnit[]> {
+  const read = createReader(bytes);
+  const header = readHeader(read);
+  const sectionHeaders = readSectionHeaders(bytes, read, header);
+  return readCompilationUnits(await readDebugSections(bytes, read, sectionHeaders), read.littleEndian);
+}
+
+// Address ranges of the loadable segments, for inferring memory regions: the run addresses of each
+// segment and, for data copied at startup, the load image at its physical address
+function collectSegmentRanges(segments: LoadSegment[]): AddressRange[] {
+  return segments
+    .filter(segment => segment.memsz > 0)
+    .flatMap(segment => {
+      const ranges = [{ start: segment.vaddr, size: segment.memsz, writable: (segment.flags & PF_W) !== 0 }];
+      if (segment.paddr !== segment.vaddr && segment.filesz > 0) {
+        ranges.push({ start: segment.paddr, size: segment.filesz, writable: false });
+      }
+      return ranges;
+    });
+}
+
+// Parse an ELF image into the same shape as the map parsers, for builds that keep the .elf but not the map.
+// Allocated sections (SHF_ALLOC) are the output sections, each standing in as its own input section;
+// sized FUNC and OBJECT symbols are placed by st_shndx. Regions are inferred from the PT_LOAD segments,
+// whose physical addresses give the load address (LMA) of copied data
+export async function parseElf(bytes: Uint8Array): Promise<ParsedAnalysis> {
+  if (!isElf(bytes)) {
+    throw new Error('Not an ELF file');
+  }
+
+  const read = createReader(bytes);
+  const header = readHeader(read);
+  const sectionHeaders = readSectionHeaders(bytes, read, header);
+  const segments = readLoadSegments(read, header);
+
+  const result: ParsedAnalysis = {
+    format: 'elf',
+    memory: inferRegions(collectSegmentRanges(segments)),
+    outputSections: [],
+    sections: [],
+    symbols: [],
+    padding: null,
+    discarded: null,
+    commonSymbols: null,
+    crossReferences: null,
+    archiveMembers: null,
+    symbolAssignments: null,
+    reservations: null
+  };
+
+  const sectionsByIndex = new Map<number, ParsedSection>();
+  const outputSections: ParsedOutputSection[] = [];
+
+  sectionHeaders.forEach((sectionHeader, index) => {
+    if (!(sectionHeader.flags & SHF_ALLOC) || sectionHeader.size === 0) {
+      return;
+    }
+
+    const address = formatAddress(sectionHeader.addr);
+    const region = findRegion(result.memory, address);
+    const segment = segments.find(s => sectionHeader.addr >= s.vaddr && sectionHeader.addr < s.vaddr + s.memsz);
+    const section: ParsedSection = {
+      name: sectionHeader.name,
+      address,
+      size: sectionHeader.size,
+      filePath: null,
+      library: null,
+      objectFile: null,
+      inputPath: null,
+      outputSection: sectionHeader.name,
+      region,
+      symbols: []
+    };
+
+    outputSections.push({
+      name: sectionHeader.name,
+      address,
+      size: sectionHeader.size,
+      region,
+      // NOBITS sections (.bss) have no load image
+      rawLoadAddress: segment && sectionHeader.type !== SHT_NOBITS
+        ? sectionHeader.addr - segment.vaddr + segment.paddr
+        : undefined,
+      fillEntries: [],
+      fill: 0,
+      padding: 0,
+      inputSections: [section]
+    });
+    sectionsByIndex.set(index, section);
+  });
+
+  readSymbols(bytes, read, sectionHeaders, header.machine).forEach(symbol => {
+    const section = sectionsByIndex.get(symbol.shndx);
+    if (section) {
+      section.symbols.push({ name: symbol.name, address: formatAddress(symbol.value), size: symbol.size });
+    }
+  });
+
+  const sections = outputSections.flatMap(output => output.inputSections);
+  outputSections.forEach(computePadding);
+  assignLoadRegions(outputSections, result.memory);
+
+  result.padding = summarizePadding(outputSections);
+  result.sections = sections;
+  result.symbols = collectSymbols(sections);
+  attributeSourcePaths(result, readCompilationUnits(await readDebugSections(bytes, read, sectionHeaders), read.littleEndian));
+
+  result.outputSections = outputSections;
+  result.sections = sections.sort((a, b) => b.size - a.size);
+
+  return result;
+}
@@ -0,0 +1,232 @@
+// IAR EWARM (ILINK) map parser
+import { findRegion } from '../utils/memoryRegions';
+import {
+  formatAddress,
+  findContainingSection,
+  parseInputPath,
+  computePadding,
+  summarizePadding,
+  collectSymbols
+} from './mapUtils';
+import type { ParsedAnalysis, ParsedMemory, ParsedOutputSection, ParsedSection } from '../types';
+
+// Placement entry kinds printed in the "Kind" column of the PLACEMENT SUMMARY
+const ENTRY_KINDS = ['ro code', 'ro data', 'rw code', 'rw data', 'const', 'inited', 'zero', 'uninit', 'noinit'];
+
+// Entry line:  .text              ro code   0x800'0188   0x5f8  stm32f4xx_hal_rcc.o [1]
+const ENTRY_LINE_REGEX = new RegExp(
+  `^\\s+(\\S.*?)\\s+(${ENTRY_KINDS.join('|')})\\s+0x([0-9a-fA-F']+)\\s+0x([0-9a-fA-F']+)\\s+(.*?)\\s*$`
+);
+
+// Parse an IAR hex number; large values are grouped with apostrophes (0x800'0188)
+function parseIarHex(digits: string): number {
+  return parseInt(digits.replace(/'/g, ''), 16);
+}
+
+// Get the text of a "*** NAME" block, up to the next banner line
+function getBlock(content: string, title: string): string {
+  const match = content.match(new RegExp(`\\*\\*\\* ${title}\\s*\\n\\*\\*\\*\\n([\\s\\S]*?)(?=\\n\\*{20,}|$)`));
+  return match ? match[1] : '';
+}
+
+// Resolve the [n] module references: "[2] = dl7M_tln.a" at the end of the file,
+// or the "rt7M_tl.a: [4]" headers in the MODULE SUMMARY
+function parseReferences(content: string): Record<string, string> {
+  const references: Record<string, string> = {};
+
+  for (const match of getBlock(content, 'MODULE SUMMARY').matchAll(/^(\S.*?): \[(\d+)\]\s*$/gm)) {
+    references[match[2]] = match[1];
+  }
+  for (const match of content.matchAll(/^\[(\d+)\] = (.+?)\s*$/gm)) {
+    references[match[1]] = match[2];
+  }
+
+  return references;
+}
+
+// Build memory regions from the "place in [from ... to ...]" directives. Read-only placements
+// become ROM, the others RAM; IAR does not print the region names of the .icf
+function parsePlacementRegions(placementBlock: string): ParsedMemory {
+  const memory: ParsedMemory = {};
+  // Directives may wrap:  "P2":  place in [from 0x2000'0000 to 0x2001'ffff] {
+  //                                 rw, block CSTACK, block HEAP };
+  const directiveRegex = /^"[^"]+":\s+place in \[from 0x([0-9a-fA-F']+) to 0x([0-9a-fA-F']+)\]\s*\{([^}]*)\}/gm;
+
+  for (const match of placementBlock.matchAll(directiveRegex)) {
+    const origin = parseIarHex(match[1]);
+    const lengthBytes = parseIarHex(match[2]) - origin + 1;
+    if (Object.values(memory).some(region => parseInt(region.origin, 16) === origin)) {
+      continue;
+    }
+
+    const readOnly = !/\b(rw|block)\b/.test(match[3]);
+    const baseName = readOnly ? 'ROM' : 'RAM';
+    let name = baseName;
+    for (let n = 2; memory[name]; n++) {
+      name = `${baseName}${n}`;
+    }
+
+    memory[name] = {
+      origin: formatAddress(origin),
+      length: '0x' + lengthBytes.toString(16),
+      lengthBytes,
+      attributes: readOnly ? 'rx' : 'rwx'
+    };
+  }
+
+  return memory;
+}
+
+// Resolve the Object column of a placement or entry line: "main.o [1]" is an object in directory [1],
+// "exit.o [2]" a member of library [2]; linker-generated content ("- Linker created -") has no file
+function resolveObject(object: string, references: Record<string, string>) {
+  const match = object.match(/^(\S+) \[(\d+)\]$/);
+  if (!match) {
+    return { inputPath: object || null, library: null, objectFile: null, filePath: null };
+  }
+
+  const reference = references[match[2]] || '';
+  const inputPath = /\.a$/i.test(reference)
+    ? `${reference}(${match[1]})`
+    : (reference ? `${reference}\\${match[1]}` : match[1]);
+  const { library, objectFile } = parseInputPath(inputPath);
+
+  return {
+    inputPath,
+    library,
+    objectFile,
+    filePath: library ? `${library}(${objectFile})` : objectFile
+  };
+}
+
+// Parse the ENTRY LIST and attach sized entries to the section that contains them.
+// Code entries carry the Thumb bit in their address, which is cleared
+function attachEntries(content: string, sections: ParsedSection[]): void {
+  // Long names are printed alone, with the address on the next line
+  const lines = getBlock(content, 'ENTRY LIST').split('\n');
+  const entryRegex = /^(\S+)?\s+0x([0-9a-fA-F']+)\s+(?:0x([0-9a-fA-F']+)|--)\s+(Code|Data)?\s*(Gb|Lc|Wk)?\s+(.*?)\s*$/;
+  let pendingName: string | null = null;
+
+  lines.forEach(line => {
+    const match = line.match(entryRegex);
+    if (!match) {
+      pendingName = /^\S+$/.test(line.trim()) && !/^-+$/.test(line.trim()) ? line.trim() : null;
+      return;
+    }
+
+    const name = match[1] || pendingName;
+    pendingName = null;
+    if (!name || !match[3]) {
+      return;
+    }
+
+    const size = parseIarHex(match[3]);
+    let address = parseIarHex(match[2]);
+    if (match[4] === 'Code') {
+      address &= ~1;
+    }
+
+    const section = findContainingSection(sections, address, match[6].replace(/ \[\d+\]$/, ''));
+    if (section) {
+      section.symbols.push({ name, address: formatAddress(address), size });
+    }
+  });
+}
+
+// Parse IAR EWARM (ILINK) map file content into the same shape as the GNU ld parser.
+// Sections come from the PLACEMENT SUMMARY, symbols from the ENTRY LIST
+export function parseIarMap(content: string): ParsedAnalysis {
+  const result: ParsedAnalysis = {
+    format: 'iar',
+    memory: {},
+    outputSections: [],
+    sections: [],
+    symbols: [],
+    padding: null,
+    discarded: null,
+    commonSymbols: null,
+    crossReferences: null,
+    archiveMembers: null,
+    symbolAssignments: null,
+    reservations: null
+  };
+
+  // Maps written on Windows have CRLF line endings
+  const text = content.replace(/\r/g, '');
+  const placementBlock = getBlock(text, 'PLACEMENT SUMMARY');
+  const references = parseReferences(text);
+  result.memory = parsePlacementRegions(placementBlock);
+
+  // Placement blocks ("P1":, "P2", part 1 of 3:) list their entries in address order;
+  // consecutive entries with the same section name form one output section
+  const outputSections: ParsedOutputSection[] = [];
+  const sections: ParsedSection[] = [];
+  let currentOutput: ParsedOutputSection | null = null;
+
+  placementBlock.split('\n').forEach(line => {
+    if (/^"[^"]+"(, part \d+ of \d+)?:/.test(line)) {
+      currentOutput = null;
+      return;
+    }
+
+    const match = line.match(ENTRY_LINE_REGEX);
+    if (!match) {
+      return;
+    }
+
+    const name = match[1];
+    const address = parseIarHex(match[3]);
+    const size = parseIarHex(match[4]);
+    if (size === 0) {
+      return;
+    }
+
+    let output: ParsedOutputSection | null = currentOutput;
+    if (!output || output.name !== name) {
+      output = {
+        name,
+        address: formatAddress(address),
+        size: 0,
+        region: findRegion(result.memory, formatAddress(address)),
+        loadAddress: null,
+        loadRegion: null,
+        fillEntries: [],
+        fill: 0,
+        padding: 0,
+        inputSections: []
+      };
+      currentOutput = output;
+      outputSections.push(output);
+    }
+    output.size = address + size - parseInt(output.address, 16);
+
+    const { inputPath, library, objectFile, filePath } = resolveObject(match[5], references);
+    const section: ParsedSection = {
+      name,
+      address: formatAddress(address),
+      size,
+      filePath,
+      library,
+      objectFile,
+      inputPath,
+      outputSection: name,
+      region: output.region,
+      loadAddress: null,
+      loadRegion: null,
+      symbols: []
+    };
+    output.inputSections.push(section);
+    sections.push(section);
+  });
+
+  outputSections.forEach(computePadding);
+  result.padding = summarizePadding(outputSections);
+
+  attachEntries(text, sections);
+  result.symbols = collectSymbols(sections);
+
+  result.outputSections = outputSections;
+  result.sections = sections.sort((a, b) => b.size - a.size);
+
+  return result;
+}
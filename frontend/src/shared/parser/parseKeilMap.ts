@@ -0,0 +1,298 @@
+// Keil MDK / armlink (Arm Compiler 5 and 6) map parser
+import { findRegion } from '../utils/memoryRegions';
+import {
+  formatAddress,
+  findContainingSection,
+  parseInputPath,
+  computePadding,
+  summarizeDiscarded,
+  summarizePadding,
+  collectSymbols
+} from './mapUtils';
+import type {
+  DiscardedSection,
+  DiscardedSummary,
+  ParsedAnalysis,
+  ParsedMemory,
+  ParsedOutputSection,
+  ParsedSection,
+} from '../types';
+
+type ComponentRow = {
+  name: string;
+  code: number;
+  roData: number;
+  rwData: number;
+  ziData: number;
+}
+
+// Memory map row:  0x08000188   0x08000188   0x00000008   Code   RO   17  * !!!main   c_w.l(__main.o)
+// Zero-initialized rows have no load address ("-"); padding rows end after the type: PAD
+const MAP_ROW_REGEX = /^\s+0x([0-9a-fA-F]+)\s+(?:0x([0-9a-fA-F]+)|-)\s+0x([0-9a-fA-F]+)\s+(Code|Data|Zero|Ven|PAD)(?:\s+(RO|RW)\s+\d+\s+(?:\*\s+)?(\S+)\s+(\S.*?))?\s*$/;
+
+// Symbol table row:  HAL_Init   0x0800053d   Thumb Code   40  stm32f4xx_hal.o(.text.HAL_Init)
+const SYMBOL_ROW_REGEX = /^\s+(\S+)\s+0x([0-9a-fA-F]+)\s+(?:Ov\s+)?(Thumb Code|ARM Code|Data|Number|Section)\s+(\d+)\s+(\S+?)(?:\(([^()]+)\))?\s*$/;
+
+// Image component sizes row:  Code  (inc. data)  RO Data  RW Data  ZI Data  Debug  Name
+const COMPONENT_ROW_REGEX = /^\s+(\d+)\s+(\d+)\s+(\d+)\s+(\d+)\s+(\d+)\s+(\d+)\s+(\S.*?)\s*$/;
+
+// Get the text of a block between the "=====" rulers, found by its title line
+function getBlock(content: string, title: string): string {
+  return content.split(/^={20,}\s*$/m).find(block => block.trim().startsWith(title)) || '';
+}
+
+// Parse the "Memory Map of the image": each execution region becomes a memory region and an
+// output section, each row with a size an input section
+function parseMemoryMap(mapBlock: string) {
+  const memory: ParsedMemory = {};
+  const outputSections: ParsedOutputSection[] = [];
+  const sections: ParsedSection[] = [];
+  let loadRegionName: string | null = null;
+  let currentOutput: ParsedOutputSection | null = null;
+
+  mapBlock.split('\n').forEach(line => {
+    const loadMatch = line.match(/^\s+Load Region (\S+) \(/);
+    if (loadMatch) {
+      loadRegionName = loadMatch[1];
+      return;
+    }
+
+    // Execution Region RW_IRAM1 (Exec base: 0x20000000, Load base: 0x08001094, Size: 0x000006d8, Max: 0x00020000, ABSOLUTE)
+    const regionMatch = line.match(/^\s+Execution Region (\S+) \(Exec base: 0x([0-9a-fA-F]+), Load base: 0x([0-9a-fA-F]+), Size: 0x([0-9a-fA-F]+), Max: 0x([0-9a-fA-F]+)/);
+    if (regionMatch) {
+      const name = regionMatch[1];
+      const lengthBytes = parseInt(regionMatch[5], 16);
+
+      memory[name] = {
+        origin: formatAddress(parseInt(regionMatch[2], 16)),
+        length: '0x' + lengthBytes.toString(16),
+        lengthBytes,
+        attributes: 'rx', // Becomes writable once an RW row is seen
+        loadRegion: loadRegionName
+      };
+
+      currentOutput = {
+        name,
+        address: memory[name].origin,
+        size: parseInt(regionMatch[4], 16),
+        region: name,
+        loadAddress: null,
+        loadRegion: null,
+        rawLoadBase: parseInt(regionMatch[3], 16),
+        fillEntries: [],
+        fill: 0,
+        padding: 0,
+        inputSections: []
+      };
+      outputSections.push(currentOutput);
+      return;
+    }
+
+    const output: ParsedOutputSection | null = currentOutput;
+    const rowMatch = line.match(MAP_ROW_REGEX);
+    if (!rowMatch || !output) {
+      return;
+    }
+
+    const address = formatAddress(parseInt(rowMatch[1], 16));
+    const size = parseInt(rowMatch[3], 16);
+
+    if (rowMatch[4] === 'PAD') {
+      output.fillEntries.push({ address, size });
+      output.fill += size;
+      return;
+    }
+
+    if (rowMatch[5] === 'RW') {
+      memory[output.name].attributes = 'rwx';
+    }
+    if (size === 0) {
+      return;
+    }
+
+    const { inputPath, library, objectFile } = parseInputPath(rowMatch[7]);
+    const loadAddress = rowMatch[2] && rowMatch[2] !== rowMatch[1]
+      ? formatAddress(parseInt(rowMatch[2], 16))
+      : null;
+
+    const section: ParsedSection = {
+      name: rowMatch[6],
+      address,
+      size,
+      filePath: library ? `${library}(${objectFile})` : objectFile,
+      library,
+      objectFile,
+      inputPath,
+      outputSection: output.name,
+      region: output.name,
+      loadAddress,
+      loadRegion: null,
+      symbols: []
+    };
+    output.inputSections.push(section);
+    sections.push(section);
+  });
+
+  // Load regions resolve once every execution region is known
+  outputSections.forEach(output => {
+    const loaded = output.inputSections.some(section => section.loadAddress);
+    output.loadAddress = loaded ? formatAddress(output.rawLoadBase!) : null;
+    output.loadRegion = loaded ? findRegion(memory, output.loadAddress) : null;
+    delete output.rawLoadBase;
+
+    output.inputSections.forEach(section => {
+      section.loadRegion = section.loadAddress ? findRegion(memory, section.loadAddress) : null;
+    });
+  });
+
+  return { memory, outputSections, sections };
+}
+
+// Parse the object and library member rows of "Image component sizes"
+function parseComponentSizes(sizesBlock: string): ComponentRow[] {
+  const rows: ComponentRow[] = [];
+  let table: string | null = null;
+
+  sizesBlock.split('\n').forEach(line => {
+    const headerMatch = line.match(/Debug\s+(Object Name|Library Member Name|Library Name)\s*$/);
+    if (headerMatch) {
+      table = headerMatch[1];
+      return;
+    }
+
+    const rowMatch = line.match(COMPONENT_ROW_REGEX);
+    // Library Name rows repeat the member rows; totals and "(incl. Padding)" lines are skipped
+    if (!rowMatch || table === 'Library Name' || /Totals$|^\(/.test(rowMatch[7])) {
+      return;
+    }
+
+    rows.push({
+      name: rowMatch[7],
+      code: parseInt(rowMatch[1], 10),
+      roData: parseInt(rowMatch[3], 10),
+      rwData: parseInt(rowMatch[4], 10),
+      ziData: parseInt(rowMatch[5], 10)
+    });
+  });
+
+  return rows;
+}
+
+// Stand-in sections from the component size rows, for maps linked without --map. Code and RO data
+// go to the first read-only execution region, RW and ZI data to the first writable one
+function sectionsFromComponentSizes(rows: ComponentRow[], memory: ParsedMemory): ParsedSection[] {
+  const regionNames = Object.keys(memory);
+  const romRegion = regionNames.find(name => !memory[name].attributes!.includes('w')) || 'ROM';
+  const ramRegion = regionNames.find(name => memory[name].attributes!.includes('w')) || 'RAM';
+  const columns: { key: 'code' | 'roData' | 'rwData' | 'ziData'; name: string; region: string; loadRegion: string | null }[] = [
+    { key: 'code', name: 'Code', region: romRegion, loadRegion: null },
+    { key: 'roData', name: 'RO Data', region: romRegion, loadRegion: null },
+    { key: 'rwData', name: 'RW Data', region: ramRegion, loadRegion: romRegion },
+    { key: 'ziData', name: 'ZI Data', region: ramRegion, loadRegion: null },
+  ];
+
+  return rows.flatMap(row => columns
+    .filter(column => row[column.key] > 0)
+    .map(column => ({
+      name: column.name,
+      address: null,
+      size: row[column.key],
+      filePath: row.name,
+      library: null,
+      objectFile: row.name,
+      inputPath: row.name,
+      outputSection: column.name,
+      region: column.region,
+      loadAddress: null,
+      loadRegion: column.loadRegion,
+      symbols: []
+    })));
+}
+
+// Parse "Removing Unused input sections from the image" - sections removed by --remove
+function parseRemovedSections(removedBlock: string): DiscardedSummary {
+  const sections: DiscardedSection[] = [];
+
+  // Removing stm32f4xx_hal.o(.text.HAL_DeInit), (44 bytes).
+  for (const match of removedBlock.matchAll(/^\s+Removing (.+)\(([^()]+)\), \((\d+) bytes\)\./gm)) {
+    const size = parseInt(match[3], 10);
+    if (size === 0) {
+      continue;
+    }
+
+    const { inputPath, library, objectFile } = parseInputPath(match[1]);
+    sections.push({
+      name: match[2],
+      size,
+      filePath: library ? `${library}(${objectFile})` : objectFile,
+      library,
+      objectFile,
+      inputPath
+    });
+  }
+
+  return summarizeDiscarded(sections);
+}
+
+// Attach sized code and data symbols from the "Image Symbol Table" to their sections.
+// Thumb code symbols have bit 0 set in their value, which is cleared
+function attachSymbols(symbolBlock: string, sections: ParsedSection[]): void {
+  symbolBlock.split('\n').forEach(line => {
+    const match = line.match(SYMBOL_ROW_REGEX);
+    if (!match || match[3] === 'Number' || match[3] === 'Section' || match[4] === '0') {
+      return;
+    }
+
+    let address = parseInt(match[2], 16);
+    if (match[3] === 'Thumb Code') {
+      address &= ~1;
+    }
+
+    // Library members are listed by member name only: __main.o(!!!main)
+    const section = findContainingSection(sections, address, match[5]);
+    if (section) {
+      section.symbols.push({ name: match[1], address: formatAddress(address), size: parseInt(match[4], 10) });
+    }
+  });
+}
+
+// Parse Keil MDK / armlink map file content into the same shape as the GNU ld parser.
+// Execution regions take the place of both memory regions and output sections
+export function parseKeilMap(content: string): ParsedAnalysis {
+  const result: ParsedAnalysis = {
+    format: 'armlink',
+    memory: {},
+    outputSections: [],
+    sections: [],
+    symbols: [],
+    padding: null,
+    discarded: null,
+    commonSymbols: null,
+    crossReferences: null,
+    archiveMembers: null,
+    symbolAssignments: null,
+    reservations: null
+  };
+
+  // uVision writes CRLF line endings
+  const text = content.replace(/\r/g, '');
+  const { memory, outputSections, sections } = parseMemoryMap(getBlock(text, 'Memory Map of the image'));
+  result.memory = memory;
+
+  if (sections.length === 0) {
+    sections.push(...sectionsFromComponentSizes(parseComponentSizes(getBlock(text, 'Image component sizes')), memory));
+  }
+
+  outputSections.forEach(computePadding);
+  result.padding = summarizePadding(outputSections);
+  const discarded = parseRemovedSections(getBlock(text, 'Removing Unused input sections'));
+  result.discarded = discarded;
+
+  attachSymbols(getBlock(text, 'Image Symbol Table'), sections.filter(section => section.address));
+  result.symbols = collectSymbols(sections);
+
+  result.outputSections = outputSections;
+  result.sections = sections.sort((a, b) => b.size - a.size);
+
+  return result;
+}
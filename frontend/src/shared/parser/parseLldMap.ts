@@ -0,0 +1,158 @@
+// LLVM lld map parser
+import { findRegion, isAllocatedSection, hasLoadImage } from '../utils/memoryRegions';
+import {
+  formatAddress,
+  parseInputPath,
+  inferRegions,
+  addStandInSections,
+  computePadding,
+  assignLoadRegions,
+  summarizePadding,
+  collectSymbols
+} from './mapUtils';
+import type { AddressRange } from './mapUtils';
+import type { ParsedAnalysis, ParsedOutputSection, ParsedSection } from '../types';
+
+// Address ranges of the output sections, for inferring memory regions; lld maps do not print the
+// MEMORY command. Run-time copies of loaded data and sections without a load image are RAM
+export function collectRanges(outputSections: ParsedOutputSection[]): AddressRange[] {
+  return outputSections
+    .filter(output => isAllocatedSection(output.name))
+    .flatMap(output => {
+      const vma = parseInt(output.address, 16);
+      const lma = output.rawLoadAddress;
+      const copied = lma !== undefined && lma !== vma && hasLoadImage(output.name);
+
+      const ranges = [{ start: vma, size: output.size, writable: copied || !hasLoadImage(output.name) }];
+      if (copied) {
+        ranges.push({ start: lma, size: output.size, writable: false });
+      }
+      return ranges;
+    });
+}
+
+// Parse LLVM lld map file content (-Map) into the same shape as the GNU ld parser.
+// The indent of the last column tells output sections (0), input sections (8) and symbols (16) apart;
+// maps from lld before version 9 have a single Address column and no LMA
+export function parseLldMap(content: string): ParsedAnalysis {
+  const result: ParsedAnalysis = {
+    format: 'lld',
+    memory: {},
+    outputSections: [],
+    sections: [],
+    symbols: [],
+    padding: null,
+    discarded: null,
+    commonSymbols: null,
+    crossReferences: null,
+    archiveMembers: null,
+    symbolAssignments: null,
+    reservations: null
+  };
+
+  const lines = content.replace(/\r/g, '').split('\n');
+  const headerIndex = lines.findIndex(line => /^\s*(VMA\s+LMA|Address)\s+Size\s+Align\s+Out\s+In\s+Symbol/.test(line));
+  const hasLma = headerIndex >= 0 && /\bLMA\b/.test(lines[headerIndex]);
+  const rowRegex = hasLma
+    ? /^\s*([0-9a-fA-F]+)\s+([0-9a-fA-F]+)\s+([0-9a-fA-F]+)\s+\d+ (.*)$/
+    : /^\s*([0-9a-fA-F]+)()\s+([0-9a-fA-F]+)\s+\d+ (.*)$/;
+
+  const outputSections: ParsedOutputSection[] = [];
+  const sections: ParsedSection[] = [];
+  let currentOutput: ParsedOutputSection | null = null;
+  let currentSection: ParsedSection | null = null;
+
+  lines.slice(headerIndex + 1).forEach(line => {
+    const match = line.match(rowRegex);
+    if (!match) {
+      return;
+    }
+
+    const address = formatAddress(parseInt(match[1], 16));
+    const loadAddress = hasLma ? parseInt(match[2], 16) : undefined;
+    const size = parseInt(match[3], 16);
+    const indent = match[4].match(/^ */)![0].length;
+    const text = match[4].trim();
+
+    // Linker script commands: "_sdata = .", ". = ALIGN ( 8 )", "PROVIDE ( end = . )"
+    const isCommand = /(^|\s)=\s|^(PROVIDE|ASSERT)\b/.test(text);
+
+    const output: ParsedOutputSection | null = currentOutput;
+    const section: ParsedSection | null = currentSection;
+    if (indent >= 16) {
+      if (section && size > 0) {
+        section.symbols.push({ name: text, address, size });
+      }
+      return;
+    }
+
+    if (indent >= 8) {
+      currentSection = null;
+      const inputMatch = text.match(/^(.*):\(([^()]+)\)$/);
+      if (isCommand || !inputMatch || !output || size === 0) {
+        return;
+      }
+
+      // Linker-generated content has no file: <internal>:(.symtab)
+      const { inputPath, library, objectFile } = inputMatch[1].startsWith('<')
+        ? { inputPath: inputMatch[1], library: null, objectFile: null }
+        : parseInputPath(inputMatch[1]);
+
+      const input: ParsedSection = {
+        name: inputMatch[2],
+        address,
+        size,
+        filePath: library ? `${library}(${objectFile})` : objectFile,
+        library,
+        objectFile,
+        inputPath,
+        outputSection: output.name,
+        region: null,
+        symbols: []
+      };
+      currentSection = input;
+      output.inputSections.push(input);
+      sections.push(input);
+      return;
+    }
+
+    currentSection = null;
+    currentOutput = null;
+    if (isCommand || size === 0) {
+      return;
+    }
+
+    currentOutput = {
+      name: text,
+      address,
+      size,
+      region: null,
+      rawLoadAddress: loadAddress,
+      fillEntries: [],
+      fill: 0,
+      padding: 0,
+      inputSections: []
+    };
+    outputSections.push(currentOutput);
+  });
+
+  result.memory = inferRegions(collectRanges(outputSections));
+  outputSections.forEach(output => {
+    output.region = isAllocatedSection(output.name) ? findRegion(result.memory, output.address) : null;
+    output.inputSections.forEach(section => {
+      section.region = output.region;
+    });
+  });
+
+  addStandInSections(outputSections, sections);
+  outputSections.forEach(computePadding);
+  assignLoadRegions(outputSections, result.memory);
+
+  result.padding = summarizePadding(outputSections);
+  result.symbols = collectSymbols(sections);
+
+  result.outputSections = outputSections;
+  result.sections = sections.sort((a, b) => b.size - a.size);
+
+  return result;
+}
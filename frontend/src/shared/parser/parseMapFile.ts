@@ -0,0 +1,575 @@
+// GNU ld map parser
+import { findRegion, isAllocatedSection } from '../utils/memoryRegions';
+import {
+  parseInputPath,
+  addStandInSections,
+  computePadding,
+  assignLoadRegions,
+  inferSymbolSizes,
+  summarizeDiscarded,
+  summarizePadding,
+  applyCommonSymbols,
+  sizeArchiveMembers,
+  findReservations,
+  collectSymbols
+} from './mapUtils';
+import type { LocationIncrement } from './mapUtils';
+import { isDialectLine, detectGnuDialect, applyDialectToMemory, applyDialectToSections } from './gnuDialects';
+import type {
+  ArchiveMember,
+  CommonSymbol,
+  CrossReference,
+  DiscardedSection,
+  DiscardedSummary,
+  ParsedAnalysis,
+  ParsedMemory,
+  ParsedOutputSection,
+  ParsedSection,
+  SymbolAssignment,
+} from '../types';
+
+export type LineParser = {
+  push: (line: string) => void;
+  finish: () => ParsedAnalysis;
+}
+
+// Long section names are printed alone, with address, size and file on the next line:
+//  .text.HAL_RCC_OscConfig
+//                 0x08001234      0x3a4 build/rcc.o
+const WRAPPED_NAME_REGEX = /^\s*(\.\S+)\s*$/;
+const WRAPPED_REST_REGEX = /^\s+0x[0-9a-fA-F]+\s+0x[0-9a-fA-F]+/;
+
+// Match lines like: FLASH            0x0000000008000000 0x0000000000100000 xr
+// Region names may contain digits (RAM_D2, DTCMRAM1); the "*default*" region is skipped
+// Attributes may carry negations: "rw !x"
+const MEMORY_LINE_REGEX = /^([A-Za-z_]\w*)\s+0x([0-9a-fA-F]+)\s+0x([0-9a-fA-F]+)(?:[ \t]+(\S[^\n]*?))?[ \t]*$/;
+
+// Linker script assignments, with the resolved value first:
+//                 0x20020000                _estack = (ORIGIN (RAM) + LENGTH (RAM))
+//                 0x200001e0                PROVIDE (_end = .)
+// Unused PROVIDEs are printed without a value ("[!provide]") and do not match
+const ASSIGNMENT_REGEX = /^\s+0x([0-9a-fA-F]+)\s+(PROVIDE(?:_HIDDEN)?\s*\()?\s*([A-Za-z_.$][\w.$]*)\s*(\+=|-=|=)\s*(.*?)\s*$/;
+
+// Location counter moved on by a size symbol: ". = (. + _Min_Heap_Size)"
+const INCREMENT_REGEX = /^\(?\.\s*\+\s*([A-Za-z_$][\w.$]*)\)?$/;
+
+// Symbol names are padded to the first 50 columns of the cross reference table, files start after them.
+// Longer names are followed by a single space and the defining file on the same line (ldcref.c)
+const CREF_FILE_COLUMN = 50;
+
+// Join the lines of wrapped section entries before handing them on, one line at a time.
+// A name line alone is held back until the next line shows whether it continues there
+function createLineJoiner(handleLine: (line: string) => void) {
+  let held: string | null = null;
+
+  return {
+    push(line: string) {
+      if (held !== null) {
+        const name = held;
+        held = null;
+        if (WRAPPED_REST_REGEX.test(line)) {
+          handleLine(name.trimEnd() + line);
+          return;
+        }
+        handleLine(name);
+      }
+      if (WRAPPED_NAME_REGEX.test(line)) {
+        held = line;
+        return;
+      }
+      handleLine(line);
+    },
+    flush() {
+      if (held !== null) {
+        handleLine(held);
+        held = null;
+      }
+    }
+  };
+}
+
+// Reader for the "Discarded input sections" block - sections removed by --gc-sections
+function createDiscardedReader() {
+  const sections: DiscardedSection[] = [];
+  let state: 'before' | 'inside' | 'after' = 'before';
+
+  return {
+    push(line: string) {
+      if (state === 'before') {
+        if (line.startsWith('Discarded input sections')) {
+          state = 'inside';
+        }
+        return;
+      }
+      // The block ends at the next top-level heading
+      if (state === 'after' || /^(Memory Configuration|Linker script and memory map)/.test(line)) {
+        state = 'after';
+        return;
+      }
+
+      const sectionMatch = line.match(/^\s+(\.\S+|COMMON)\s+0x[0-9a-fA-F]+\s+0x([0-9a-fA-F]+)(?:\s+(.+))?/);
+      if (!sectionMatch || parseInt(sectionMatch[2], 16) === 0) {
+        return;
+      }
+
+      const { inputPath, library, objectFile } = parseInputPath(sectionMatch[3] ? sectionMatch[3].trim() : '');
+      sections.push({
+        name: sectionMatch[1],
+        size: parseInt(sectionMatch[2], 16),
+        filePath: library ? `${library}(${objectFile})` : objectFile,
+        library,
+        objectFile,
+        inputPath
+      });
+    },
+    finish(): DiscardedSummary {
+      return summarizeDiscarded(sections);
+    }
+  };
+}
+
+// Reader for the "Archive member included to satisfy reference by file (symbol)" block: each
+// archive member the linker pulled in, with the file and symbol whose reference caused it.
+// Members with long names are printed alone, with the reference on the next line:
+// /opt/gcc/arm-none-eabi/lib/libc_nano.a(libc_a-printf.o)
+//                               build/Core/Src/main.o (printf)
+function createArchiveMemberReader() {
+  const members: ArchiveMember[] = [];
+  let state: 'before' | 'inside' | 'after' = 'before';
+  let heldMember: string | null = null;
+
+  return {
+    push(line: string) {
+      if (state === 'before') {
+        // Older binutils: "Archive member included because of file (symbol)"
+        if (line.startsWith('Archive member included')) {
+          state = 'inside';
+        }
+        return;
+      }
+      // The block ends at the next top-level heading
+      if (state === 'after' || /^(Allocating common symbols|Discarded input sections|Memory Configuration|Linker script and memory map)/.test(line)) {
+        state = 'after';
+        return;
+      }
+
+      // The referencing file is left out for symbols undefined on the command line (-u)
+      const referenceMatch = line.match(/^(\S+)?\s+(?:(\S+) )?\((.+)\)\s*$/);
+      const member = referenceMatch ? referenceMatch[1] || heldMember : null;
+      if (referenceMatch && member) {
+        const { inputPath, library, objectFile } = parseInputPath(member);
+        const includedBy = parseInputPath(referenceMatch[2]);
+        members.push({
+          filePath: library ? `${library}(${objectFile})` : objectFile,
+          library,
+          objectFile,
+          inputPath,
+          size: 0,
+          includedBy: includedBy.library ? `${includedBy.library}(${includedBy.objectFile})` : includedBy.objectFile,
+          includedByPath: includedBy.inputPath,
+          symbol: referenceMatch[3]
+        });
+        heldMember = null;
+        return;
+      }
+      const memberMatch = line.match(/^(\S+)\s*$/);
+      heldMember = memberMatch ? memberMatch[1] : null;
+    },
+    finish(): ArchiveMember[] | null {
+      return state === 'before' ? null : members;
+    }
+  };
+}
+
+// Reader for the "Allocating common symbols" block - uninitialized globals (-fcommon) the linker
+// allocates itself. Long names are printed alone, with size and file on the next line:
+// rx_buffer           0x100             build/Core/Src/usart.o
+function createCommonReader() {
+  const symbols: CommonSymbol[] = [];
+  let state: 'before' | 'inside' | 'after' = 'before';
+  let heldName: string | null = null;
+
+  return {
+    push(line: string) {
+      if (state === 'before') {
+        if (line.startsWith('Allocating common symbols')) {
+          state = 'inside';
+        }
+        return;
+      }
+      // The block ends at the next top-level heading
+      if (state === 'after' || /^(Discarded input sections|Memory Configuration|Linker script and memory map)/.test(line)) {
+        state = 'after';
+        return;
+      }
+
+      const symbolMatch = line.match(/^(\S+)?\s+0x([0-9a-fA-F]+)\s+(\S.*?)\s*$/);
+      const name = symbolMatch ? symbolMatch[1] || heldName : null;
+      if (symbolMatch && name) {
+        const { inputPath, library, objectFile } = parseInputPath(symbolMatch[3]);
+        symbols.push({
+          name,
+          size: parseInt(symbolMatch[2], 16),
+          filePath: library ? `${library}(${objectFile})` : objectFile,
+          library,
+          objectFile,
+          inputPath,
+          address: null,
+          region: null
+        });
+        heldName = null;
+        return;
+      }
+      const nameMatch = line.match(/^(\S+)\s*$/);
+      heldName = nameMatch ? nameMatch[1] : null;
+    },
+    finish(): CommonSymbol[] | null {
+      return state === 'before' ? null : symbols.sort((a, b) => b.size - a.size);
+    }
+  };
+}
+
+// Reader for the "Cross Reference Table" printed with --cref, which runs to the end of the map.
+// Each symbol is followed by the files that mention it: the defining file first, then the files referencing it
+function createCrossReferenceReader() {
+  const references: CrossReference[] = [];
+  let state: 'before' | 'inside' = 'before';
+  let current: CrossReference | null = null;
+
+  const addFile = (reference: CrossReference, file: string) => {
+    const { library, objectFile } = parseInputPath(file);
+    // Never null for a non-empty file
+    const filePath = (library ? `${library}(${objectFile})` : objectFile) as string;
+    if (reference.definedIn === null) {
+      reference.definedIn = filePath;
+    } else {
+      reference.referencedBy.push(filePath);
+    }
+  };
+
+  return {
+    push(line: string) {
+      if (state === 'before') {
+        if (line.startsWith('Cross Reference Table')) {
+          state = 'inside';
+        }
+        return;
+      }
+
+      const text = line.trimEnd();
+      if (!text || /^Symbol\s+File$/.test(text)) {
+        return;
+      }
+      // Further files of the current symbol
+      if (/^\s/.test(text)) {
+        if (current) {
+          addFile(current, text.trim());
+        }
+        return;
+      }
+
+      const padded = text.length > CREF_FILE_COLUMN && text[CREF_FILE_COLUMN - 1] === ' ';
+      const split = padded ? CREF_FILE_COLUMN : text.search(/\s/);
+      current = {
+        symbol: split === -1 ? text : text.slice(0, split).trim(),
+        definedIn: null,
+        referencedBy: []
+      };
+      references.push(current);
+      if (split !== -1) {
+        addFile(current, text.slice(split).trim());
+      }
+    },
+    finish(): CrossReference[] | null {
+      return state === 'before' ? null : references;
+    }
+  };
+}
+
+// Reader for the "Memory Configuration" block, which runs from the first non-blank line after
+// the heading to the next empty line or the memory map
+function createMemoryReader() {
+  const memory: ParsedMemory = {};
+  let lines: string[] = [];
+  let state: 'before' | 'heading' | 'inside' | 'after' = 'before';
+
+  return {
+    push(line: string) {
+      if (state === 'before') {
+        if (line.includes('Memory Configuration')) {
+          state = 'heading';
+        }
+        return;
+      }
+      if (state === 'heading' && !line.trim()) {
+        return;
+      }
+      if (state === 'heading' || state === 'inside') {
+        if ((state === 'inside' && line === '') || line.startsWith('Linker script')) {
+          // The block is only complete once it is terminated
+          lines.forEach(blockLine => {
+            const match = blockLine.match(MEMORY_LINE_REGEX);
+            if (match) {
+              memory[match[1]] = {
+                origin: '0x' + match[2],
+                length: '0x' + match[3],
+                lengthBytes: parseInt(match[3], 16),
+                attributes: match[4] || null
+              };
+            }
+          });
+          lines = [];
+          state = 'after';
+          return;
+        }
+        lines.push(line);
+        state = 'inside';
+      }
+    },
+    finish(): ParsedMemory {
+      return memory;
+    }
+  };
+}
+
+// Line-by-line GNU ld map parser, for map files too large to hold as one string. Lines are fed in
+// file order; finish() returns the same result as parseGnuMap of the whole text. Memory regions are
+// only known once the map is read, so regions are assigned to sections at the end
+export function createGnuMapParser(): LineParser {
+  const result: ParsedAnalysis = {
+    format: 'gnu-ld',
+    dialect: null,
+    memory: {},
+    outputSections: [],
+    sections: [],
+    symbols: [],
+    padding: null,
+    discarded: null,
+    commonSymbols: null,
+    crossReferences: null,
+    archiveMembers: null,
+    symbolAssignments: null,
+    reservations: null
+  };
+
+  const memoryReader = createMemoryReader();
+  const discardedReader = createDiscardedReader();
+  const commonReader = createCommonReader();
+  const crossReferenceReader = createCrossReferenceReader();
+  const archiveMemberReader = createArchiveMemberReader();
+  const dialectLines: string[] = [];
+
+  // Output sections start in column 0, their input sections are indented:
+  // .text           0x08000188     0x1dbc
+  //  .text.main     0x0800067c       0x6c build/Core/Src/main.o
+  let outputSections: ParsedOutputSection[] = [];
+  let sections: ParsedSection[] = [];
+  let currentOutput: ParsedOutputSection | null = null; // Output section that following input sections belong to
+  let currentSection: ParsedSection | null = null; // Input section that following symbol lines belong to
+  let symbolAssignments: SymbolAssignment[] = [];
+  let increments: LocationIncrement[] = []; // Location counter increments, for heap and stack reservations
+  // Blocks before the memory map (e.g. discarded input sections) use the same line layout,
+  // so anything read before its heading is dropped; maps without the heading are read whole
+  let mapStarted = false;
+  // The cross reference table (--cref) follows the memory map
+  let mapEnded = false;
+
+  const readMapLine = (line: string) => {
+    if (mapEnded || line.startsWith('Cross Reference Table')) {
+      mapEnded = true;
+      return;
+    }
+    if (!mapStarted && line.startsWith('Linker script and memory map')) {
+      mapStarted = true;
+      outputSections = [];
+      sections = [];
+      currentOutput = null;
+      currentSection = null;
+      symbolAssignments = [];
+      increments = [];
+    }
+
+    // Linker fill between input sections:  *fill*         0x0800079a        0x2
+    const fillMatch = line.match(/^\s+\*fill\*\s+0x([0-9a-fA-F]+)\s+0x([0-9a-fA-F]+)/);
+    if (fillMatch) {
+      currentSection = null;
+      if (currentOutput) {
+        const size = parseInt(fillMatch[2], 16);
+        currentOutput.fillEntries.push({ address: '0x' + fillMatch[1], size });
+        currentOutput.fill += size;
+      }
+      return;
+    }
+
+    // Pattern: [indent].section_name   0xaddress   0xsize   [optional_file_path]
+    const sectionMatch = line.match(/^(\s*)(\.\S+|COMMON)\s+0x([0-9a-fA-F]+)\s+0x([0-9a-fA-F]+)(?:\s+(.+))?/);
+
+    if (sectionMatch && !sectionMatch[1]) {
+      currentSection = null;
+      currentOutput = null;
+
+      if (parseInt(sectionMatch[4], 16) > 0) {
+        // Initialized data is loaded from elsewhere: .data  0x20000000  0x70 load address 0x08001fbc
+        const loadMatch = (sectionMatch[5] || '').match(/load address 0x([0-9a-fA-F]+)/);
+        currentOutput = {
+          name: sectionMatch[2],
+          address: '0x' + sectionMatch[3],
+          size: parseInt(sectionMatch[4], 16),
+          region: null,
+          rawLoadAddress: loadMatch ? parseInt(loadMatch[1], 16) : undefined,
+          fillEntries: [],
+          fill: 0,
+          padding: 0,
+          inputSections: []
+        };
+        outputSections.push(currentOutput);
+      }
+      return;
+    }
+
+    if (sectionMatch) {
+      const size = parseInt(sectionMatch[4], 16);
+      const { inputPath, library, objectFile } = parseInputPath(
+        sectionMatch[5] ? sectionMatch[5].trim() : ''
+      );
+
+      // Only include non-zero sized sections
+      if (size > 0) {
+        const output: ParsedOutputSection | null = currentOutput;
+        currentSection = {
+          name: sectionMatch[2],
+          address: '0x' + sectionMatch[3],
+          size,
+          // Short display name (e.g., "path/to/main.o" -> "main.o", archives keep "libhal.a(uart.o)")
+          filePath: library ? `${library}(${objectFile})` : objectFile,
+          library,
+          objectFile,
+          inputPath,
+          outputSection: output ? output.name : null,
+          region: null,
+          symbols: []
+        };
+        sections.push(currentSection);
+        if (output) {
+          output.inputSections.push(currentSection);
+        }
+      } else {
+        currentSection = null;
+      }
+      return;
+    }
+
+    const assignmentMatch = line.match(ASSIGNMENT_REGEX);
+    if (assignmentMatch) {
+      const provided = Boolean(assignmentMatch[2]);
+      // PROVIDE (_end = .) keeps its closing parenthesis on the expression
+      const expression = provided ? assignmentMatch[5].replace(/\s*\)$/, '') : assignmentMatch[5];
+      if (assignmentMatch[3] !== '.') {
+        symbolAssignments.push({
+          name: assignmentMatch[3],
+          value: '0x' + assignmentMatch[1],
+          expression,
+          provided,
+          outputSection: currentOutput ? currentOutput.name : null
+        });
+        return;
+      }
+
+      const incrementMatch = expression.match(INCREMENT_REGEX);
+      const symbol = assignmentMatch[4] === '+=' ? expression : incrementMatch && incrementMatch[1];
+      if (symbol) {
+        increments.push({ address: parseInt(assignmentMatch[1], 16), symbol, output: currentOutput });
+      }
+      return;
+    }
+
+    // Symbol lines under an input section: 0x08001234                HAL_Init
+    // Assignments (". = ALIGN (0x4)", "_etext = .") are skipped
+    const symbolMatch = line.match(/^\s+0x([0-9a-fA-F]+)\s+([A-Za-z_.$][\w.$@]*)\s*$/);
+    const section: ParsedSection | null = currentSection;
+    if (symbolMatch && section) {
+      section.symbols.push({
+        name: symbolMatch[2],
+        address: '0x' + symbolMatch[1],
+        size: 0
+      });
+    } else if (!line.trim()) {
+      currentSection = null;
+    }
+  };
+
+  const joiner = createLineJoiner(line => {
+    discardedReader.push(line);
+    commonReader.push(line);
+    crossReferenceReader.push(line);
+    archiveMemberReader.push(line);
+    readMapLine(line);
+  });
+
+  return {
+    push(rawLine: string) {
+      // Maps written on Windows end their lines with CRLF
+      const line = rawLine.replace(/\r$/, '');
+      memoryReader.push(line);
+      if (isDialectLine(line)) {
+        dialectLines.push(line);
+      }
+      joiner.push(line);
+    },
+
+    finish() {
+      joiner.flush();
+
+      const dialectText = dialectLines.join('\n');
+      result.dialect = detectGnuDialect(dialectText);
+      result.memory = memoryReader.finish();
+      applyDialectToMemory(result.dialect, result.memory, dialectText);
+
+      outputSections.forEach(output => {
+        output.region = isAllocatedSection(output.name) ? findRegion(result.memory, output.address) : null;
+        output.inputSections.forEach(section => {
+          section.region = output.region;
+        });
+      });
+      sections
+        .filter(section => section.outputSection === null)
+        .forEach(section => {
+          section.region = findRegion(result.memory, section.address);
+        });
+
+      addStandInSections(outputSections, sections);
+
+      outputSections.forEach(computePadding);
+      assignLoadRegions(outputSections, result.memory);
+      sections.forEach(inferSymbolSizes);
+      applyDialectToSections(result.dialect, result.memory, outputSections);
+
+      result.padding = summarizePadding(outputSections);
+      const discarded = discardedReader.finish();
+      result.discarded = discarded;
+      result.commonSymbols = commonReader.finish();
+      result.crossReferences = crossReferenceReader.finish();
+      applyCommonSymbols(result.commonSymbols, sections);
+      result.archiveMembers = archiveMemberReader.finish();
+      sizeArchiveMembers(result.archiveMembers, sections);
+      result.symbolAssignments = symbolAssignments;
+      result.reservations = findReservations(symbolAssignments, increments, outputSections);
+
+      result.symbols = collectSymbols(sections);
+
+      // Output sections stay in address order, input sections are sorted by size descending
+      result.outputSections = outputSections;
+      result.sections = sections.sort((a, b) => b.size - a.size);
+
+      return result;
+    }
+  };
+}
+
+// Parse GNU ld map file content: memory configuration and sections with file paths.
+// AVR-GCC, XC16 and XC32 maps are GNU ld maps with toolchain specifics, handled by their dialect
+export function parseGnuMap(content: string): ParsedAnalysis {
+  const parser = createGnuMapParser();
+  content.split('\n').forEach(line => parser.push(line));
+  return parser.finish();
+}
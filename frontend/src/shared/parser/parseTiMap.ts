@@ -0,0 +1,260 @@
+// TI linker (Code Composer Studio) map parser
+import { findRegion } from '../utils/memoryRegions';
+import {
+  formatAddress,
+  findContainingSection,
+  parseInputPath,
+  addStandInSections,
+  computePadding,
+  assignLoadRegions,
+  inferSymbolSizes,
+  summarizePadding,
+  collectSymbols
+} from './mapUtils';
+import type { ParsedAnalysis, ParsedMemory, ParsedOutputSection, ParsedSection } from '../types';
+
+// Memory configuration row:  FLASH   0000c000   00003fe0  00000282  00003d5e  RWIX
+const MEMORY_ROW_REGEX = /^\s+([A-Za-z_]\w*)\s+([0-9a-fA-F]+)\s+([0-9a-fA-F]+)\s+([0-9a-fA-F]+)\s+([0-9a-fA-F]+)(?:\s+([RWIX]+))?/;
+
+// Output section row:  .text      0    0000c000    00000248     [UNINITIALIZED | RUN ADDR = 00000050 | DSECT]
+const OUTPUT_ROW_REGEX = /^(\S+)\s+(\d+)\s+([0-9a-fA-F]+)\s+([0-9a-fA-F]+)(?:\s+(\S.*?))?\s*$/;
+
+// Input section row:  0000c07c    0000005a     main.obj (.text:main)
+const INPUT_ROW_REGEX = /^\s+([0-9a-fA-F]+)\s+([0-9a-fA-F]+)\s+(\S.*?)\s*$/;
+
+// Symbol table row, with a page column on C2000:  0     003f4000  _main
+const SYMBOL_ROW_REGEX = /^(?:(\d+)\s+)?([0-9a-fA-F]+)\s+(\S+)\s*$/;
+
+// Sections that take no space in target memory: DSECT overlays an existing image, COPY sections only
+// exist in the object file
+const UNALLOCATED_ATTRIBUTES_REGEX = /\b(DSECT|COPY SECTION|NOLOAD SECTION)\b/;
+
+// Get the text of a block by its title line, up to the next title (two uppercase words starting
+// in column 0, e.g. "GLOBAL SYMBOLS:") or the end of the file
+function getBlock(content: string, title: string): string {
+  const match = content.match(new RegExp(`^${title}[^\\n]*\\n([\\s\\S]*?)(?=\\n[A-Z]+ [A-Z]+\\b|(?![\\s\\S]))`, 'm'));
+  return match ? match[1] : '';
+}
+
+// Parse the MEMORY CONFIGURATION table, keeping the linker's used and unused figures.
+// "RWIX" is TI's default when no attributes are given, so it is treated as unspecified
+function parseMemoryConfiguration(memoryBlock: string, unitBytes: number): ParsedMemory {
+  const memory: ParsedMemory = {};
+  let page: number | null = null;
+
+  memoryBlock.split('\n').forEach(line => {
+    const pageMatch = line.match(/^PAGE (\d+):/);
+    if (pageMatch) {
+      page = parseInt(pageMatch[1], 10);
+      return;
+    }
+
+    const match = line.match(MEMORY_ROW_REGEX);
+    if (!match) {
+      return;
+    }
+
+    const lengthBytes = parseInt(match[3], 16) * unitBytes;
+    const attributes = match[6] && match[6] !== 'RWIX' ? match[6].toLowerCase() : null;
+
+    // Pages of C2000 parts may reuse names (e.g. RAMM0 on both); later ones get the page as a suffix
+    const name = memory[match[1]] ? `${match[1]}_PAGE${page}` : match[1];
+    memory[name] = {
+      origin: formatAddress(parseInt(match[2], 16) * unitBytes),
+      length: '0x' + lengthBytes.toString(16),
+      lengthBytes,
+      attributes,
+      page,
+      used: parseInt(match[4], 16) * unitBytes,
+      unused: parseInt(match[5], 16) * unitBytes
+    };
+  });
+
+  return memory;
+}
+
+// Find the region containing an address on a given page; regions without a page match any page
+function findPageRegion(memory: ParsedMemory, page: number, address: string): string | null {
+  const pageMemory = Object.fromEntries(
+    Object.entries(memory).filter(([, region]) => region.page === null || region.page === page)
+  );
+  return findRegion(pageMemory, address);
+}
+
+// Resolve the input file of an input section row: "main.obj (.text:main)" is an object file,
+// "rts430_eabi.lib : boot.c.obj (.stack)" a library member; "(.common:tick_count)" has no file
+function parseInputColumn(text: string) {
+  const generatedMatch = text.match(/^\(([^()]+)\)/);
+  if (generatedMatch) {
+    return { name: generatedMatch[1], inputPath: null, library: null, objectFile: null };
+  }
+
+  const fileMatch = text.match(/^(?:(.+?) : )?(\S.*?) \(([^()]+)\)/);
+  if (!fileMatch) {
+    return null;
+  }
+
+  const { inputPath, library, objectFile } = parseInputPath(
+    fileMatch[1] ? `${fileMatch[1]}(${fileMatch[2]})` : fileMatch[2]
+  );
+  return { name: fileMatch[3], inputPath, library, objectFile };
+}
+
+// Parse the SECTION ALLOCATION MAP into output and input sections. Sections with a separate run
+// address print their load address as origin and "RUN ADDR = x" after it
+function parseSectionAllocation(allocationBlock: string, memory: ParsedMemory, unitBytes: number) {
+  const outputSections: ParsedOutputSection[] = [];
+  const sections: ParsedSection[] = [];
+  let currentOutput: ParsedOutputSection | null = null;
+  let runOffset = 0;
+  let pendingName: string | null = null;
+
+  allocationBlock.split('\n').forEach(line => {
+    // Long names are printed alone, the rest of the row follows on a line starting with "*"
+    if (pendingName && line.startsWith('*')) {
+      line = pendingName + line.slice(1);
+    }
+    pendingName = /^[^\s*-]\S*\s*$/.test(line) ? line.trim() : null;
+
+    const outputMatch = line.match(OUTPUT_ROW_REGEX);
+    if (outputMatch) {
+      currentOutput = null;
+      const size = parseInt(outputMatch[4], 16) * unitBytes;
+      if (size === 0) {
+        return;
+      }
+
+      const name = outputMatch[1];
+      const page = parseInt(outputMatch[2], 10);
+      const origin = parseInt(outputMatch[3], 16) * unitBytes;
+      const attributes = outputMatch[5] || '';
+      const runMatch = attributes.match(/RUN ADDR = ([0-9a-fA-F]+)/);
+      const address = runMatch ? parseInt(runMatch[1], 16) * unitBytes : origin;
+      runOffset = address - origin;
+
+      currentOutput = {
+        name,
+        address: formatAddress(address),
+        size,
+        region: UNALLOCATED_ATTRIBUTES_REGEX.test(attributes)
+          ? null
+          : findPageRegion(memory, page, formatAddress(address)),
+        rawLoadAddress: runMatch ? origin : undefined,
+        fillEntries: [],
+        fill: 0,
+        padding: 0,
+        inputSections: []
+      };
+      outputSections.push(currentOutput);
+      return;
+    }
+
+    const output: ParsedOutputSection | null = currentOutput;
+    const inputMatch = line.match(INPUT_ROW_REGEX);
+    if (!inputMatch || !output) {
+      return;
+    }
+
+    const address = formatAddress(parseInt(inputMatch[1], 16) * unitBytes + runOffset);
+    const size = parseInt(inputMatch[2], 16) * unitBytes;
+
+    // Alignment gaps and reserved space:  000003b2    0000004e     --HOLE--  [fill = 0]
+    if (inputMatch[3].startsWith('--HOLE--')) {
+      output.fillEntries.push({ address, size });
+      output.fill += size;
+      return;
+    }
+
+    const input = parseInputColumn(inputMatch[3]);
+    if (!input || size === 0) {
+      return;
+    }
+
+    const section: ParsedSection = {
+      name: input.name,
+      address,
+      size,
+      filePath: input.library ? `${input.library}(${input.objectFile})` : input.objectFile,
+      library: input.library,
+      objectFile: input.objectFile,
+      inputPath: input.inputPath,
+      outputSection: output.name,
+      region: output.region,
+      symbols: []
+    };
+    output.inputSections.push(section);
+    sections.push(section);
+  });
+
+  return { outputSections, sections };
+}
+
+// Attach the global symbols to the sections that contain them; TI maps list symbols without sizes,
+// so sizes are inferred from the next symbol
+function attachSymbols(content: string, sections: ParsedSection[], memory: ParsedMemory, unitBytes: number): void {
+  // Both symbol blocks hold the same symbols; the one sorted by address is preferred
+  const symbolBlock = getBlock(content, 'GLOBAL SYMBOLS: SORTED BY Symbol Address') ||
+    getBlock(content, 'GLOBAL SYMBOLS: SORTED ALPHABETICALLY');
+
+  symbolBlock.split('\n').forEach(line => {
+    const match = line.match(SYMBOL_ROW_REGEX);
+    if (!match) {
+      return;
+    }
+
+    const page = match[1] !== undefined ? parseInt(match[1], 10) : null;
+    const address = parseInt(match[2], 16) * unitBytes;
+    const candidates = page === null
+      ? sections
+      : sections.filter(section => !memory[section.region!] || [null, page].includes(memory[section.region!].page!));
+
+    // Absolute symbols (__STACK_SIZE, peripheral registers) fall outside every section and are dropped
+    const section = findContainingSection(candidates, address);
+    if (section) {
+      section.symbols.push({ name: match[3], address: formatAddress(address), size: 0 });
+    }
+  });
+
+  sections.forEach(inferSymbolSizes);
+}
+
+// Parse TI linker (Code Composer Studio, armcl/cl430/cl2000) map file content into the same shape as
+// the GNU ld parser. C2000 addresses count 16-bit words; they are converted to bytes
+export function parseTiMap(content: string): ParsedAnalysis {
+  const result: ParsedAnalysis = {
+    format: 'ti',
+    memory: {},
+    outputSections: [],
+    sections: [],
+    symbols: [],
+    padding: null,
+    discarded: null,
+    commonSymbols: null,
+    crossReferences: null,
+    archiveMembers: null,
+    symbolAssignments: null,
+    reservations: null
+  };
+
+  // CCS on Windows writes CRLF line endings
+  const text = content.replace(/\r/g, '');
+  const unitBytes = /TMS320C2000|C2000 Linker/.test(text) ? 2 : 1;
+
+  result.memory = parseMemoryConfiguration(getBlock(text, 'MEMORY CONFIGURATION'), unitBytes);
+  const { outputSections, sections } = parseSectionAllocation(
+    getBlock(text, 'SECTION ALLOCATION MAP'), result.memory, unitBytes
+  );
+
+  addStandInSections(outputSections, sections);
+  outputSections.forEach(computePadding);
+  assignLoadRegions(outputSections, result.memory);
+
+  result.padding = summarizePadding(outputSections);
+  attachSymbols(text, sections, result.memory, unitBytes);
+  result.symbols = collectSymbols(sections);
+
+  result.outputSections = outputSections;
+  result.sections = sections.sort((a, b) => b.size - a.size);
+
+  return result;
+}
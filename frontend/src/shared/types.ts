@@ -0,0 +1,170 @@
+// Shapes the map parsers work with while building an AnalysisResult. They mirror the backend parsers
+// field for field (and in the same key order), so both produce byte-identical JSON
+
+export type ParsedRegion = {
+  origin: string;
+  length: string;
+  lengthBytes: number;
+  attributes: string | null;
+  loadRegion?: string | null; // armlink: load region of the execution region
+  page?: number | null; // TI C2000: memory page
+  used?: number; // Usage reported by the linker itself (TI, XC16, XC32)
+  unused?: number;
+  writable?: boolean; // Set by dialects whose attributes do not tell RAM from ROM
+  kind?: string; // ESP-IDF memory kind
+}
+
+export type ParsedMemory = Record<string, ParsedRegion>;
+
+export type ParsedSymbol = {
+  name: string;
+  address: string;
+  size: number;
+  sourcePath?: string | null; // Source file of the symbol's DWARF compilation unit
+}
+
+export type ParsedSection = {
+  name: string;
+  address: string | null;
+  size: number;
+  filePath: string | null;
+  library: string | null;
+  objectFile: string | null;
+  inputPath: string | null;
+  outputSection: string | null;
+  region: string | null;
+  loadAddress?: string | null;
+  loadRegion?: string | null;
+  symbols: ParsedSymbol[];
+  sourcePath?: string | null;
+}
+
+export type FillEntry = {
+  address: string;
+  size: number;
+}
+
+export type ParsedOutputSection = {
+  name: string;
+  address: string;
+  size: number;
+  region: string | null;
+  loadAddress?: string | null;
+  loadRegion?: string | null;
+  rawLoadAddress?: number; // Load address as printed, resolved by assignLoadRegions
+  rawLoadBase?: number; // armlink: load base of the execution region
+  fillEntries: FillEntry[];
+  fill: number;
+  padding: number;
+  inputSections: ParsedSection[];
+}
+
+export type DiscardedSection = {
+  name: string;
+  size: number;
+  filePath: string | null;
+  library: string | null;
+  objectFile: string | null;
+  inputPath: string | null;
+}
+
+export type SizeGroup = {
+  name: string;
+  size: number;
+  sectionCount: number;
+}
+
+export type DiscardedSummary = {
+  totalSize: number; // Allocated sections only: code and data
+  nonAllocatedSize: number; // Debug info, comments and other sections never placed in memory
+  sectionCount: number;
+  sections: DiscardedSection[];
+  objects: SizeGroup[];
+  libraries: SizeGroup[];
+}
+
+export type CommonSymbol = {
+  name: string;
+  size: number;
+  filePath: string | null;
+  library: string | null;
+  objectFile: string | null;
+  inputPath: string | null;
+  address: string | null;
+  region: string | null;
+}
+
+export type CrossReference = {
+  symbol: string;
+  definedIn: string | null;
+  referencedBy: string[];
+}
+
+export type ArchiveMember = {
+  filePath: string | null;
+  library: string | null;
+  objectFile: string | null;
+  inputPath: string | null;
+  size: number;
+  includedBy: string | null;
+  includedByPath: string | null;
+  symbol: string;
+}
+
+export type SymbolAssignment = {
+  name: string;
+  value: string;
+  expression: string;
+  provided: boolean;
+  outputSection: string | null;
+}
+
+export type Reservation = {
+  kind: 'heap' | 'stack';
+  name: string;
+  address: string;
+  size: number;
+  outputSection: string;
+  region: string | null;
+}
+
+export type PaddingSummary = {
+  totalSize: number;
+  regions: Record<string, number>;
+}
+
+export type CollectedSymbol = ParsedSymbol & {
+  section: string;
+  filePath: string | null;
+  library: string | null;
+}
+
+export type ElfCheckResult = {
+  matched: number;
+  mismatches: {
+    name: string;
+    mapSize: number;
+    elfSize: number;
+    mapAddress: string;
+    elfAddress: string;
+  }[];
+  missingInElf: string[];
+  missingInMap: string[];
+}
+
+export type ParsedAnalysis = {
+  format: string;
+  dialect?: string | null;
+  memory: ParsedMemory;
+  outputSections: ParsedOutputSection[];
+  sections: ParsedSection[];
+  symbols: CollectedSymbol[];
+  padding: PaddingSummary | null;
+  discarded: DiscardedSummary | null;
+  commonSymbols: CommonSymbol[] | null;
+  crossReferences: CrossReference[] | null;
+  archiveMembers: ArchiveMember[] | null;
+  symbolAssignments: SymbolAssignment[] | null;
+  reservations: Reservation[] | null;
+  elfCheck?: ElfCheckResult;
+}
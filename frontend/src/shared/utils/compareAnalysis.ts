@@ -0,0 +1,450 @@
+// Compares two map file analysis results and computes detailed diffs
+import { findRegion, isWritableRegion, sumUsedByRegion } from './memoryRegions';
+import { dirname } from './posixPath';
+import type {
+  Anomaly,
+  CompareResult,
+  CompareSummary,
+  DirectoryGroup,
+  FileGroup,
+  LibraryGroup,
+  RegionDiff,
+  SectionDiff,
+} from '../../types/index';
+import type { ParsedAnalysis, ParsedSection } from '../types';
+
+export type CompareOptions = Partial<CompareResult['metadata']['optionsUsed']>;
+
+// Key that identifies the same section across two builds: "name:filePath"
+export function sectionKey(section: { name: string; filePath?: string | null }): string {
+  return `${section.name}:${section.filePath || ''}`;
+}
+
+// Index sections by sectionKey. Same-named sections of one file (IAR lists every fragment as .text)
+// are merged, sizes summed
+export function indexSections(sections: ParsedSection[]): Map<string, ParsedSection> {
+  const index = new Map<string, ParsedSection>();
+
+  sections.forEach(section => {
+    const key = sectionKey(section);
+    const existing = index.get(key);
+    index.set(key, existing ? { ...existing, size: existing.size + section.size } : section);
+  });
+
+  return index;
+}
+
+// Compare two analysis results and compute detailed diff
+export function compareAnalyses(analysisA: ParsedAnalysis, analysisB: ParsedAnalysis, options: CompareOptions = {}): CompareResult {
+  const {
+    topN = 20,
+    anomalyThresholdPct = 20,
+    anomalyThresholdBytes = 1024,
+    includeUnchanged = false,
+  } = options;
+
+  // Create section lookup maps
+  const sectionsA = indexSections(analysisA.sections);
+  const sectionsB = indexSections(analysisB.sections);
+
+  // Get all unique section keys
+  const allSectionKeys = new Set([...sectionsA.keys(), ...sectionsB.keys()]);
+
+  // Sections removed by --gc-sections in each build
+  const discardedA = new Set((analysisA.discarded?.sections || []).map(sectionKey));
+  const discardedB = new Set((analysisB.discarded?.sections || []).map(sectionKey));
+
+  // Compute section-level diffs
+  const sectionDiffs: SectionDiff[] = [];
+  for (const key of allSectionKeys) {
+    const secA = sectionsA.get(key);
+    const secB = sectionsB.get(key);
+
+    const sizeA = secA ? secA.size : 0;
+    const sizeB = secB ? secB.size : 0;
+    const delta = sizeB - sizeA;
+    const deltaPct = sizeA > 0 ? ((delta / sizeA) * 100) : (sizeB > 0 ? 100 : 0);
+
+    // Skip unchanged sections if not requested
+    if (!includeUnchanged && delta === 0) {
+      continue;
+    }
+
+    sectionDiffs.push({
+      name: (secB || secA)!.name,
+      file: secB?.filePath || secA?.filePath || null,
+      library: secB?.library || secA?.library || null,
+      objectFile: secB?.objectFile || secA?.objectFile || null,
+      addressA: secA?.address || null,
+      addressB: secB?.address || null,
+      sizeA,
+      sizeB,
+      delta,
+      deltaPct: parseFloat(deltaPct.toFixed(2)),
+      status: sizeA === 0 ? 'added' : sizeB === 0 ? 'removed' : 'modified',
+      gcTransition: getGcTransition(secA, secB, discardedA.has(key), discardedB.has(key)),
+    });
+  }
+
+  // Compute file/object-level and library-level diffs
+  const fileGroups = computeFileGroups(sectionDiffs);
+  const libraryGroups = computeLibraryGroups(sectionDiffs);
+  const directoryGroups = computeDirectoryGroups(analysisA, analysisB);
+
+  // Compute summary - flash/RAM totals come from the memory region each section was placed in
+  const totalFlashA = sumRegionTotals(analysisA, false);
+  const totalFlashB = sumRegionTotals(analysisB, false);
+  const totalRamA = sumRegionTotals(analysisA, true);
+  const totalRamB = sumRegionTotals(analysisB, true);
+
+  const flashDelta = totalFlashB - totalFlashA;
+  const ramDelta = totalRamB - totalRamA;
+
+  const summary: CompareSummary = {
+    totalFlashA,
+    totalFlashB,
+    totalRamA,
+    totalRamB,
+    flashDelta,
+    flashDeltaPct: totalFlashA > 0 ? parseFloat(((flashDelta / totalFlashA) * 100).toFixed(2)) : 0,
+    ramDelta,
+    ramDeltaPct: totalRamA > 0 ? parseFloat(((ramDelta / totalRamA) * 100).toFixed(2)) : 0,
+    totalSectionsA: analysisA.sections.length,
+    totalSectionsB: analysisB.sections.length,
+    sectionsAdded: sectionDiffs.filter(s => s.status === 'added').length,
+    sectionsRemoved: sectionDiffs.filter(s => s.status === 'removed').length,
+    sectionsModified: sectionDiffs.filter(s => s.status === 'modified').length,
+    regions: computeRegionTotals(analysisA, analysisB),
+    sectionsNewlyKept: sectionDiffs.filter(s => s.gcTransition === 'kept').length,
+    sectionsNewlyDiscarded: sectionDiffs.filter(s => s.gcTransition === 'discarded').length,
+    discardedSizeA: analysisA.discarded?.totalSize || 0,
+    discardedSizeB: analysisB.discarded?.totalSize || 0,
+  };
+
+  // Sort by delta (descending for increases, ascending for decreases)
+  const sortedByDelta = [...sectionDiffs].sort((a, b) => b.delta - a.delta);
+
+  const topIncreases = sortedByDelta
+    .filter(s => s.delta > 0)
+    .slice(0, topN);
+
+  const topDecreases = sortedByDelta
+    .filter(s => s.delta < 0)
+    .reverse()
+    .slice(0, topN);
+
+  // Detect anomalies
+  const anomalies = detectAnomalies(
+    sectionDiffs,
+    fileGroups,
+    anomalyThresholdPct,
+    anomalyThresholdBytes
+  );
+
+  return {
+    summary,
+    sections: sectionDiffs.sort((a, b) => Math.abs(b.delta) - Math.abs(a.delta)),
+    fileGroups,
+    libraryGroups,
+    directoryGroups,
+    topIncreases,
+    topDecreases,
+    anomalies,
+    metadata: {
+      comparedAt: new Date().toISOString(),
+      // The options as given, like the backend reports them
+      optionsUsed: options as CompareResult['metadata']['optionsUsed'],
+    },
+  };
+}
+
+// Detect a section moving between kept and discarded (--gc-sections) across builds.
+// A newly referenced function pulled in from a library is often the real reason flash jumps
+export function getGcTransition(
+  secA: ParsedSection | undefined,
+  secB: ParsedSection | undefined,
+  discardedInA: boolean,
+  discardedInB: boolean
+): 'kept' | 'discarded' | null {
+  if (!secA && secB && discardedInA) {
+    return 'kept';
+  }
+  if (secA && !secB && discardedInB) {
+    return 'discarded';
+  }
+  return null;
+}
+
+// Resolve the memory region of each section, falling back to an address lookup
+// for analyses that were parsed before sections carried a region
+function withRegions(analysis: ParsedAnalysis): ParsedSection[] {
+  return analysis.sections.map(s => (
+    s.region !== undefined ? s : { ...s, region: findRegion(analysis.memory, s.address) }
+  ));
+}
+
+// Total the bytes used, padding included, in writable (RAM) or read-only (flash) regions
+function sumRegionTotals(analysis: ParsedAnalysis, writable: boolean): number {
+  const totals = sumUsedByRegion(withRegions(analysis), analysis.padding);
+  return Object.entries(totals)
+    .filter(([region]) => isWritableRegion(analysis.memory, region) === writable)
+    .reduce((sum, [, size]) => sum + size, 0);
+}
+
+// Compare per-region usage of two analyses, in declaration order
+export function computeRegionTotals(analysisA: ParsedAnalysis, analysisB: ParsedAnalysis): RegionDiff[] {
+  const totalsA = sumUsedByRegion(withRegions(analysisA), analysisA.padding);
+  const totalsB = sumUsedByRegion(withRegions(analysisB), analysisB.padding);
+  const names = new Set([
+    ...Object.keys(analysisA.memory || {}),
+    ...Object.keys(analysisB.memory || {}),
+    ...Object.keys(totalsA),
+    ...Object.keys(totalsB),
+  ]);
+
+  return Array.from(names).map(name => {
+    const sizeA = totalsA[name] || 0;
+    const sizeB = totalsB[name] || 0;
+    const delta = sizeB - sizeA;
+    return {
+      name,
+      lengthBytes: analysisB.memory?.[name]?.lengthBytes || analysisA.memory?.[name]?.lengthBytes || 0,
+      sizeA,
+      sizeB,
+      delta,
+      deltaPct: sizeA > 0 ? parseFloat(((delta / sizeA) * 100).toFixed(2)) : 0,
+    };
+  });
+}
+
+// Group section diffs by a key and compute totals; the key is stored under keyField.
+// Groups are sorted by absolute delta
+function groupSectionDiffs<K extends 'file' | 'library'>(
+  sectionDiffs: SectionDiff[],
+  getKey: (section: SectionDiff) => string,
+  keyField: K
+): (Omit<FileGroup, 'file'> & Record<K, string>)[] {
+  const groupMap = new Map<string, Omit<FileGroup, 'file'> & Record<K, string>>();
+
+  for (const section of sectionDiffs) {
+    const key = getKey(section);
+
+    if (!groupMap.has(key)) {
+      groupMap.set(key, {
+        ...({ [keyField]: key } as Record<K, string>),
+        sizeA: 0,
+        sizeB: 0,
+        delta: 0,
+        deltaPct: 0,
+        sectionCount: 0,
+        sections: [],
+      });
+    }
+
+    const group = groupMap.get(key)!;
+    group.sizeA += section.sizeA;
+    group.sizeB += section.sizeB;
+    group.delta += section.delta;
+    group.sectionCount++;
+    group.sections.push(section.name);
+  }
+
+  // Compute percentages
+  const groups = Array.from(groupMap.values()).map(group => ({
+    ...group,
+    deltaPct: group.sizeA > 0
+      ? parseFloat(((group.delta / group.sizeA) * 100).toFixed(2))
+      : (group.sizeB > 0 ? 100 : 0),
+  }));
+
+  return groups.sort((a, b) => Math.abs(b.delta) - Math.abs(a.delta));
+}
+
+// Group sections by object file and compute totals
+export function computeFileGroups(sectionDiffs: SectionDiff[]): FileGroup[] {
+  return groupSectionDiffs(sectionDiffs, section => section.file || 'unknown', 'file');
+}
+
+// Group sections by static library (archive) and compute totals.
+// Objects linked directly rather than from an archive are grouped under "(no library)"
+export function computeLibraryGroups(sectionDiffs: SectionDiff[]): LibraryGroup[] {
+  const groups = groupSectionDiffs(sectionDiffs, section => section.library || '(no library)', 'library');
+
+  // List the distinct archive members contributing to each library
+  return groups.map(group => ({
+    ...group,
+    objects: Array.from(new Set(
+      sectionDiffs
+        .filter(s => (s.library || '(no library)') === group.library)
+        .map(s => s.objectFile || s.file || 'unknown')
+    )),
+  }));
+}
+
+// Directory all paths share, e.g. "/builds/fw" for /builds/fw/components/... and /builds/fw/third_party/...
+// Without trailing slash, '' when there is none
+function commonDirectory(paths: string[]): string {
+  const dirs = paths.map(p => dirname(p).split('/'));
+  const common = dirs.reduce((prefix, parts) => {
+    let n = 0;
+    while (n < prefix.length && n < parts.length && prefix[n] === parts[n]) n++;
+    return prefix.slice(0, n);
+  });
+  return common.join('/');
+}
+
+// Roll symbol sizes up the source directory tree, using the source path DWARF gives each symbol.
+// Paths are relative to the directory all sources share; "." is that directory and holds the total.
+// Groups are listed depth-first, the largest subtree first, so they read as a tree; empty without source paths
+export function computeDirectoryGroups(analysisA: ParsedAnalysis, analysisB: ParsedAnalysis): DirectoryGroup[] {
+  const symbolsA = (analysisA.symbols || []).filter(s => s.sourcePath);
+  const symbolsB = (analysisB.symbols || []).filter(s => s.sourcePath);
+  if (symbolsA.length === 0 && symbolsB.length === 0) {
+    return [];
+  }
+
+  const root = commonDirectory([...symbolsA, ...symbolsB].map(s => s.sourcePath!));
+  const groups = new Map<string, DirectoryGroup>();
+  const add = (symbol: { sourcePath?: string | null; size: number }, sizeField: 'sizeA' | 'sizeB') => {
+    const parts = dirname(symbol.sourcePath!).slice(root.length).split('/').filter(Boolean);
+    for (let depth = 0; depth <= parts.length; depth++) {
+      const directory = depth === 0 ? '.' : parts.slice(0, depth).join('/');
+      const group = groups.get(directory) || { directory, depth, sizeA: 0, sizeB: 0, delta: 0, deltaPct: 0, symbolCount: 0 };
+      group[sizeField] += symbol.size;
+      if (sizeField === 'sizeB') {
+        group.symbolCount++;
+      }
+      groups.set(directory, group);
+    }
+  };
+  symbolsA.forEach(symbol => add(symbol, 'sizeA'));
+  symbolsB.forEach(symbol => add(symbol, 'sizeB'));
+
+  groups.forEach(group => {
+    group.delta = group.sizeB - group.sizeA;
+    group.deltaPct = group.sizeA > 0
+      ? parseFloat(((group.delta / group.sizeA) * 100).toFixed(2))
+      : (group.sizeB > 0 ? 100 : 0);
+  });
+
+  const ordered: DirectoryGroup[] = [];
+  const visit = (group: DirectoryGroup) => {
+    ordered.push(group);
+    [...groups.values()]
+      .filter(child => child.depth === group.depth + 1 &&
+        (group.depth === 0 || child.directory.startsWith(`${group.directory}/`)))
+      .sort((a, b) => Math.max(b.sizeA, b.sizeB) - Math.max(a.sizeA, a.sizeB))
+      .forEach(visit);
+  };
+  visit(groups.get('.')!);
+
+  return ordered;
+}
+
+// Detect anomalies in the comparison
+export function detectAnomalies(
+  sectionDiffs: SectionDiff[],
+  fileGroups: FileGroup[],
+  thresholdPct: number,
+  thresholdBytes: number
+): Anomaly[] {
+  const anomalies: Anomaly[] = [];
+
+  // Check individual sections for large changes
+  for (const section of sectionDiffs) {
+    const reasons: string[] = [];
+
+    // Large percentage change
+    if (Math.abs(section.deltaPct) > thresholdPct) {
+      reasons.push(`${Math.abs(section.deltaPct).toFixed(1)}% change exceeds threshold`);
+    }
+
+    // Large absolute change
+    if (Math.abs(section.delta) > thresholdBytes) {
+      reasons.push(`${Math.abs(section.delta)} bytes change exceeds threshold`);
+    }
+
+    // New large section
+    if (section.status === 'added' && section.sizeB > thresholdBytes * 2) {
+      reasons.push(`New section with ${section.sizeB} bytes`);
+    }
+
+    // Removed large section
+    if (section.status === 'removed' && section.sizeA > thresholdBytes * 2) {
+      reasons.push(`Removed section had ${section.sizeA} bytes`);
+    }
+
+    // Moved between kept and discarded by --gc-sections
+    if (section.gcTransition === 'kept') {
+      reasons.push('Previously discarded by --gc-sections, now kept');
+    } else if (section.gcTransition === 'discarded') {
+      reasons.push('Now discarded by --gc-sections');
+    }
+
+    if (reasons.length > 0) {
+      anomalies.push({
+        type: 'section',
+        name: section.name,
+        file: section.file,
+        severity: Math.abs(section.delta) > thresholdBytes * 10 ? 'high' : 'medium',
+        reasons,
+        delta: section.delta,
+        deltaPct: section.deltaPct,
+      });
+    }
+  }
+
+  // Check file groups for suspicious patterns
+  for (const group of fileGroups) {
+    const reasons: string[] = [];
+
+    // Many small increases in same file (potential memory leak pattern)
+    const smallIncreases = sectionDiffs.filter(
+      s => s.file === group.file && s.delta > 0 && s.delta < thresholdBytes
+    );
+
+    if (smallIncreases.length > 5) {
+      reasons.push(`${smallIncreases.length} small increases detected (potential fragmentation)`);
+    }
+
+    // Large file-level change
+    if (Math.abs(group.delta) > thresholdBytes * 5) {
+      reasons.push(`Total file change of ${group.delta} bytes`);
+    }
+
+    if (reasons.length > 0) {
+      anomalies.push({
+        type: 'file',
+        name: group.file,
+        severity: Math.abs(group.delta) > thresholdBytes * 20 ? 'high' : 'low',
+        reasons,
+        delta: group.delta,
+        deltaPct: group.deltaPct,
+        affectedSections: group.sectionCount,
+      });
+    }
+  }
+
+  // Check for suspicious .bss growth (potential uninitialized data issue)
+  const bssSections = sectionDiffs.filter(s => s.name.startsWith('.bss'));
+  const totalBssDelta = bssSections.reduce((sum, s) => sum + s.delta, 0);
+
+  if (totalBssDelta > thresholdBytes * 5) {
+    anomalies.push({
+      type: 'pattern',
+      name: '.bss sections',
+      severity: 'medium',
+      reasons: [`Significant .bss growth of ${totalBssDelta} bytes (check uninitialized globals)`],
+      delta: totalBssDelta,
+      affectedSections: bssSections.filter(s => s.delta > 0).length,
+    });
+  }
+
+  // Sort by severity and delta
+  return anomalies.sort((a, b) => {
+    const severityOrder = { high: 3, medium: 2, low: 1 };
+    const severityDiff = severityOrder[b.severity] - severityOrder[a.severity];
+    if (severityDiff !== 0) return severityDiff;
+    return Math.abs(b.delta) - Math.abs(a.delta);
+  });
+}
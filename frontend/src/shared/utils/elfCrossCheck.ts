@@ -0,0 +1,48 @@
+// Checks a map file's output sections against the section headers of the ELF it was linked with
+import type { ElfCheckResult, ParsedAnalysis, ParsedOutputSection } from '../types';
+
+// Output sections placed in target memory, with contents, keyed by name
+function indexPlacedSections(analysis: ParsedAnalysis): Map<string, ParsedOutputSection> {
+  return new Map(
+    (analysis.outputSections || [])
+      .filter(output => output.region && output.size > 0)
+      .map(output => [output.name, output])
+  );
+}
+
+// Compare the sizes and addresses of the map's output sections with the ELF's allocated sections.
+// A mismatch usually means the map and ELF come from different builds
+export function crossCheckElf(mapAnalysis: ParsedAnalysis, elfAnalysis: ParsedAnalysis): ElfCheckResult {
+  const mapSections = indexPlacedSections(mapAnalysis);
+  const elfSections = indexPlacedSections(elfAnalysis);
+
+  const mismatches: ElfCheckResult['mismatches'] = [];
+  let matched = 0;
+
+  mapSections.forEach((mapSection, name) => {
+    const elfSection = elfSections.get(name);
+    if (!elfSection) {
+      return;
+    }
+
+    const sameAddress = parseInt(mapSection.address, 16) === parseInt(elfSection.address, 16);
+    if (mapSection.size === elfSection.size && sameAddress) {
+      matched++;
+      return;
+    }
+    mismatches.push({
+      name,
+      mapSize: mapSection.size,
+      elfSize: elfSection.size,
+      mapAddress: mapSection.address,
+      elfAddress: elfSection.address,
+    });
+  });
+
+  return {
+    matched,
+    mismatches,
+    missingInElf: [...mapSections.keys()].filter(name => !elfSections.has(name)),
+    missingInMap: [...elfSections.keys()].filter(name => !mapSections.has(name)),
+  };
+}
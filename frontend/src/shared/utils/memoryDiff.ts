@@ -0,0 +1,304 @@
+// Advanced comparison with anomaly detection
+import { findRegion, sumUsedByRegion } from './memoryRegions';
+import { sectionKey, indexSections } from './compareAnalysis';
+import type { DiffAnomaly, DiffEntry, DiffGroup, DiffResult, DiffSummary } from '../../types/index';
+import type { ParsedAnalysis, ParsedMemory, ParsedSection } from '../types';
+
+export type DiffOptions = Partial<DiffResult['metadata']['options']>;
+
+// Align and compare two map file analyses: V1 is the baseline, V2 the new version
+export function computeMemoryDiff(analysisV1: ParsedAnalysis, analysisV2: ParsedAnalysis, options: DiffOptions = {}): DiffResult {
+  const {
+    anomalyGrowthThreshold = 10, // % growth threshold
+    anomalyShrinkThreshold = 10, // % shrink threshold
+    addressShiftThreshold = 0x1000, // 4KB address shift threshold
+  } = options;
+
+  // Create lookup maps for alignment
+  const sectionsV1 = indexSections(analysisV1.sections);
+  const sectionsV2 = indexSections(analysisV2.sections);
+
+  // Get all unique section keys
+  const allKeys = new Set([...sectionsV1.keys(), ...sectionsV2.keys()]);
+
+  // Sections removed by --gc-sections in each version, keyed the same way
+  const discardedV1 = new Set((analysisV1.discarded?.sections || []).map(sectionKey));
+  const discardedV2 = new Set((analysisV2.discarded?.sections || []).map(sectionKey));
+
+  const diffResults: DiffEntry[] = [];
+  const anomalies: DiffAnomaly[] = [];
+
+  for (const key of allKeys) {
+    const v1 = sectionsV1.get(key);
+    const v2 = sectionsV2.get(key);
+
+    const [name, filePath] = key.split(':');
+
+    let status: DiffEntry['status'] = 'same';
+    const sizeV1 = v1 ? v1.size : 0;
+    const sizeV2 = v2 ? v2.size : 0;
+    const sizeDiff = sizeV2 - sizeV1;
+    const sizeDiffPct = sizeV1 > 0 ? ((sizeDiff / sizeV1) * 100) : (sizeV2 > 0 ? 100 : 0);
+
+    // Determine status
+    if (!v1 && v2) {
+      status = 'added';
+    } else if (v1 && !v2) {
+      status = 'removed';
+    } else if (sizeDiff > 0) {
+      status = 'growth';
+    } else if (sizeDiff < 0) {
+      status = 'shrink';
+    } else {
+      status = 'same';
+    }
+
+    // Kept ↔ discarded moves explain many sudden flash jumps
+    let gcTransition: DiffEntry['gcTransition'] = null;
+    if (status === 'added' && discardedV1.has(key)) {
+      gcTransition = 'kept';
+    } else if (status === 'removed' && discardedV2.has(key)) {
+      gcTransition = 'discarded';
+    }
+
+    // Address diff
+    const addrV1 = v1?.address || null;
+    const addrV2 = v2?.address || null;
+    let addressDiff: number | null = null;
+    let addressShifted = false;
+
+    if (addrV1 && addrV2) {
+      const addr1Num = parseInt(addrV1, 16);
+      const addr2Num = parseInt(addrV2, 16);
+      addressDiff = addr2Num - addr1Num;
+      addressShifted = Math.abs(addressDiff) > addressShiftThreshold;
+    }
+
+    const diffEntry: DiffEntry = {
+      name,
+      filePath: filePath || null,
+      library: v2?.library || v1?.library || null,
+      objectFile: v2?.objectFile || v1?.objectFile || null,
+      sizeV1,
+      sizeV2,
+      sizeDiff,
+      sizeDiffPct: parseFloat(sizeDiffPct.toFixed(2)),
+      addressV1: addrV1,
+      addressV2: addrV2,
+      addressDiff,
+      addressShifted,
+      status,
+      category: 'section',
+      region: determineRegion(v2, analysisV2.memory) || determineRegion(v1, analysisV1.memory) || 'OTHER',
+      loadRegion: v2?.loadRegion || v1?.loadRegion || null,
+      gcTransition,
+    };
+
+    diffResults.push(diffEntry);
+
+    // Detect anomalies
+    const anomalyReasons: string[] = [];
+
+    if (status === 'added' && sizeV2 > 1024) {
+      anomalyReasons.push(`New section with ${formatBytes(sizeV2)}`);
+    }
+
+    if (status === 'removed' && sizeV1 > 1024) {
+      anomalyReasons.push(`Removed section had ${formatBytes(sizeV1)}`);
+    }
+
+    if (status === 'growth' && sizeDiffPct > anomalyGrowthThreshold) {
+      anomalyReasons.push(`Grew by ${sizeDiffPct.toFixed(1)}% (${formatBytes(sizeDiff)})`);
+    }
+
+    if (status === 'shrink' && Math.abs(sizeDiffPct) > anomalyShrinkThreshold) {
+      anomalyReasons.push(`Shrunk by ${Math.abs(sizeDiffPct).toFixed(1)}% (${formatBytes(Math.abs(sizeDiff))})`);
+    }
+
+    if (gcTransition === 'kept') {
+      anomalyReasons.push('Previously discarded by --gc-sections, now kept');
+    } else if (gcTransition === 'discarded') {
+      anomalyReasons.push('Now discarded by --gc-sections');
+    }
+
+    if (addressShifted) {
+      anomalyReasons.push(`Address shifted by ${formatBytes(Math.abs(addressDiff!))}`);
+    }
+
+    if (anomalyReasons.length > 0) {
+      anomalies.push({
+        ...diffEntry,
+        reasons: anomalyReasons,
+        severity: determineSeverity(status, sizeDiffPct, Math.abs(sizeDiff)),
+      });
+    }
+  }
+
+  // Fill and alignment padding per output section, kept apart from sections so it raises no anomalies
+  const paddingDiffs = diffPadding(analysisV1, analysisV2);
+
+  // Compute summary statistics; totalSizeDiffPct follows once the totals are known
+  const summary = {
+    totalSectionsV1: analysisV1.sections.length,
+    totalSectionsV2: analysisV2.sections.length,
+    sectionsAdded: diffResults.filter(d => d.status === 'added').length,
+    sectionsRemoved: diffResults.filter(d => d.status === 'removed').length,
+    sectionsGrowth: diffResults.filter(d => d.status === 'growth').length,
+    sectionsShrink: diffResults.filter(d => d.status === 'shrink').length,
+    sectionsUnchanged: diffResults.filter(d => d.status === 'same').length,
+    sectionsNewlyKept: diffResults.filter(d => d.gcTransition === 'kept').length,
+    sectionsNewlyDiscarded: diffResults.filter(d => d.gcTransition === 'discarded').length,
+    totalSizeV1: sumPlacedSize(analysisV1),
+    totalSizeV2: sumPlacedSize(analysisV2),
+    totalSizeDiff: 0,
+    paddingV1: paddingDiffs.reduce((sum, d) => sum + d.sizeV1, 0),
+    paddingV2: paddingDiffs.reduce((sum, d) => sum + d.sizeV2, 0),
+    paddingDiff: paddingDiffs.reduce((sum, d) => sum + d.sizeDiff, 0),
+    anomalyCount: anomalies.length,
+  } as DiffSummary;
+
+  // Section counts above cover sections only; padding joins the diff list and region totals
+  diffResults.push(...paddingDiffs);
+
+  summary.totalSizeDiff = summary.totalSizeV2 - summary.totalSizeV1;
+  summary.totalSizeDiffPct = summary.totalSizeV1 > 0
+    ? parseFloat(((summary.totalSizeDiff / summary.totalSizeV1) * 100).toFixed(2))
+    : 0;
+
+  return {
+    summary,
+    diff: diffResults.sort((a, b) => Math.abs(b.sizeDiff) - Math.abs(a.sizeDiff)),
+    fileGroups: groupDiffEntries(diffResults, d => (d.category === 'padding' ? '(padding)' : d.filePath || 'unknown')),
+    libraryGroups: groupDiffEntries(diffResults, d => d.library || '(no library)'),
+    // Sections with a load image elsewhere (e.g. .data) count in both their run and load region
+    regionGroups: groupDiffEntries(
+      diffResults.flatMap(d => (d.loadRegion && d.loadRegion !== d.region ? [d, { ...d, region: d.loadRegion }] : [d])),
+      d => d.region
+    ),
+    anomalies: anomalies.sort((a, b) => {
+      const severityOrder = { critical: 4, high: 3, medium: 2, low: 1 };
+      return (severityOrder[b.severity] || 0) - (severityOrder[a.severity] || 0);
+    }),
+    metadata: {
+      comparedAt: new Date().toISOString(),
+      // The options as given, like the backend reports them
+      options: options as DiffResult['metadata']['options'],
+    },
+  };
+}
+
+// Diff the fill/alignment padding of each output section placed in memory: one entry with
+// category 'padding' per output section with padding
+export function diffPadding(analysisV1: ParsedAnalysis, analysisV2: ParsedAnalysis): DiffEntry[] {
+  const outputsV1 = new Map((analysisV1.outputSections || []).filter(o => o.region).map(o => [o.name, o]));
+  const outputsV2 = new Map((analysisV2.outputSections || []).filter(o => o.region).map(o => [o.name, o]));
+  const entries: DiffEntry[] = [];
+
+  for (const name of new Set([...outputsV1.keys(), ...outputsV2.keys()])) {
+    const o1 = outputsV1.get(name);
+    const o2 = outputsV2.get(name);
+    const sizeV1 = o1?.padding || 0;
+    const sizeV2 = o2?.padding || 0;
+
+    if (sizeV1 === 0 && sizeV2 === 0) {
+      continue;
+    }
+
+    const sizeDiff = sizeV2 - sizeV1;
+    entries.push({
+      name: `*fill* (${name})`,
+      filePath: null,
+      library: null,
+      objectFile: null,
+      sizeV1,
+      sizeV2,
+      sizeDiff,
+      sizeDiffPct: sizeV1 > 0 ? parseFloat(((sizeDiff / sizeV1) * 100).toFixed(2)) : (sizeV2 > 0 ? 100 : 0),
+      addressV1: null,
+      addressV2: null,
+      addressDiff: null,
+      addressShifted: false,
+      status: sizeV1 === 0 ? 'added' : sizeV2 === 0 ? 'removed' : sizeDiff > 0 ? 'growth' : sizeDiff < 0 ? 'shrink' : 'same',
+      category: 'padding',
+      region: o2?.region || o1?.region || 'OTHER',
+      loadRegion: o2?.loadRegion || o1?.loadRegion || null,
+      gcTransition: null,
+    });
+  }
+
+  return entries;
+}
+
+// Group diff entries by a key (object file, library) and total their sizes, sorted by absolute size change
+export function groupDiffEntries(diffEntries: DiffEntry[], getKey: (entry: DiffEntry) => string): DiffGroup[] {
+  const groups = new Map<string, DiffGroup>();
+
+  for (const entry of diffEntries) {
+    const key = getKey(entry);
+
+    if (!groups.has(key)) {
+      groups.set(key, { name: key, sizeV1: 0, sizeV2: 0, sizeDiff: 0, sizeDiffPct: 0, sectionCount: 0 });
+    }
+
+    const group = groups.get(key)!;
+    group.sizeV1 += entry.sizeV1;
+    group.sizeV2 += entry.sizeV2;
+    group.sizeDiff += entry.sizeDiff;
+    group.sectionCount++;
+  }
+
+  return Array.from(groups.values())
+    .map(group => ({
+      ...group,
+      sizeDiffPct: group.sizeV1 > 0
+        ? parseFloat(((group.sizeDiff / group.sizeV1) * 100).toFixed(2))
+        : (group.sizeV2 > 0 ? 100 : 0),
+    }))
+    .sort((a, b) => Math.abs(b.sizeDiff) - Math.abs(a.sizeDiff));
+}
+
+// Total the used bytes of all memory regions, as regionGroups and the memory summary count them:
+// placed sections only (no debug info), load images included, padding included
+function sumPlacedSize(analysis: ParsedAnalysis): number {
+  const sections = analysis.sections.map(s => ({ ...s, region: determineRegion(s, analysis.memory) }));
+  return Object.values(sumUsedByRegion(sections, analysis.padding)).reduce((sum, bytes) => sum + bytes, 0);
+}
+
+// Determine the memory region a section was placed in: the region assigned by the parser, or the
+// address looked up in the Memory Configuration. Null when unplaced (e.g. debug sections)
+export function determineRegion(section: ParsedSection | undefined, memory: ParsedMemory): string | null {
+  if (!section) {
+    return null;
+  }
+  if (section.region !== undefined) {
+    return section.region;
+  }
+  return findRegion(memory, section.address);
+}
+
+// Determine anomaly severity
+export function determineSeverity(status: DiffEntry['status'], sizeDiffPct: number, sizeDiffAbs: number): DiffAnomaly['severity'] {
+  if (status === 'added' || status === 'removed') {
+    return sizeDiffAbs > 10240 ? 'critical' : 'high';
+  }
+
+  if (Math.abs(sizeDiffPct) > 50) {
+    return 'critical';
+  }
+  if (Math.abs(sizeDiffPct) > 25) {
+    return 'high';
+  }
+  if (Math.abs(sizeDiffPct) > 10) {
+    return 'medium';
+  }
+  return 'low';
+}
+
+// Format bytes to human-readable
+function formatBytes(bytes: number): string {
+  if (bytes === 0) return '0 B';
+  const k = 1024;
+  const sizes = ['B', 'KB', 'MB', 'GB'];
+  const i = Math.floor(Math.log(Math.abs(bytes)) / Math.log(k));
+  return Math.round((bytes / Math.pow(k, i)) * 100) / 100 + ' ' + sizes[i];
+}
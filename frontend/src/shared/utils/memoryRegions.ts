@@ -0,0 +1,96 @@
+// Maps sections to the memory regions declared in the map file
+import type { PaddingSummary, ParsedMemory, ParsedOutputSection } from '../types';
+
+// Output sections that are not loaded into target memory (debug info, symbol tables, notes, build attributes)
+const NON_ALLOCATED_SECTION_REGEX = /^\.(debug|comment|ARM\.attributes|stab|note\.gnu|gnu\.attributes|line|zdebug|symtab|strtab|shstrtab)/;
+
+// Zero-initialized or reserved sections (NOBITS) that take RAM but have no load image
+const NO_LOAD_SECTION_REGEX = /bss|noinit|heap|stack|^COMMON$/i;
+
+// Find the memory region whose origin/length contains an address
+export function findRegion(memory: ParsedMemory | null | undefined, address: string | null | undefined): string | null {
+  if (!memory || !address) {
+    return null;
+  }
+
+  const addr = parseInt(address, 16);
+  if (Number.isNaN(addr)) {
+    return null;
+  }
+
+  for (const [name, region] of Object.entries(memory)) {
+    const origin = parseInt(region.origin, 16);
+    if (addr >= origin && addr < origin + region.lengthBytes) {
+      return name;
+    }
+  }
+
+  return null;
+}
+
+// Check whether a section is placed in target memory at all (false for debug sections)
+export function isAllocatedSection(sectionName: string): boolean {
+  return !NON_ALLOCATED_SECTION_REGEX.test(sectionName);
+}
+
+// Check whether a section has contents to load, i.e. is not zero-initialized or a reservation.
+// GNU ld still prints a "load address" for .bss and heap/stack reservations
+export function hasLoadImage(sectionName: string): boolean {
+  return !NO_LOAD_SECTION_REGEX.test(sectionName);
+}
+
+// Check whether a region is writable at runtime (RAM-like) rather than read-only (flash-like).
+// A `writable` flag set by the parser wins; otherwise the linker attributes, else the region name
+export function isWritableRegion(memory: ParsedMemory | null | undefined, regionName: string | null | undefined): boolean {
+  const region = regionName ? memory?.[regionName] : undefined;
+  if (typeof region?.writable === 'boolean') {
+    return region.writable;
+  }
+  if (region?.attributes) {
+    // Attributes after "!" are negated
+    const [granted, negated = ''] = region.attributes.toLowerCase().split('!');
+    return granted.includes('w') || negated.includes('r');
+  }
+  return /RAM|DATA/i.test(regionName || '');
+}
+
+// Sum section sizes per memory region; sections with a separate load region (e.g. .data) are
+// charged to both: the load image to the LMA region and the runtime copy to the VMA region
+export function sumByRegion(
+  sections: { region?: string | null; loadRegion?: string | null; size: number }[]
+): Record<string, number> {
+  const totals: Record<string, number> = {};
+
+  sections.forEach(section => {
+    if (section.region) {
+      totals[section.region] = (totals[section.region] || 0) + section.size;
+    }
+    if (section.loadRegion && section.loadRegion !== section.region) {
+      totals[section.loadRegion] = (totals[section.loadRegion] || 0) + section.size;
+    }
+  });
+
+  return totals;
+}
+
+// Sum fill and alignment padding of output sections per memory region
+export function sumPaddingByRegion(outputSections: ParsedOutputSection[]): Record<string, number> {
+  return sumByRegion(
+    outputSections
+      .filter(output => output.padding > 0)
+      .map(output => ({ region: output.region, loadRegion: output.loadRegion, size: output.padding }))
+  );
+}
+
+// Used bytes of each memory region: the sections placed in it plus its fill and alignment padding.
+// The one definition of "used" shared by the memory summary, comparisons and the build history
+export function sumUsedByRegion(
+  sections: { region?: string | null; loadRegion?: string | null; size: number }[],
+  padding: PaddingSummary | null | undefined
+): Record<string, number> {
+  const totals = sumByRegion(sections);
+  Object.entries(padding?.regions || {}).forEach(([region, bytes]) => {
+    totals[region] = (totals[region] || 0) + bytes;
+  });
+  return totals;
+}
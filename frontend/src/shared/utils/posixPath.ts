@@ -0,0 +1,49 @@
+// The path.posix helpers used on source paths, with the same results as Node's, so the parsers need no Node modules
+
+// Resolve "." and ".." segments and collapse repeated slashes (path.posix.normalize)
+export function normalize(path: string): string {
+  if (path === '') return '.';
+  const absolute = path.startsWith('/');
+  const trailingSlash = path.endsWith('/');
+
+  const parts: string[] = [];
+  path.split('/').forEach(part => {
+    if (part === '' || part === '.') return;
+    if (part === '..') {
+      if (parts.length > 0 && parts[parts.length - 1] !== '..') {
+        parts.pop();
+      } else if (!absolute) {
+        parts.push('..');
+      }
+      return;
+    }
+    parts.push(part);
+  });
+
+  let normalized = parts.join('/');
+  if (normalized === '' && !absolute) normalized = '.';
+  if (normalized !== '' && trailingSlash) normalized += '/';
+  return absolute ? `/${normalized}` : normalized;
+}
+
+// Directory part of a path, ignoring trailing slashes (path.posix.dirname)
+export function dirname(path: string): string {
+  if (path === '') return '.';
+  const hasRoot = path.startsWith('/');
+  let end = -1;
+  let matchedSlash = true;
+  for (let i = path.length - 1; i >= 1; --i) {
+    if (path[i] === '/') {
+      if (!matchedSlash) {
+        end = i;
+        break;
+      }
+    } else {
+      matchedSlash = false;
+    }
+  }
+
+  if (end === -1) return hasRoot ? '/' : '.';
+  if (hasRoot && end === 1) return '//';
+  return path.slice(0, end);
+}
@@ -2,6 +2,51 @@ export type MemoryRegion = {
   origin: string;
   length: string;
   lengthBytes: number;
+  attributes?: string | null; // Linker attributes, e.g. "xr" for flash, "xrw" for RAM
+  loadRegion?: string | null; // armlink load region the execution region belongs to
+  writable?: boolean; // Set by the parser when the attributes mislead (AVR EEPROM and fuses are "rw")
+  page?: number | null; // TI memory page (C2000 program/data pages)
+  kind?: string; // Memory kind of an ESP-IDF region: "IRAM", "DRAM", "Flash Code", "Flash Data", "RTC", ...
+  used?: number; // Bytes the linker reports as used (TI, XC16, XC32), for cross-checking
+  unused?: number;
+}
+
+// Bytes placed in one memory region
+export type RegionUsage = {
+  name: string;
+  origin: string;
+  totalBytes: number;
+  usedBytes: number; // Includes padding
+  paddingBytes: number;
+  commonBytes: number; // Common symbols (-fcommon) the linker allocated in the region, part of the used bytes
+  heapBytes: number; // Heap and stack reservations, part of the used bytes
+  stackBytes: number;
+  linkerUsedBytes?: number; // Used bytes as reported by the linker (TI, XC16, XC32)
+  usagePercent: number;
+  writable: boolean;
+  kind?: string;
+}
+
+// Bytes one static library (or the objects linked outside any) places in each memory kind,
+// like the per-archive table of idf.py size
+export type ArchiveUsage = {
+  name: string;
+  totalBytes: number;
+  bytesByKind: Record<string, number>;
+}
+
+export type MapSymbol = {
+  name: string;
+  address: string;
+  size: number; // Inferred from the next symbol or the end of the section
+  sourcePath?: string | null; // Source file of the symbol's DWARF compilation unit, when an ELF with debug info was given
+}
+
+// Symbol with the section and file it was placed from
+export type SymbolEntry = MapSymbol & {
+  section: string;
+  filePath?: string | null;
+  library?: string | null;
 }
 
 export type Section = {
@@ -9,12 +54,153 @@ export type Section = {
   address?: string;
   size: number;
   filePath?: string | null;
+  library?: string | null; // Static library (archive) the object came from, e.g. libhal.a
+  objectFile?: string | null; // Object file name, e.g. stm32_hal_uart.o
+  inputPath?: string | null; // Input file exactly as written by the linker
+  outputSection?: string | null; // Output section this input section was placed in, e.g. .text
+  region?: string | null; // Memory region containing the section's address, null for debug sections
+  loadAddress?: string | null; // Load address (LMA) when loaded from elsewhere, e.g. .data copied from flash
+  loadRegion?: string | null; // Memory region holding the load image
+  sourcePath?: string | null; // Source file of the DWARF compilation unit covering the section
   subsections?: number; // For aggregated view
+  symbols?: MapSymbol[];
+}
+
+// Top-level output section (e.g. .text) containing the input sections placed in it
+export type OutputSection = {
+  name: string;
+  address: string;
+  size: number;
+  region?: string | null;
+  loadAddress?: string | null;
+  loadRegion?: string | null;
+  fillEntries?: { address: string; size: number }[]; // *fill* lines inserted by the linker
+  fill?: number;
+  padding?: number; // Bytes not covered by input sections: fill plus alignment gaps
+  inputSections: Section[];
+}
+
+// Size removed by --gc-sections for one object file or library
+export type DiscardedGroup = {
+  name: string;
+  size: number;
+  sectionCount: number;
+}
+
+// "Discarded input sections" block of a GNU ld map
+export type DiscardedSections = {
+  totalSize: number; // Allocated sections only: code and data
+  nonAllocatedSize?: number; // Debug info, comments and other sections never placed in memory
+  sectionCount: number;
+  sections: Section[];
+  objects: DiscardedGroup[];
+  libraries: DiscardedGroup[];
+}
+
+// Uninitialized global (-fcommon) from the "Allocating common symbols" block of a GNU ld map,
+// with the address and region of its COMMON input section
+export type CommonSymbol = {
+  name: string;
+  size: number;
+  filePath: string | null;
+  library: string | null;
+  objectFile: string | null;
+  inputPath: string | null;
+  address: string | null;
+  region: string | null;
+}
+
+// Entry of the --cref "Cross Reference Table": the file defining a symbol and the files referencing it
+export type CrossReference = {
+  symbol: string;
+  definedIn: string | null;
+  referencedBy: string[];
+}
+
+// Archive member the linker pulled in, from the "Archive member included to satisfy reference by file (symbol)"
+// block of a GNU ld map, with the file and symbol whose reference caused it
+export type ArchiveMember = {
+  filePath: string | null; // e.g. "libc_nano.a(libc_a-printf.o)"
+  library: string | null;
+  objectFile: string | null;
+  inputPath: string | null;
+  size: number; // Bytes its input sections place in memory
+  includedBy: string | null; // Referencing file, null for symbols undefined on the command line (-u)
+  includedByPath: string | null;
+  symbol: string;
+}
+
+// Reference from outside the archives that started an inclusion chain, with every member it pulled in
+export type InclusionRoot = {
+  includedBy: string | null;
+  symbol: string;
+  size: number;
+  members: ArchiveMember[]; // Largest first
+}
+
+// Linker script assignment from a GNU ld map, e.g. "_Min_Heap_Size = 0x200", with its resolved value
+export type SymbolAssignment = {
+  name: string;
+  value: string;
+  expression: string;
+  provided: boolean; // Defined through PROVIDE (), i.e. only when referenced
+  outputSection: string | null; // Output section the assignment appears in, null at the top level
+}
+
+// Heap or stack space set aside by the linker script
+export type Reservation = {
+  kind: 'heap' | 'stack';
+  name: string; // Size symbol (_Min_Heap_Size) or the output section (.heap) it was derived from
+  address: string;
+  size: number;
+  outputSection: string;
+  region: string | null;
+}
+
+// Map output section whose size or address differs from the ELF's section header
+export type ElfMismatch = {
+  name: string;
+  mapSize: number;
+  elfSize: number;
+  mapAddress: string;
+  elfAddress: string;
+}
+
+// Cross-check of a map against the ELF uploaded with it
+export type ElfCheck = {
+  matched: number;
+  mismatches: ElfMismatch[];
+  missingInElf: string[];
+  missingInMap: string[];
+}
+
+// Progress of a map file being parsed by the backend, from GET /analyze/progress/:id
+export type ParseProgress = {
+  fileName: string;
+  bytesRead: number;
+  totalBytes: number;
+  percent: number;
 }
 
 export type AnalysisResult = {
+  analysisId?: string; // ID of the stored result when analyzed by the backend
+  format?: string; // Linker that wrote the map file: "gnu-ld", "iar", "armlink", "lld" or "ti"; "elf" for an ELF image
+  dialect?: string | null; // Toolchain of a GNU ld map: "avr", "xc16", "xc32" or "esp-idf"
   memory: Record<string, MemoryRegion>;
-  sections: Section[];
+  outputSections?: OutputSection[];
+  sections: Section[]; // Input sections only, safe to sum
+  symbols?: SymbolEntry[];
+  discarded?: DiscardedSections | null;
+  commonSymbols?: CommonSymbol[] | null; // GNU ld maps with an "Allocating common symbols" block
+  crossReferences?: CrossReference[] | null; // GNU ld maps linked with --cref
+  archiveMembers?: ArchiveMember[] | null; // GNU ld maps linking static libraries
+  symbolAssignments?: SymbolAssignment[] | null; // GNU ld maps
+  reservations?: Reservation[] | null; // Heap and stack reservations derived from GNU ld maps
+  padding?: {
+    totalSize: number;
+    regions: Record<string, number>; // Padding bytes per memory region
+  } | null;
+  elfCheck?: ElfCheck | null; // Present when an ELF was uploaded with the map
 }
 
 export type MemorySummary = {
@@ -30,6 +216,8 @@ export type MemorySummary = {
 export type SectionDiff = {
   name: string;
   file: string | null;
+  library: string | null;
+  objectFile: string | null;
   addressA: string | null;
   addressB: string | null;
   sizeA: number;
@@ -37,6 +225,7 @@ export type SectionDiff = {
   delta: number;
   deltaPct: number;
   status: 'added' | 'removed' | 'modified';
+  gcTransition?: 'kept' | 'discarded' | null; // Moved between kept and --gc-sections discarded
 }
 
 export type FileGroup = {
@@ -49,10 +238,42 @@ export type FileGroup = {
   sections: string[];
 }
 
+export type LibraryGroup = Omit<FileGroup, 'file'> & {
+  library: string;
+  objects: string[];
+}
+
+// Symbol sizes of one analysis rolled up one source directory (see DirectoryGroup)
+export type DirectoryUsage = {
+  directory: string;
+  depth: number;
+  size: number;
+  symbolCount: number;
+}
+
+// Sections or symbols instantiated from one C++ template or Rust generic (e.g. "std::vector<…>::push_back")
+export type TemplateFamily = {
+  family: string;
+  size: number;
+  copies: number;
+  instances: { name: string; size: number }[]; // Largest first
+}
+
+// Symbol sizes rolled up one source directory, relative to the directory all sources share ("." for the total)
+export type DirectoryGroup = {
+  directory: string;
+  depth: number;
+  sizeA: number;
+  sizeB: number;
+  delta: number;
+  deltaPct: number;
+  symbolCount: number; // Symbols in build B
+}
+
 export type Anomaly = {
   type: 'section' | 'file' | 'pattern';
   name: string;
-  file?: string;
+  file?: string | null;
   severity: 'high' | 'medium' | 'low';
   reasons: string[];
   delta: number;
@@ -74,6 +295,21 @@ export type CompareSummary = {
   sectionsAdded: number;
   sectionsRemoved: number;
   sectionsModified: number;
+  regions?: RegionDiff[];
+  sectionsNewlyKept?: number;
+  sectionsNewlyDiscarded?: number;
+  discardedSizeA?: number;
+  discardedSizeB?: number;
+}
+
+// Per-region totals of two builds
+export type RegionDiff = {
+  name: string;
+  lengthBytes: number;
+  sizeA: number;
+  sizeB: number;
+  delta: number;
+  deltaPct: number;
 }
 
 export type CompareResult = {
@@ -81,6 +317,8 @@ export type CompareResult = {
   summary: CompareSummary;
   sections: SectionDiff[];
   fileGroups: FileGroup[];
+  libraryGroups: LibraryGroup[];
+  directoryGroups?: DirectoryGroup[]; // Empty unless the builds were analyzed with DWARF debug info
   topIncreases: SectionDiff[];
   topDecreases: SectionDiff[];
   anomalies: Anomaly[];
@@ -99,6 +337,8 @@ export type CompareResult = {
 export type DiffEntry = {
   name: string;
   filePath: string | null;
+  library: string | null;
+  objectFile: string | null;
   sizeV1: number;
   sizeV2: number;
   sizeDiff: number;
@@ -108,7 +348,19 @@ export type DiffEntry = {
   addressDiff: number | null;
   addressShifted: boolean;
   status: 'added' | 'removed' | 'growth' | 'shrink' | 'same';
-  region: 'FLASH' | 'RAM' | 'OTHER';
+  region: string; // Memory region name, or 'OTHER' when not placed in any region
+  loadRegion?: string | null; // Region holding the load image, e.g. FLASH for .data
+  gcTransition?: 'kept' | 'discarded' | null;
+  category?: 'section' | 'padding'; // Padding entries hold fill/alignment bytes of one output section
+}
+
+export type DiffGroup = {
+  name: string;
+  sizeV1: number;
+  sizeV2: number;
+  sizeDiff: number;
+  sizeDiffPct: number;
+  sectionCount: number;
 }
 
 export type DiffAnomaly = DiffEntry & {
@@ -124,17 +376,26 @@ export type DiffSummary = {
   sectionsGrowth: number;
   sectionsShrink: number;
   sectionsUnchanged: number;
+  sectionsNewlyKept?: number;
+  sectionsNewlyDiscarded?: number;
   totalSizeV1: number;
   totalSizeV2: number;
   totalSizeDiff: number;
   totalSizeDiffPct: number;
+  paddingV1?: number;
+  paddingV2?: number;
+  paddingDiff?: number;
   anomalyCount: number;
 }
 
 export type DiffResult = {
   diffId?: string;
+  builds?: { v1: Build; v2: Build }; // Present when two stored builds were compared
   summary: DiffSummary;
   diff: DiffEntry[];
+  fileGroups: DiffGroup[];
+  libraryGroups: DiffGroup[];
+  regionGroups?: DiffGroup[];
   anomalies: DiffAnomaly[];
   metadata: {
     comparedAt: string;
@@ -145,3 +406,39 @@ export type DiffResult = {
     };
   };
 }
+
+// Build history types (backend /projects endpoints)
+export type BuildRegion = {
+  name: string;
+  lengthBytes: number;
+  used: number;
+}
+
+// One CI build of a project, without its analysis
+export type Build = {
+  buildId: string;
+  project: string;
+  commit: string;
+  branch: string;
+  buildNumber: number | null;
+  timestamp: string; // ISO 8601, the CI's or the upload time
+  target: string | null;
+  fileName: string;
+  format: string | null;
+  regions: BuildRegion[];
+}
+
+export type Project = {
+  name: string;
+  description: string | null;
+  createdAt: string;
+  buildCount: number;
+  branches: string[];
+  lastBuildAt: string | null;
+}
+
+// Builds of one branch, oldest first, from GET /projects/:name/timeline
+export type BranchTimeline = {
+  branch: string;
+  builds: Build[];
+}
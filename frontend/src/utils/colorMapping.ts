@@ -66,3 +66,13 @@ export const PIE_CHART_COLORS = [
   '#8e44ad', '#2980b9', '#c0392b', '#27ae60', '#d68910',
   '#95a5a6', // Gray for "Other"
 ];
+
+// Mantine colors for memory region badges; unknown/unplaced regions are gray
+const REGION_COLORS = ['blue', 'orange', 'teal', 'grape', 'cyan', 'pink', 'lime', 'indigo'];
+
+export function getRegionColor(regionName?: string | null): string {
+  if (!regionName || regionName === 'OTHER') return 'gray';
+  if (/FLASH|ROM/i.test(regionName)) return 'blue';
+  if (/^RAM$|SRAM/i.test(regionName)) return 'orange';
+  return REGION_COLORS[hashString(regionName) % REGION_COLORS.length];
+}
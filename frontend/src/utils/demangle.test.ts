@@ -0,0 +1,59 @@
+import { describe, expect, test } from 'vitest';
+import { demangle, templateFamily } from './demangle';
+
+const DROP_VEC_U8 = '_ZN4core3ptr46drop_in_place$LT$alloc..vec..Vec$LT$u8$GT$$GT$17h0123456789abcdefE';
+const DROP_VEC_U32 = '_ZN4core3ptr47drop_in_place$LT$alloc..vec..Vec$LT$u32$GT$$GT$17hfedcba9876543210E';
+
+describe('demangle', () => {
+  test('C++ names', () => {
+    expect(demangle('_ZN3hal4uart8transmitEPKhj')).toBe('hal::uart::transmit(unsigned char const*, unsigned int)');
+  });
+
+  test('C++ array and function declarators nest as c++filt prints them', () => {
+    expect(demangle('_Z1fA1_A1_i')).toBe('f(int [1][1])');
+    expect(demangle('_Z1fRA2_A3_i')).toBe('f(int (&) [2][3])');
+    expect(demangle('_ZN2ns1fEPFPFivEvE')).toBe('ns::f(int (*(*)())())');
+    expect(demangle('_Z1fPFRA3_ivE')).toBe('f(int (& (*)()) [3])');
+    expect(demangle('_Z1fRA2_PFvvE')).toBe('f(void (* (&) [2])())');
+    expect(demangle('_Z1fM1AFPFvvEvE')).toBe('f(void (* (A::*)())())');
+    expect(demangle('_Z1fRKA2_i')).toBe('f(int const (&) [2])');
+    expect(demangle('_Z1fIiEPFvvEv')).toBe('void (*f<int>())()');
+  });
+
+  test('C++ qualifiers in c++filt order', () => {
+    expect(demangle('_ZNVK3Foo3getEv')).toBe('Foo::get() const volatile');
+    expect(demangle('_ZNrVK3Foo3getEv')).toBe('Foo::get() const volatile restrict');
+    expect(demangle('_Z1fPrVKi')).toBe('f(int const volatile restrict*)');
+  });
+
+  test('Rust legacy names, without the hash', () => {
+    expect(demangle(DROP_VEC_U8)).toBe('core::ptr::drop_in_place<alloc::vec::Vec<u8>>');
+  });
+
+  test('mangled part of a section name', () => {
+    expect(demangle('.text._ZN3hal4uart8transmitEPKhj')).toBe('.text.hal::uart::transmit(unsigned char const*, unsigned int)');
+  });
+
+  test('names that are not mangled', () => {
+    expect(demangle('HAL_Init')).toBeNull();
+  });
+});
+
+describe('templateFamily', () => {
+  test('C++ instantiations share the template', () => {
+    expect(templateFamily('_ZNSt6vectorIiSaIiEE9push_backERKi')).toBe('std::vector<…>::push_back');
+    expect(templateFamily('_ZN3hal4uart8transmitEPKhj')).toBeNull();
+  });
+
+  test('Rust legacy monomorphizations share the generic path', () => {
+    expect(templateFamily(DROP_VEC_U8)).toBe('core::ptr::drop_in_place<…>');
+    expect(templateFamily(DROP_VEC_U32)).toBe('core::ptr::drop_in_place<…>');
+    expect(templateFamily(`.text.${DROP_VEC_U8}`)).toBe('core::ptr::drop_in_place<…>');
+    expect(templateFamily('_ZN70_$LT$alloc..vec..Vec$LT$T$C$A$GT$$u20$as$u20$core..ops..drop..Drop$GT$4drop17h0123456789abcdefE'))
+      .toBe('<alloc::vec::Vec<…> as core::ops::drop::Drop>::drop');
+  });
+
+  test('Rust legacy paths without generic arguments are no family', () => {
+    expect(templateFamily('_ZN3app4main17h0123456789abcdefE')).toBeNull();
+  });
+});
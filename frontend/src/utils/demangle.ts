@@ -0,0 +1,1358 @@
+// Demangling of C++ (Itanium ABI, as GCC and Clang emit it) and Rust (legacy and v0) symbol names,
+// so `_ZN3hal4uart8transmitEPKhj` reads as `hal::uart::transmit(unsigned char const*, unsigned int)`.
+// Output follows c++filt for C++ and rustc-demangle's alternate form (no hashes) for Rust.
+// Anything outside the supported grammar is left mangled: callers show the raw name instead
+
+// Names demangled so far; emptied when full, so analyzing build after build does not grow it without limit
+const cache = new Map<string, string | null>();
+const CACHE_LIMIT = 50000;
+
+// Demangled form of a symbol name, or of the mangled part of a section name
+// (".text._ZN3foo3barEv" → ".text.foo::bar()"); null when the name is not mangled
+export function demangle(name: string): string | null {
+  let result = cache.get(name);
+  if (result === undefined) {
+    result = demangleName(name);
+    if (cache.size >= CACHE_LIMIT) {
+      cache.clear();
+    }
+    cache.set(name, result);
+  }
+  return result;
+}
+
+function demangleName(name: string): string | null {
+  const mangled = demangleSymbol(name);
+  if (mangled !== null) {
+    return mangled;
+  }
+  const [prefix, symbol] = splitSectionName(name);
+  const demangled = prefix ? demangleSymbol(symbol) : null;
+  return demangled === null ? null : prefix + demangled;
+}
+
+// -ffunction-sections / -fdata-sections put the symbol after the input section name:
+// ".text._ZN3foo3barEv" → [".text.", "_ZN3foo3barEv"]; names without a mangled part give ["", name]
+function splitSectionName(name: string): [string, string] {
+  const match = name.startsWith('.') ? /\.(?=_{1,2}Z|_R)/.exec(name.slice(1)) : null;
+  if (!match) {
+    return ['', name];
+  }
+  const split = match.index + 2;
+  return [name.slice(0, split), name.slice(split)];
+}
+
+// ---- Template families ----
+
+const SPECIAL_NAME_PREFIX = /^(?:vtable for |VTT for |typeinfo (?:name )?for |guard variable for |(?:non-)?virtual thunk to |covariant return thunk to |TLS (?:init|wrapper) function for |transaction clone for )/;
+
+// Operators whose names hold angle brackets or parentheses, masked while the name is taken apart
+const OPERATOR_TOKEN = /operator(?:<=>|<<=|>>=|<<|>>|<=|>=|->\*|->|<|>|\(\)|\[\])(?: (?=<))?/g;
+
+// The template or generic a section or symbol was instantiated from, with its arguments and the
+// function's parameters and return type left out: every `std::vector<int>::push_back(int const&)` and
+// `std::vector<Foo>::push_back(Foo const&)` is `std::vector<…>::push_back`, and Rust's
+// `core::ptr::drop_in_place<alloc::vec::Vec<u8>>` is `core::ptr::drop_in_place<…>`.
+// null for names that are not mangled, or are outside any template or generic
+export function templateFamily(name: string): string | null {
+  const demangled = demangle(name);
+  if (demangled === null) {
+    return null;
+  }
+  const [prefix] = splitSectionName(name);
+  const text = demangled.slice(prefix.length);
+  const special = SPECIAL_NAME_PREFIX.exec(text)?.[0] || '';
+  const family = collapseTemplateArgs(text.slice(special.length));
+  return family === null ? null : special + family;
+}
+
+function collapseTemplateArgs(text: string): string | null {
+  const masked: string[] = [];
+  const mask = (token: string) => {
+    masked.push(token);
+    return String.fromCharCode(0xe000 + masked.length - 1);
+  };
+  const source = text
+    .replace(/ \[clone [^\]]*\]/g, '')
+    .replace(/\(anonymous namespace\)| -> /g, mask)
+    .replace(OPERATOR_TOKEN, mask);
+
+  let out = '';
+  let generic = false;
+  // Depth of qualified paths (Rust `<T as Trait>`), whose brackets are kept
+  let qualified = 0;
+  for (let i = 0; i < source.length; i++) {
+    const c = source[i];
+    if (c === '<' && /[\w$:\]\ue000-\uf8ff]$/.test(out)) {
+      // Template or generic arguments: dropped
+      i = skipGroup(source, i);
+      out += '<…>';
+      generic = true;
+    } else if (c === '<') {
+      qualified++;
+      out += c;
+    } else if (c === '>' && qualified > 0) {
+      qualified--;
+      out += c;
+    } else if (c === '(' && qualified === 0) {
+      // Function parameters (and decltype operands of return types): dropped
+      i = skipGroup(source, i);
+    } else if (c === '{') {
+      // Lambdas and closures are kept as written
+      const end = skipGroup(source, i);
+      out += source.slice(i, end + 1);
+      i = end;
+    } else {
+      out += c;
+    }
+  }
+  if (!generic) {
+    return null;
+  }
+
+  // What remains before the name at the outermost level is a function template's return type
+  out = out.replace(/(?: const| volatile| &&| &)+$/, '');
+  let nameStart = 0;
+  let depth = 0;
+  for (let i = 0; i < out.length; i++) {
+    const c = out[i];
+    if (c === '<' || c === '{') {
+      depth++;
+    } else if (c === '>' || c === '}') {
+      depth--;
+    } else if (depth === 0 && out.startsWith('operator', i)) {
+      break; // "operator new", "operator unsigned int"
+    } else if (c === ' ' && depth === 0) {
+      nameStart = i + 1;
+    }
+  }
+  return out.slice(nameStart).replace(/[\ue000-\uf8ff]/g, c => masked[c.charCodeAt(0) - 0xe000]);
+}
+
+// Index of the bracket closing the group that opens at `start`
+function skipGroup(text: string, start: number): number {
+  let depth = 0;
+  for (let i = start; i < text.length; i++) {
+    const c = text[i];
+    if (c === '<' || c === '(' || c === '{' || c === '[') {
+      depth++;
+    } else if (c === '>' || c === ')' || c === '}' || c === ']') {
+      depth--;
+      if (depth === 0) {
+        return i;
+      }
+    }
+  }
+  return text.length - 1;
+}
+
+function demangleSymbol(name: string): string | null {
+  try {
+    if (name.startsWith('_GLOBAL__sub_I_') || name.startsWith('_GLOBAL__sub_D_')) {
+      const keyed = name.slice(15);
+      return `global ${name[13] === 'I' ? 'constructors' : 'destructors'} keyed to ${demangleSymbol(keyed) ?? keyed}`;
+    }
+    if (/^_{1,2}R[A-Z_]/.test(name)) {
+      return demangleRust(name.slice(name.indexOf('R') + 1));
+    }
+    const itanium = name.startsWith('__Z') ? name.slice(1) : name;
+    if (itanium.startsWith('_Z')) {
+      return demangleRustLegacy(itanium) ?? demangleItanium(itanium);
+    }
+  } catch {
+    // Malformed or unsupported: fall through and keep the raw name
+  }
+  return null;
+}
+
+function fail(): never {
+  throw new Error('Unsupported mangled name');
+}
+
+// ---- Rust legacy: an Itanium nested name of plain identifiers ending in a hash, _ZN...17h<16 hex>E ----
+
+const RUST_ESCAPES: Record<string, string> = {
+  SP: '@', BP: '*', RF: '&', LT: '<', GT: '>', LP: '(', RP: ')', C: ',',
+};
+
+function demangleRustLegacy(name: string): string | null {
+  if (!name.startsWith('_ZN')) {
+    return null;
+  }
+  const parts: string[] = [];
+  let pos = 3;
+  while (pos < name.length && name[pos] !== 'E') {
+    const digits = /^\d+/.exec(name.slice(pos));
+    if (!digits) {
+      return null;
+    }
+    pos += digits[0].length;
+    parts.push(name.slice(pos, pos + Number(digits[0])));
+    pos += Number(digits[0]);
+  }
+  // The suffix after E is a compiler-added ".llvm.<n>" or similar and not part of the name
+  if (pos >= name.length || parts.length < 2 || !/^h[0-9a-f]{16}$/.test(parts[parts.length - 1])) {
+    return null;
+  }
+  return parts.slice(0, -1).map(decodeRustLegacyPart).join('::');
+}
+
+function decodeRustLegacyPart(part: string): string {
+  return part
+    .replace(/^_\$/, '$')
+    .replace(/\.\./g, '::')
+    .replace(/\$([A-Za-z0-9]+)\$/g, (escape, code: string) => {
+      if (code in RUST_ESCAPES) {
+        return RUST_ESCAPES[code];
+      }
+      return /^u[0-9a-f]+$/.test(code) ? String.fromCodePoint(parseInt(code.slice(1), 16)) : escape;
+    });
+}
+
+// ---- Rust v0 (_R...) ----
+
+const RUST_BASIC_TYPES: Record<string, string> = {
+  a: 'i8', b: 'bool', c: 'char', d: 'f64', e: 'str', f: 'f32', h: 'u8', i: 'isize', j: 'usize', l: 'i32',
+  m: 'u32', n: 'i128', o: 'u128', s: 'i16', t: 'u16', u: '()', v: '...', x: 'i64', y: 'u64', z: '!', p: '_',
+};
+
+const RUST_INTEGER_TYPES = 'ahijlmnostxy';
+
+function demangleRust(sym: string): string {
+  let pos = 0;
+  let lifetimeDepth = 0;
+
+  const peek = () => sym[pos];
+  const eat = (c: string) => {
+    if (sym[pos] === c) {
+      pos++;
+      return true;
+    }
+    return false;
+  };
+  const next = () => {
+    if (pos >= sym.length) {
+      fail();
+    }
+    return sym[pos++];
+  };
+
+  // <base-62-number>: "_" is 0, otherwise the digits' value plus one
+  const base62 = () => {
+    if (eat('_')) {
+      return 0;
+    }
+    let value = 0;
+    for (;;) {
+      const c = next();
+      if (c === '_') {
+        return value + 1;
+      }
+      const digit = '0123456789abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ'.indexOf(c);
+      if (digit < 0) {
+        fail();
+      }
+      value = value * 62 + digit;
+    }
+  };
+  const optBase62 = (tag: string) => (eat(tag) ? base62() + 1 : 0);
+
+  const decimal = () => {
+    const digits = /^\d+/.exec(sym.slice(pos));
+    if (!digits) {
+      fail();
+    }
+    pos += digits[0].length;
+    return Number(digits[0]);
+  };
+
+  const backref = <T>(parse: () => T): T => {
+    const start = pos - 1;
+    const target = base62();
+    if (target >= start) {
+      fail();
+    }
+    const saved = pos;
+    pos = target;
+    const result = parse();
+    pos = saved;
+    return result;
+  };
+
+  const identifier = () => {
+    const disambiguator = optBase62('s');
+    const punycode = eat('u');
+    const length = decimal();
+    eat('_');
+    const bytes = sym.slice(pos, pos + length);
+    if (bytes.length !== length) {
+      fail();
+    }
+    pos += length;
+    return { name: punycode ? decodePunycode(bytes) : bytes, disambiguator };
+  };
+
+  const lifetime = (index: number) => {
+    if (index === 0) {
+      return "'_";
+    }
+    const depth = lifetimeDepth - index;
+    if (depth < 0) {
+      fail();
+    }
+    return depth < 26 ? `'${String.fromCharCode(97 + depth)}` : `'_${depth}`;
+  };
+
+  // Bound lifetimes of a for<...> binder, named from 'a as they are introduced
+  const binder = () => {
+    const count = optBase62('G');
+    const names: string[] = [];
+    for (let i = 0; i < count; i++) {
+      lifetimeDepth++;
+      names.push(lifetime(1));
+    }
+    return names.length ? `for<${names.join(', ')}> ` : '';
+  };
+
+  const path = (inValue: boolean): string => {
+    const tag = next();
+    switch (tag) {
+      case 'C':
+        return identifier().name;
+      case 'N': {
+        const namespace = next();
+        const parent = path(inValue);
+        const { name, disambiguator } = identifier();
+        if (namespace >= 'A' && namespace <= 'Z') {
+          const kind = namespace === 'C' ? 'closure' : namespace === 'S' ? 'shim' : namespace;
+          return `${parent}::{${kind}${name ? `:${name}` : ''}#${disambiguator}}`;
+        }
+        return name ? `${parent}::${name}` : parent;
+      }
+      case 'M': {
+        optBase62('s');
+        path(false);
+        return `<${type()}>`;
+      }
+      case 'X': {
+        optBase62('s');
+        path(false);
+        const self = type();
+        return `<${self} as ${path(false)}>`;
+      }
+      case 'Y': {
+        const self = type();
+        return `<${self} as ${path(false)}>`;
+      }
+      case 'I': {
+        const base = path(inValue);
+        const args: string[] = [];
+        while (!eat('E')) {
+          args.push(genericArg());
+        }
+        return `${base}${inValue ? '::' : ''}<${args.join(', ')}>`;
+      }
+      case 'B':
+        return backref(() => path(inValue));
+      default:
+        return fail();
+    }
+  };
+
+  const genericArg = () => {
+    if (eat('L')) {
+      return lifetime(base62());
+    }
+    if (eat('K')) {
+      return constant();
+    }
+    return type();
+  };
+
+  const type = (): string => {
+    const tag = next();
+    if (tag in RUST_BASIC_TYPES) {
+      return RUST_BASIC_TYPES[tag];
+    }
+    switch (tag) {
+      case 'R':
+      case 'Q': {
+        let prefix = tag === 'R' ? '&' : '&mut ';
+        if (eat('L')) {
+          const index = base62();
+          if (index !== 0) {
+            prefix = `&${lifetime(index)} ${tag === 'Q' ? 'mut ' : ''}`;
+          }
+        }
+        return prefix + type();
+      }
+      case 'P':
+        return `*const ${type()}`;
+      case 'O':
+        return `*mut ${type()}`;
+      case 'A': {
+        const element = type();
+        return `[${element}; ${constant()}]`;
+      }
+      case 'S':
+        return `[${type()}]`;
+      case 'T': {
+        const elements: string[] = [];
+        while (!eat('E')) {
+          elements.push(type());
+        }
+        return elements.length === 1 ? `(${elements[0]},)` : `(${elements.join(', ')})`;
+      }
+      case 'F': {
+        const depth = lifetimeDepth;
+        let signature = binder();
+        if (eat('U')) {
+          signature += 'unsafe ';
+        }
+        if (eat('K')) {
+          signature += `extern "${eat('C') ? 'C' : identifier().name.replace(/_/g, '-')}" `;
+        }
+        const params: string[] = [];
+        while (!eat('E')) {
+          params.push(type());
+        }
+        const output = eat('u') ? '' : ` -> ${type()}`;
+        lifetimeDepth = depth;
+        return `${signature}fn(${params.join(', ')})${output}`;
+      }
+      case 'D': {
+        const depth = lifetimeDepth;
+        const bounds: string[] = [];
+        const forBounds = binder();
+        while (!eat('E')) {
+          let trait = path(false);
+          const bindings: string[] = [];
+          while (eat('p')) {
+            const { name } = identifier();
+            bindings.push(`${name} = ${type()}`);
+          }
+          if (bindings.length) {
+            trait = trait.endsWith('>')
+              ? `${trait.slice(0, -1)}, ${bindings.join(', ')}>`
+              : `${trait}<${bindings.join(', ')}>`;
+          }
+          bounds.push(trait);
+        }
+        lifetimeDepth = depth;
+        if (!eat('L')) {
+          fail();
+        }
+        const bound = base62();
+        return `dyn ${forBounds}${bounds.join(' + ')}${bound ? ` + ${lifetime(bound)}` : ''}`;
+      }
+      case 'B':
+        return backref(type);
+      default:
+        pos--;
+        return path(false);
+    }
+  };
+
+  const constant = (): string => {
+    if (eat('p')) {
+      return '_';
+    }
+    if (eat('B')) {
+      return backref(constant);
+    }
+    const kind = next();
+    const negative = eat('n');
+    const end = sym.indexOf('_', pos);
+    if (end < 0) {
+      fail();
+    }
+    const hex = sym.slice(pos, end);
+    pos = end + 1;
+    const value = hex ? BigInt(`0x${hex}`) : 0n;
+    if (RUST_INTEGER_TYPES.includes(kind)) {
+      return `${negative ? '-' : ''}${value}`;
+    }
+    if (kind === 'b' && value <= 1n) {
+      return value ? 'true' : 'false';
+    }
+    if (kind === 'c') {
+      return `'${String.fromCodePoint(Number(value))}'`;
+    }
+    return fail();
+  };
+
+  if (peek() >= '0' && peek() <= '9') {
+    fail(); // encoding versions other than the first are not defined
+  }
+  const result = path(true);
+  // An instantiating crate and vendor suffixes (".llvm.<n>") may follow; neither is shown
+  if (pos < sym.length && peek() !== '.') {
+    path(false);
+  }
+  if (pos < sym.length && peek() !== '.') {
+    fail();
+  }
+  return result;
+}
+
+// RFC 3492 Punycode, with "_" in place of "-" as the delimiter as Rust v0 uses it
+function decodePunycode(input: string): string {
+  const delimiter = input.lastIndexOf('_');
+  const output = delimiter > 0 ? Array.from(input.slice(0, delimiter)) : [];
+  let n = 128;
+  let bias = 72;
+  let i = 0;
+  for (let pos = delimiter > 0 ? delimiter + 1 : 0; pos < input.length;) {
+    const oldI = i;
+    let weight = 1;
+    for (let k = 36; ; k += 36) {
+      const c = input.charCodeAt(pos++);
+      const digit = c >= 97 && c <= 122 ? c - 97 : c >= 48 && c <= 57 ? c - 22 : fail();
+      i += digit * weight;
+      const t = k <= bias ? 1 : k >= bias + 26 ? 26 : k - bias;
+      if (digit < t) {
+        break;
+      }
+      weight *= 36 - t;
+    }
+    const length = output.length + 1;
+    let delta = oldI === 0 ? Math.floor((i - oldI) / 700) : Math.floor((i - oldI) / 2);
+    delta += Math.floor(delta / length);
+    let k = 0;
+    while (delta > 455) {
+      delta = Math.floor(delta / 35);
+      k += 36;
+    }
+    bias = k + Math.floor((36 * delta) / (delta + 38));
+    n += Math.floor(i / length);
+    i %= length;
+    output.splice(i++, 0, String.fromCodePoint(n));
+  }
+  return output.join('');
+}
+
+// ---- C++: Itanium C++ ABI ----
+
+// Types are kept as a small tree so declarators print the C way round: "void (*)(int)", "int (&) [4]"
+type CxxType =
+  | { kind: 'name'; text: string; last?: string; templated?: boolean; suffix?: string; noReturn?: boolean }
+  | { kind: 'qual'; quals: string; inner: CxxType }
+  | { kind: 'ptr'; op: string; inner: CxxType }
+  | { kind: 'func'; ret: CxxType; params: CxxType[]; suffix: string }
+  | { kind: 'array'; dim: string; inner: CxxType }
+  | { kind: 'member'; cls: CxxType; inner: CxxType }
+  | { kind: 'pack'; inner: CxxType }
+  | { kind: 'list'; items: CxxType[] }
+  | { kind: 'param'; resolve: () => CxxType };
+
+type CxxName = Extract<CxxType, { kind: 'name' }>;
+
+const BUILTIN_TYPES: Record<string, string> = {
+  v: 'void', w: 'wchar_t', b: 'bool', c: 'char', a: 'signed char', h: 'unsigned char', s: 'short',
+  t: 'unsigned short', i: 'int', j: 'unsigned int', l: 'long', m: 'unsigned long', x: 'long long',
+  y: 'unsigned long long', n: '__int128', o: 'unsigned __int128', f: 'float', d: 'double',
+  e: 'long double', g: '__float128', z: '...',
+};
+
+const BUILTIN_D_TYPES: Record<string, string> = {
+  d: 'decimal64', e: 'decimal128', f: 'decimal32', h: 'half', i: 'char32_t', s: 'char16_t',
+  u: 'char8_t', a: 'auto', c: 'decltype(auto)', n: 'decltype(nullptr)',
+};
+
+// Operator encodings: printed name and operand count, for names and for expressions
+const OPERATORS: Record<string, [string, number]> = {
+  nw: ['new', 1], na: ['new[]', 1], dl: ['delete', 1], da: ['delete[]', 1],
+  ps: ['+', 1], ng: ['-', 1], ad: ['&', 1], de: ['*', 1], co: ['~', 1],
+  pl: ['+', 2], mi: ['-', 2], ml: ['*', 2], dv: ['/', 2], rm: ['%', 2], an: ['&', 2], or: ['|', 2], eo: ['^', 2],
+  aS: ['=', 2], pL: ['+=', 2], mI: ['-=', 2], mL: ['*=', 2], dV: ['/=', 2], rM: ['%=', 2],
+  aN: ['&=', 2], oR: ['|=', 2], eO: ['^=', 2], ls: ['<<', 2], rs: ['>>', 2], lS: ['<<=', 2], rS: ['>>=', 2],
+  eq: ['==', 2], ne: ['!=', 2], lt: ['<', 2], gt: ['>', 2], le: ['<=', 2], ge: ['>=', 2], ss: ['<=>', 2],
+  nt: ['!', 1], aa: ['&&', 2], oo: ['||', 2], pp: ['++', 1], mm: ['--', 1], cm: [',', 2],
+  pm: ['->*', 2], pt: ['->', 2], cl: ['()', 2], ix: ['[]', 2], qu: ['?', 3],
+  st: ['sizeof ', 1], sz: ['sizeof ', 1], at: ['alignof ', 1], az: ['alignof ', 1],
+};
+
+// Standard abbreviations, spelled out in full as c++filt does
+const STD_SUBSTITUTIONS: Record<string, [string, string]> = {
+  a: ['std::allocator', 'allocator'],
+  b: ['std::basic_string', 'basic_string'],
+  s: ['std::basic_string<char, std::char_traits<char>, std::allocator<char> >', 'basic_string'],
+  i: ['std::basic_istream<char, std::char_traits<char> >', 'basic_istream'],
+  o: ['std::basic_ostream<char, std::char_traits<char> >', 'basic_ostream'],
+  d: ['std::basic_iostream<char, std::char_traits<char> >', 'basic_iostream'],
+};
+
+const nameNode = (text: string, extra: Partial<CxxName> = {}): CxxName => ({ kind: 'name', text, ...extra });
+
+function printType(type: CxxType): string {
+  return printDeclarator(type, '');
+}
+
+// Print a type around an inner declarator, e.g. "*" for a pointer to it. `outer` is the kind of type
+// the declarator was built from: arrays of arrays and function declarators depend on it
+function printDeclarator(type: CxxType, inner: string, outer: CxxType['kind'] = 'name'): string {
+  switch (type.kind) {
+    case 'name':
+      return type.text + inner;
+    case 'qual':
+      return printDeclarator(type.inner, ` ${type.quals}${inner}`, 'qual');
+    case 'ptr': {
+      // References to references collapse: & wins over &&
+      const target = type.inner.kind === 'param' ? type.inner.resolve() : type.inner;
+      if (type.op !== '*' && target.kind === 'ptr' && target.op !== '*') {
+        const op = type.op === '&&' && target.op === '&&' ? '&&' : '&';
+        return printDeclarator({ kind: 'ptr', op, inner: target.inner }, inner, outer);
+      }
+      // A parenthesized declarator follows "*" directly, and a reference after a space: "void (& (*)())()"
+      const space = type.op !== '*' && inner.startsWith('(') ? ' ' : '';
+      return printDeclarator(type.inner, `${type.op}${space}${inner}`, 'ptr');
+    }
+    case 'func': {
+      const paren = !inner ? '' : outer === 'member' ? ` (${inner})` : `(${inner})`;
+      const declarator = `${paren}(${printParams(type.params)})${type.suffix}`;
+      // A return type that is itself a declarator, e.g. a function pointer, is printed around this one:
+      // "int (*(*)())()" for a pointer to a function returning a function pointer
+      return isDeclarator(type.ret)
+        ? printDeclarator(type.ret, declarator, 'func')
+        : `${printType(type.ret)} ${declarator.trimStart()}`;
+    }
+    case 'array':
+      // Dimensions of arrays of arrays follow each other, outermost first: "int (&) [2][3]"
+      if (outer === 'array') {
+        return printDeclarator(type.inner, `${inner}[${type.dim}]`, 'array');
+      }
+      return printDeclarator(type.inner, inner ? ` (${inner.trim()}) [${type.dim}]` : ` [${type.dim}]`, 'array');
+    case 'member':
+      return type.inner.kind === 'func'
+        ? printDeclarator(type.inner, `${printType(type.cls)}::*${inner}`, 'member')
+        : printDeclarator(type.inner, ` ${printType(type.cls)}::*${inner}`, 'member');
+    case 'pack': {
+      // A pack expansion of a known argument pack prints once per argument
+      const pack = findPack(type.inner);
+      if (!pack) {
+        return `${printDeclarator(type.inner, inner, outer)}...`;
+      }
+      return pack.items.map(item => printDeclarator(replacePack(type.inner, item), inner, outer)).join(', ');
+    }
+    case 'list':
+      return joinTypes(type.items);
+    case 'param':
+      return printDeclarator(type.resolve(), inner, outer);
+  }
+}
+
+// Whether pointers, references and qualifiers lead to a function or array type, whose declarator
+// surrounds the one of a function returning it rather than following it
+function isDeclarator(type: CxxType): boolean {
+  switch (type.kind) {
+    case 'func':
+    case 'array':
+      return true;
+    case 'qual':
+    case 'ptr':
+    case 'member':
+      return isDeclarator(type.inner);
+    case 'param':
+      return isDeclarator(type.resolve());
+    default:
+      return false;
+  }
+}
+
+function findPack(type: CxxType): Extract<CxxType, { kind: 'list' }> | null {
+  if (type.kind === 'list') {
+    return type;
+  }
+  if (type.kind === 'param') {
+    return findPack(type.resolve());
+  }
+  return type.kind === 'qual' || type.kind === 'ptr' ? findPack(type.inner) : null;
+}
+
+function replacePack(type: CxxType, item: CxxType): CxxType {
+  if (type.kind === 'list') {
+    return item;
+  }
+  if (type.kind === 'param') {
+    return replacePack(type.resolve(), item);
+  }
+  return type.kind === 'qual' || type.kind === 'ptr' ? { ...type, inner: replacePack(type.inner, item) } : type;
+}
+
+// A lone void parameter is an empty list
+function printParams(params: CxxType[]): string {
+  if (params.length === 1 && params[0].kind === 'name' && params[0].text === 'void') {
+    return '';
+  }
+  return joinTypes(params);
+}
+
+// Empty argument packs print as nothing, not as an empty list entry
+function joinTypes(types: CxxType[]): string {
+  return types.map(printType).filter(text => text !== '').join(', ');
+}
+
+function templateArgsText(args: CxxType[]): string {
+  const text = joinTypes(args);
+  return `<${text}${text.endsWith('>') ? ' ' : ''}>`;
+}
+
+function demangleItanium(symbol: string): string {
+  const s = symbol;
+  let pos = 2;
+  const subs: CxxType[] = [];
+  let templateParams: CxxType[] = [];
+  // Within a generic lambda's signature, template parameters are its auto parameters
+  let inLambda = false;
+
+  const peek = (offset = 0) => s[pos + offset] ?? '';
+  const eat = (c: string) => {
+    if (s.startsWith(c, pos)) {
+      pos += c.length;
+      return true;
+    }
+    return false;
+  };
+  const expect = (c: string) => {
+    if (!eat(c)) {
+      fail();
+    }
+  };
+  const isDigit = (c: string) => c >= '0' && c <= '9';
+  const addSub = <T extends CxxType>(type: T): T => {
+    subs.push(type);
+    return type;
+  };
+
+  const number = () => {
+    const negative = eat('n');
+    const digits = /^\d+/.exec(s.slice(pos));
+    if (!digits) {
+      fail();
+    }
+    pos += digits[0].length;
+    return negative ? -Number(digits[0]) : Number(digits[0]);
+  };
+
+  // <seq-id> is base 36 with upper-case digits, and one less than the index it refers to
+  const seqId = () => {
+    let value = 0;
+    let digits = 0;
+    while (/[0-9A-Z]/.test(peek())) {
+      value = value * 36 + parseInt(s[pos++], 36);
+      digits++;
+    }
+    expect('_');
+    return digits ? value + 1 : 0;
+  };
+
+  const discriminator = () => {
+    if (eat('__')) {
+      number();
+      expect('_');
+    } else if (peek() === '_' && isDigit(peek(1))) {
+      pos += 2;
+    }
+  };
+
+  const sourceName = () => {
+    const length = number();
+    if (length <= 0 || pos + length > s.length) {
+      fail();
+    }
+    const id = s.slice(pos, pos + length);
+    pos += length;
+    return /^_GLOBAL_[._$]N/.test(id) ? '(anonymous namespace)' : id;
+  };
+
+  const abiTags = (text: string) => {
+    while (eat('B')) {
+      text += `[abi:${sourceName()}]`;
+    }
+    return text;
+  };
+
+  const operatorName = (): CxxName => {
+    if (eat('cv')) {
+      return nameNode(`operator ${printType(type())}`, { noReturn: true });
+    }
+    if (eat('li')) {
+      return nameNode(`operator"" ${sourceName()}`);
+    }
+    if (eat('v') && isDigit(peek())) {
+      pos++;
+      return nameNode(`operator ${sourceName()}`);
+    }
+    const operator = OPERATORS[s.slice(pos, pos + 2)];
+    if (!operator) {
+      fail();
+    }
+    pos += 2;
+    return nameNode(`operator${/^[a-z]/.test(operator[0]) ? ' ' : ''}${operator[0].trim()}`);
+  };
+
+  // <unqualified-name>; `scope` is the enclosing name, whose last component names ctors and dtors
+  const unqualifiedName = (scope: CxxName | null): CxxName => {
+    const c = peek();
+    let name: CxxName;
+    if (isDigit(c)) {
+      const id = sourceName();
+      name = nameNode(id, { last: id });
+    } else if (c === 'L' && isDigit(peek(1))) {
+      pos++;
+      const id = sourceName();
+      discriminator();
+      name = nameNode(id, { last: id });
+    } else if (c === 'C' && /[1-5I]/.test(peek(1))) {
+      // Inheriting constructors (CI1, CI2) name the base class they inherit from
+      const inheriting = peek(1) === 'I';
+      pos += inheriting ? 3 : 2;
+      if (inheriting) {
+        type();
+      }
+      name = nameNode(scope?.last ?? fail(), { noReturn: true });
+    } else if (c === 'D' && /[0-5]/.test(peek(1))) {
+      pos += 2;
+      name = nameNode(`~${scope?.last ?? fail()}`, { noReturn: true });
+    } else if (eat('DC')) {
+      const names: string[] = [];
+      while (!eat('E')) {
+        names.push(sourceName());
+      }
+      name = nameNode(`[${names.join(', ')}]`);
+    } else if (eat('Ut')) {
+      const index = peek() === '_' ? 1 : number() + 2;
+      expect('_');
+      name = nameNode(`{unnamed type#${index}}`);
+    } else if (eat('Ul')) {
+      const params: CxxType[] = [];
+      const saved = inLambda;
+      inLambda = true;
+      while (!eat('E')) {
+        params.push(type());
+      }
+      const signature = printParams(params);
+      inLambda = saved;
+      const index = peek() === '_' ? 1 : number() + 2;
+      expect('_');
+      name = nameNode(`{lambda(${signature})#${index}}`);
+    } else if (/[a-z]/.test(c)) {
+      name = operatorName();
+    } else {
+      return fail();
+    }
+    name.text = abiTags(name.text);
+    return name;
+  };
+
+  const templateArgs = (): CxxType[] => {
+    expect('I');
+    const args: CxxType[] = [];
+    while (!eat('E')) {
+      args.push(templateArg());
+    }
+    return args;
+  };
+
+  const templateArg = (): CxxType => {
+    if (peek() === 'L') {
+      return nameNode(literal());
+    }
+    if (eat('X')) {
+      const text = expression();
+      expect('E');
+      return nameNode(text);
+    }
+    if (eat('J')) {
+      const items: CxxType[] = [];
+      while (!eat('E')) {
+        items.push(templateArg());
+      }
+      return { kind: 'list', items };
+    }
+    return type();
+  };
+
+  // Template arguments applied to a name; those of the function being demangled are what T_ refers to
+  const withTemplateArgs = (name: CxxName, outermost: boolean): CxxName => {
+    const args = templateArgs();
+    if (outermost) {
+      templateParams = args;
+    }
+    return nameNode(name.text + (name.text.endsWith('<') ? ' ' : '') + templateArgsText(args), {
+      last: name.last,
+      templated: true,
+      noReturn: name.noReturn,
+    });
+  };
+
+  const templateParam = (): CxxType => {
+    expect('T');
+    const index = peek() === '_' ? 0 : number() + 1;
+    expect('_');
+    // Resolved when printed, as a substitution made inside a lambda's signature may be reused outside it
+    return {
+      kind: 'param',
+      resolve: () => (inLambda ? nameNode(`auto:${index + 1}`) : templateParams[index] ?? fail()),
+    };
+  };
+
+  const substitution = (): CxxType => {
+    expect('S');
+    const std = STD_SUBSTITUTIONS[peek()];
+    if (std) {
+      pos++;
+      return nameNode(std[0], { last: std[1] });
+    }
+    return subs[seqId()] ?? fail();
+  };
+
+  const nestedName = (outermost: boolean): CxxName => {
+    expect('N');
+    let suffix = cvQualifiers();
+    if (eat('R')) {
+      suffix += ' &';
+    } else if (eat('O')) {
+      suffix += ' &&';
+    }
+    let prefix: CxxName | null = null;
+    while (!eat('E')) {
+      const c = peek();
+      if (eat('St')) {
+        prefix = nameNode('std');
+        continue;
+      }
+      if (c === 'S') {
+        prefix = asName(substitution());
+        continue;
+      }
+      if (c === 'I') {
+        if (!prefix) {
+          fail();
+        }
+        prefix = withTemplateArgs(prefix, outermost);
+      } else if (c === 'T') {
+        prefix = asName(templateParam());
+      } else if (c === 'D' && (peek(1) === 't' || peek(1) === 'T')) {
+        prefix = nameNode(declType());
+      } else if (eat('M')) {
+        continue;
+      } else {
+        const name = unqualifiedName(prefix);
+        prefix = nameNode(prefix ? `${prefix.text}::${name.text}` : name.text, {
+          last: name.last ?? prefix?.last,
+          noReturn: name.noReturn,
+        });
+      }
+      if (peek() !== 'E') {
+        addSub(prefix);
+      }
+    }
+    if (!prefix) {
+      fail();
+    }
+    return { ...prefix, suffix };
+  };
+
+  const asName = (type: CxxType): CxxName => (type.kind === 'name' ? type : nameNode(printType(type)));
+
+  const localName = (): CxxName => {
+    expect('Z');
+    const scope = encoding(false);
+    expect('E');
+    if (eat('s')) {
+      discriminator();
+      return nameNode(`${scope}::string literal`);
+    }
+    if (eat('d')) {
+      if (peek() !== '_') {
+        number();
+      }
+      expect('_');
+    }
+    const entity = name(false);
+    discriminator();
+    return { ...entity, text: `${scope}::${entity.text}` };
+  };
+
+  const name = (outermost: boolean): CxxName => {
+    const c = peek();
+    if (c === 'N') {
+      return nestedName(outermost);
+    }
+    if (c === 'Z') {
+      return localName();
+    }
+    let unscoped: CxxName;
+    if (eat('St')) {
+      const inner = unqualifiedName(null);
+      unscoped = nameNode(`std::${inner.text}`, { last: inner.last, noReturn: inner.noReturn });
+    } else if (c === 'S') {
+      unscoped = asName(substitution());
+      return peek() === 'I' ? withTemplateArgs(unscoped, outermost) : unscoped;
+    } else {
+      unscoped = unqualifiedName(null);
+    }
+    if (peek() === 'I') {
+      addSub(unscoped);
+      return withTemplateArgs(unscoped, outermost);
+    }
+    return unscoped;
+  };
+
+  const cvQualifiers = () => {
+    // Printed innermost first, as c++filt does: rVK is "const volatile restrict"
+    let quals = '';
+    if (eat('r')) {
+      quals = ` restrict${quals}`;
+    }
+    if (eat('V')) {
+      quals = ` volatile${quals}`;
+    }
+    if (eat('K')) {
+      quals = ` const${quals}`;
+    }
+    return quals;
+  };
+
+  // Qualifiers of a function type follow its parameters, those of an array apply to its elements
+  const qualify = (quals: string, inner: CxxType): CxxType => {
+    if (inner.kind === 'func') {
+      return { ...inner, suffix: `${inner.suffix} ${quals}` };
+    }
+    if (inner.kind === 'array') {
+      return { ...inner, inner: qualify(quals, inner.inner) };
+    }
+    return { kind: 'qual', quals, inner };
+  };
+
+  const functionType = (): CxxType => {
+    expect('F');
+    eat('Y');
+    const ret = type();
+    const params: CxxType[] = [];
+    let suffix = '';
+    while (!eat('E')) {
+      if (eat('RE')) {
+        suffix = ' &';
+        break;
+      }
+      if (eat('OE')) {
+        suffix = ' &&';
+        break;
+      }
+      params.push(type());
+    }
+    return { kind: 'func', ret, params, suffix };
+  };
+
+  const declType = () => {
+    pos += 2;
+    const text = expression();
+    expect('E');
+    return `decltype (${text})`;
+  };
+
+  const type = (): CxxType => {
+    const c = peek();
+    if (c in BUILTIN_TYPES) {
+      pos++;
+      return nameNode(BUILTIN_TYPES[c]);
+    }
+    switch (c) {
+      case 'u':
+        pos++;
+        return addSub(nameNode(sourceName()));
+      case 'r':
+      case 'V':
+      case 'K': {
+        return addSub(qualify(cvQualifiers().trim(), type()));
+      }
+      case 'P':
+      case 'R':
+      case 'O':
+        pos++;
+        return addSub({ kind: 'ptr', op: c === 'P' ? '*' : c === 'R' ? '&' : '&&', inner: type() });
+      case 'C':
+      case 'G':
+        pos++;
+        return addSub(nameNode(`${printType(type())} ${c === 'C' ? '_Complex' : '_Imaginary'}`));
+      case 'F':
+        return addSub(functionType());
+      case 'A': {
+        pos++;
+        let dim = '';
+        if (isDigit(peek())) {
+          dim = String(number());
+        } else if (peek() !== '_') {
+          dim = expression();
+        }
+        expect('_');
+        return addSub({ kind: 'array', dim, inner: type() });
+      }
+      case 'M': {
+        pos++;
+        const cls = type();
+        return addSub({ kind: 'member', cls, inner: type() });
+      }
+      case 'T': {
+        if (/[seu]/.test(peek(1))) {
+          pos += 2;
+          return addSub(name(false));
+        }
+        const param = addSub(templateParam());
+        return peek() === 'I' ? addSub(withTemplateArgs(asName(param), false)) : param;
+      }
+      case 'D': {
+        const d = peek(1);
+        if (d in BUILTIN_D_TYPES) {
+          pos += 2;
+          return nameNode(BUILTIN_D_TYPES[d]);
+        }
+        if (d === 'F') {
+          pos += 2;
+          const bits = number();
+          expect('_');
+          return nameNode(`_Float${bits}`);
+        }
+        if (d === 'p') {
+          pos += 2;
+          return addSub({ kind: 'pack', inner: type() });
+        }
+        if (d === 't' || d === 'T') {
+          return addSub(nameNode(declType()));
+        }
+        if (d === 'v') {
+          pos += 2;
+          const size = number();
+          expect('_');
+          return addSub(nameNode(`${printType(type())} __vector(${size})`));
+        }
+        if (d === 'x' || d === 'o') {
+          pos += 2;
+          const inner = type();
+          return inner.kind === 'func' ? { ...inner, suffix: `${inner.suffix}${d === 'o' ? ' noexcept' : ''}` } : fail();
+        }
+        return fail();
+      }
+      case 'S': {
+        if (peek(1) === 't') {
+          return addSub(name(false));
+        }
+        const sub = substitution();
+        return peek() === 'I' ? addSub(withTemplateArgs(asName(sub), false)) : sub;
+      }
+      default:
+        if (c === 'N' || c === 'Z' || isDigit(c)) {
+          return addSub(name(false));
+        }
+        return fail();
+    }
+  };
+
+  // <expr-primary>: an integer literal, or the address of an entity
+  const literal = (): string => {
+    expect('L');
+    if (eat('_Z')) {
+      const text = encoding();
+      expect('E');
+      return text;
+    }
+    const literalType = type();
+    const typeName = printType(literalType);
+    const start = pos;
+    while (peek() !== 'E') {
+      if (!peek()) {
+        fail();
+      }
+      pos++;
+    }
+    const raw = s.slice(start, pos).replace(/^n/, '-');
+    pos++;
+    switch (typeName) {
+      case 'bool':
+        return raw === '0' ? 'false' : raw === '1' ? 'true' : `(bool)${raw}`;
+      case 'int':
+        return raw;
+      case 'unsigned int':
+        return `${raw}u`;
+      case 'long':
+        return `${raw}l`;
+      case 'unsigned long':
+        return `${raw}ul`;
+      case 'long long':
+        return `${raw}ll`;
+      case 'unsigned long long':
+        return `${raw}ull`;
+      default:
+        return `(${typeName})${raw}`;
+    }
+  };
+
+  // The subset of <expression> that shows up in template arguments and decltype of embedded code
+  const expression = (): string => {
+    const c = peek();
+    if (c === 'L') {
+      return literal();
+    }
+    if (c === 'T') {
+      return printType(templateParam());
+    }
+    if (eat('fp')) {
+      cvQualifiers();
+      const index = peek() === '_' ? 1 : number() + 2;
+      expect('_');
+      return `{parm#${index}}`;
+    }
+    if (eat('sr')) {
+      const scope = printType(type());
+      let member = sourceName();
+      if (peek() === 'I') {
+        member += templateArgsText(templateArgs());
+      }
+      return `${scope}::${member}`;
+    }
+    if (eat('st') || eat('at')) {
+      return `${s[pos - 2] === 's' ? 'sizeof' : 'alignof'} (${printType(type())})`;
+    }
+    if (eat('cv')) {
+      const target = printType(type());
+      if (!eat('_')) {
+        return `(${target})(${expression()})`;
+      }
+      const values: string[] = [];
+      while (!eat('E')) {
+        values.push(expression());
+      }
+      return `(${target})(${values.join(', ')})`;
+    }
+    if (eat('cl')) {
+      const callee = subexpression();
+      const args: string[] = [];
+      while (!eat('E')) {
+        args.push(expression());
+      }
+      return `${callee}(${args.join(', ')})`;
+    }
+    if (eat('dt') || eat('pt')) {
+      const access = s[pos - 2] === 'd' ? '.' : '->';
+      const object = expression();
+      return `${object}${access}${sourceName()}`;
+    }
+    if (isDigit(c)) {
+      return sourceName();
+    }
+    const operator = OPERATORS[s.slice(pos, pos + 2)];
+    if (!operator) {
+      return fail();
+    }
+    pos += 2;
+    const [op, arity] = operator;
+    const operands = Array.from({ length: arity }, () => subexpression());
+    if (arity === 1) {
+      return `${op}${operands[0]}`;
+    }
+    if (arity === 2) {
+      return `${operands[0]}${op}${operands[1]}`;
+    }
+    return `${operands[0]} ? ${operands[1]} : ${operands[2]}`;
+  };
+
+  // Operands are parenthesized unless they are names or function parameters
+  const subexpression = () => {
+    const simple = isDigit(peek()) || s.startsWith('fp', pos) || s.startsWith('sr', pos);
+    const text = expression();
+    return simple ? text : `(${text})`;
+  };
+
+  // <call-offset> of a thunk: h <offset> _ or v <offset> _ <virtual offset> _
+  const callOffset = () => {
+    if (eat('h')) {
+      number();
+      expect('_');
+    } else if (eat('v')) {
+      number();
+      expect('_');
+      number();
+      expect('_');
+    } else {
+      fail();
+    }
+  };
+
+  const specialName = (): string => {
+    const tag = s.slice(pos, pos + 2);
+    pos += 2;
+    switch (tag) {
+      case 'TV':
+        return `vtable for ${printType(type())}`;
+      case 'TT':
+        return `VTT for ${printType(type())}`;
+      case 'TI':
+        return `typeinfo for ${printType(type())}`;
+      case 'TS':
+        return `typeinfo name for ${printType(type())}`;
+      case 'Th':
+      case 'Tv':
+        pos--;
+        callOffset();
+        return `${tag === 'Th' ? 'non-virtual' : 'virtual'} thunk to ${encoding()}`;
+      case 'Tc':
+        callOffset();
+        callOffset();
+        return `covariant return thunk to ${encoding()}`;
+      case 'TH':
+        return `TLS init function for ${name(false).text}`;
+      case 'TW':
+        return `TLS wrapper function for ${name(false).text}`;
+      case 'GV':
+        return `guard variable for ${name(false).text}`;
+      case 'GR': {
+        const entity = name(false).text;
+        const index = seqId();
+        return `reference temporary #${index} for ${entity}`;
+      }
+      case 'GT':
+        expect('t');
+        return `transaction clone for ${encoding()}`;
+      default:
+        return fail();
+    }
+  };
+
+  // The return type of a function that only scopes a local name is left out, as c++filt does
+  const encoding = (topLevel = true): string => {
+    if ((peek() === 'T' && /[VTISHWhvc]/.test(peek(1))) || (peek() === 'G' && /[VRT]/.test(peek(1)))) {
+      return specialName();
+    }
+    const saved = templateParams;
+    const entity = name(true);
+    if (pos >= s.length || peek() === 'E' || peek() === '.') {
+      templateParams = saved;
+      return entity.text;
+    }
+    // Function templates (other than constructors, destructors and conversions) encode their return type first
+    const ret = entity.templated && !entity.noReturn ? type() : null;
+    const params: CxxType[] = [];
+    while (pos < s.length && peek() !== 'E' && peek() !== '.') {
+      params.push(type());
+    }
+    const text = `${entity.text}(${printParams(params)})${entity.suffix ?? ''}`;
+    // A returned function pointer or array reference is declared around the name: "void (*f<int>())()"
+    const result = !ret || !topLevel ? text : isDeclarator(ret) ? printDeclarator(ret, text) : `${printType(ret)} ${text}`;
+    templateParams = saved;
+    return result;
+  };
+
+  let result = encoding();
+  // GCC clones: "foo.constprop.0" → "foo() [clone .constprop.0]"
+  while (pos < s.length) {
+    const clone = /^\.[A-Za-z_]+(?:\.\d+)*|^\.\d+/.exec(s.slice(pos));
+    if (!clone) {
+      fail();
+    }
+    result += ` [clone ${clone[0]}]`;
+    pos += clone[0].length;
+  }
+  return result;
+}
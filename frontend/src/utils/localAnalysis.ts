@@ -0,0 +1,73 @@
+import type { AnalysisResult, CompareResult, DiffResult, ParseProgress } from '../types/index';
+import type { CompareOptions } from '../shared/utils/compareAnalysis';
+import type { DiffOptions } from '../shared/utils/memoryDiff';
+import type { AnalysisMessage, AnalysisRequest } from '../workers/analysis.worker';
+
+// Where map files are parsed: in this browser (nothing is uploaded) or by the backend server
+export type ParseMode = 'browser' | 'server';
+
+const PARSE_MODE_KEY = 'parseMode';
+
+export function loadParseMode(): ParseMode {
+  return localStorage.getItem(PARSE_MODE_KEY) === 'server' ? 'server' : 'browser';
+}
+
+export function saveParseMode(mode: ParseMode) {
+  localStorage.setItem(PARSE_MODE_KEY, mode);
+}
+
+// Run one request on a fresh worker, so a large map neither blocks the UI nor keeps its memory afterwards.
+// Results are the same JSON the backend returns, without the analysisId/compareId/diffId of stored results
+function runInWorker<T>(request: AnalysisRequest, onProgress?: (bytesRead: number, totalBytes: number) => void): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('../workers/analysis.worker.ts', import.meta.url), { type: 'module' });
+
+    worker.onmessage = (event: MessageEvent<AnalysisMessage>) => {
+      const message = event.data;
+      if (message.type === 'progress') {
+        onProgress?.(message.bytesRead, message.totalBytes);
+        return;
+      }
+      worker.terminate();
+      if (message.type === 'result') {
+        resolve(message.result as T);
+      } else {
+        reject(new Error(message.message));
+      }
+    };
+    worker.onerror = event => {
+      worker.terminate();
+      reject(new Error(event.message || 'Parser worker failed'));
+    };
+
+    worker.postMessage(request);
+  });
+}
+
+// Analyze a map (optionally with its ELF) or an ELF alone, like POST /analyze
+export function analyzeLocally(
+  mapFile: File | null,
+  elfFile: File | null,
+  onProgress?: (progress: ParseProgress) => void
+): Promise<AnalysisResult> {
+  const fileName = (mapFile || elfFile)?.name || '';
+  return runInWorker<AnalysisResult>(
+    { type: 'analyze', mapFile: mapFile || undefined, elfFile: elfFile || undefined },
+    (bytesRead, totalBytes) => onProgress?.({
+      fileName,
+      bytesRead,
+      totalBytes,
+      percent: totalBytes > 0 ? Math.floor((bytesRead / totalBytes) * 100) : 100,
+    })
+  );
+}
+
+// Compare two builds, like POST /compare
+export function compareLocally(fileA: File, fileB: File, options: CompareOptions): Promise<CompareResult> {
+  return runInWorker<CompareResult>({ type: 'compare', fileA, fileB, options });
+}
+
+// Enhanced diff of two builds, like POST /diff
+export function diffLocally(fileV1: File, fileV2: File, options: DiffOptions): Promise<DiffResult> {
+  return runInWorker<DiffResult>({ type: 'diff', fileV1, fileV2, options });
+}
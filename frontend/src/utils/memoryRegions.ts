@@ -0,0 +1,128 @@
+import type { AnalysisResult, ArchiveUsage, MemoryRegion, RegionUsage, Section } from '../types/index';
+
+// Find the memory region whose origin/length contains an address
+export function findRegion(memory: Record<string, MemoryRegion>, address?: string): string | null {
+  if (!address) return null;
+
+  const addr = parseInt(address, 16);
+  if (Number.isNaN(addr)) return null;
+
+  for (const [name, region] of Object.entries(memory)) {
+    const origin = parseInt(region.origin, 16);
+    if (addr >= origin && addr < origin + region.lengthBytes) {
+      return name;
+    }
+  }
+
+  return null;
+}
+
+// Region assigned by the parser, or an address lookup for results without one (e.g. mock data)
+export function getSectionRegion(section: Section, memory: Record<string, MemoryRegion>): string | null {
+  if (section.region !== undefined) return section.region;
+  return findRegion(memory, section.address);
+}
+
+// Writable regions hold runtime data (RAM); read-only ones hold the program image (flash).
+// A parser-set `writable` flag wins over the attributes, where letters after "!" are negated ("a !xr").
+export function isWritableRegion(name: string, region?: MemoryRegion): boolean {
+  if (typeof region?.writable === 'boolean') return region.writable;
+  if (region?.attributes) {
+    const [granted, negated = ''] = region.attributes.toLowerCase().split('!');
+    return granted.includes('w') || negated.includes('r');
+  }
+  return /RAM|DATA/i.test(name);
+}
+
+// Used bytes for every region in the Memory Configuration, in declaration order.
+// Sections loaded from elsewhere (e.g. .data) count in their load region (LMA) and run region (VMA).
+// Fill and alignment padding reported by the parser is included in the used bytes.
+export function calculateRegionUsage(result: AnalysisResult): RegionUsage[] {
+  const used = new Map<string, number>();
+  const common = new Map<string, number>();
+  const heap = new Map<string, number>();
+  const stack = new Map<string, number>();
+
+  result.sections.forEach(section => {
+    const region = getSectionRegion(section, result.memory);
+    if (region) {
+      used.set(region, (used.get(region) || 0) + section.size);
+    }
+    if (section.loadRegion && section.loadRegion !== region) {
+      used.set(section.loadRegion, (used.get(section.loadRegion) || 0) + section.size);
+    }
+  });
+
+  // Common symbols are already counted with their COMMON input sections, broken out here
+  (result.commonSymbols || []).forEach(symbol => {
+    if (symbol.region) {
+      common.set(symbol.region, (common.get(symbol.region) || 0) + symbol.size);
+    }
+  });
+
+  // Heap and stack reservations are counted with the output section holding them, broken out here
+  (result.reservations || []).forEach(reservation => {
+    if (reservation.region) {
+      const reserved = reservation.kind === 'heap' ? heap : stack;
+      reserved.set(reservation.region, (reserved.get(reservation.region) || 0) + reservation.size);
+    }
+  });
+
+  return Object.entries(result.memory).map(([name, region]) => {
+    const paddingBytes = result.padding?.regions[name] || 0;
+    const usedBytes = (used.get(name) || 0) + paddingBytes;
+    return {
+      name,
+      origin: region.origin,
+      totalBytes: region.lengthBytes,
+      usedBytes,
+      paddingBytes,
+      commonBytes: common.get(name) || 0,
+      heapBytes: heap.get(name) || 0,
+      stackBytes: stack.get(name) || 0,
+      linkerUsedBytes: region.used,
+      usagePercent: region.lengthBytes > 0 ? (usedBytes / region.lengthBytes) * 100 : 0,
+      writable: isWritableRegion(name, region),
+      kind: region.kind,
+    };
+  });
+}
+
+// Column a region's bytes are reported under: its memory kind (ESP-IDF) or the region name
+export function getRegionKind(name: string, region?: MemoryRegion): string {
+  return region?.kind || name;
+}
+
+// Memory kinds of the result's regions, in declaration order without duplicates
+export function getRegionKinds(result: AnalysisResult): string[] {
+  return [...new Set(Object.entries(result.memory).map(([name, region]) => getRegionKind(name, region)))];
+}
+
+// Bytes each static library places in each memory kind, largest total first. Objects linked
+// outside any library are grouped under "(no library)", as in the library view of the sections table.
+// Sections loaded from elsewhere count in both kinds, as in calculateRegionUsage.
+export function calculateArchiveUsage(result: AnalysisResult): ArchiveUsage[] {
+  const archives = new Map<string, ArchiveUsage>();
+
+  const add = (name: string, regionName: string, size: number) => {
+    const kind = getRegionKind(regionName, result.memory[regionName]);
+    const archive = archives.get(name) || { name, totalBytes: 0, bytesByKind: {} };
+    archive.totalBytes += size;
+    archive.bytesByKind[kind] = (archive.bytesByKind[kind] || 0) + size;
+    archives.set(name, archive);
+  };
+
+  result.sections.forEach(section => {
+    const name = section.library || '(no library)';
+    const region = getSectionRegion(section, result.memory);
+    if (region) {
+      add(name, region, section.size);
+    }
+    if (section.loadRegion && section.loadRegion !== region) {
+      add(name, section.loadRegion, section.size);
+    }
+  });
+
+  return Array.from(archives.values())
+    .sort((a, b) => b.totalBytes - a.totalBytes);
+}
@@ -1,12 +1,13 @@
-import type { Section } from '../types/index';
+import type { ArchiveMember, DirectoryUsage, InclusionRoot, Section, SymbolEntry, TemplateFamily } from '../types/index';
+import { templateFamily } from './demangle';
 
 export function aggregateSections(sections: Section[]): Section[] {
   const aggregated = new Map<string, Section>();
 
   sections.forEach(section => {
-    // Extract parent section name (e.g., .text from .text.main)
+    // Group by output section when known, else by parent section name (e.g., .text from .text.main)
     const parts = section.name.split('.');
-    const parentName = parts.length > 2 ? parts.slice(0, 2).join('.') : section.name;
+    const parentName = section.outputSection || (parts.length > 2 ? parts.slice(0, 2).join('.') : section.name);
 
     if (aggregated.has(parentName)) {
       const existing = aggregated.get(parentName)!;
@@ -18,6 +19,8 @@ export function aggregateSections(sections: Section[]): Section[] {
         size: section.size,
         subsections: parts.length > 2 ? 1 : undefined,
         filePath: parts.length > 2 ? null : section.filePath,
+        region: section.region,
+        loadRegion: section.loadRegion,
       });
     }
   });
@@ -25,3 +28,138 @@ export function aggregateSections(sections: Section[]): Section[] {
   return Array.from(aggregated.values())
     .sort((a, b) => b.size - a.size);
 }
+
+// Group sections by object file or static library (e.g. to see which archive uses the most flash)
+export function groupSections(sections: Section[], groupBy: 'object' | 'library'): Section[] {
+  const groups = new Map<string, Section>();
+
+  sections.forEach(section => {
+    const key = groupBy === 'library'
+      ? section.library || '(no library)'
+      : section.filePath || 'unknown';
+
+    if (groups.has(key)) {
+      const existing = groups.get(key)!;
+      existing.size += section.size;
+      existing.subsections = (existing.subsections || 1) + 1;
+    } else {
+      groups.set(key, {
+        name: key,
+        size: section.size,
+        subsections: 1,
+        filePath: null,
+        library: groupBy === 'library' ? section.library : null,
+      });
+    }
+  });
+
+  return Array.from(groups.values())
+    .sort((a, b) => b.size - a.size);
+}
+
+// Directory part of a source path ("/builds/fw/net/eth.c" → ["", "builds", "fw", "net"])
+function directoryParts(sourcePath: string): string[] {
+  return sourcePath.split('/').slice(0, -1);
+}
+
+// Roll symbol sizes up the source directory tree of their DWARF compilation units.
+// Paths are relative to the directory all sources share; "." is that directory and holds the total.
+// Listed depth-first with the largest subtree first, so the rows read as a tree.
+export function rollupDirectories(symbols: SymbolEntry[]): DirectoryUsage[] {
+  const withSource = symbols.filter(symbol => symbol.sourcePath);
+  if (withSource.length === 0) return [];
+
+  const root = withSource
+    .map(symbol => directoryParts(symbol.sourcePath!))
+    .reduce((prefix, parts) => {
+      let n = 0;
+      while (n < prefix.length && n < parts.length && prefix[n] === parts[n]) n++;
+      return prefix.slice(0, n);
+    });
+
+  const groups = new Map<string, DirectoryUsage>();
+  withSource.forEach(symbol => {
+    const parts = directoryParts(symbol.sourcePath!).slice(root.length);
+    for (let depth = 0; depth <= parts.length; depth++) {
+      const directory = depth === 0 ? '.' : parts.slice(0, depth).join('/');
+      const group = groups.get(directory) || { directory, depth, size: 0, symbolCount: 0 };
+      group.size += symbol.size;
+      group.symbolCount++;
+      groups.set(directory, group);
+    }
+  });
+
+  const ordered: DirectoryUsage[] = [];
+  const visit = (group: DirectoryUsage) => {
+    ordered.push(group);
+    Array.from(groups.values())
+      .filter(child => child.depth === group.depth + 1 &&
+        (group.depth === 0 || child.directory.startsWith(`${group.directory}/`)))
+      .sort((a, b) => b.size - a.size)
+      .forEach(visit);
+  };
+  visit(groups.get('.')!);
+
+  return ordered;
+}
+
+// Group sections or symbols by the C++ template or Rust generic they were instantiated from.
+// Only families with more than one copy are listed, largest total first
+export function groupTemplateFamilies(items: { name: string; size: number }[]): TemplateFamily[] {
+  const families = new Map<string, TemplateFamily>();
+
+  items.forEach(item => {
+    const family = templateFamily(item.name);
+    if (!family) return;
+
+    const group = families.get(family) || { family, size: 0, copies: 0, instances: [] };
+    group.size += item.size;
+    group.copies++;
+    group.instances.push({ name: item.name, size: item.size });
+    families.set(family, group);
+  });
+
+  return Array.from(families.values())
+    .filter(group => group.copies > 1)
+    .map(group => ({ ...group, instances: group.instances.sort((a, b) => b.size - a.size) }))
+    .sort((a, b) => b.size - a.size);
+}
+
+function inclusionChain(member: ArchiveMember, byPath: Map<string | null, ArchiveMember>): ArchiveMember[] {
+  const chain = [member];
+
+  let next = member.includedByPath ? byPath.get(member.includedByPath) : undefined;
+  while (next && !chain.includes(next)) {
+    chain.push(next);
+    next = next.includedByPath ? byPath.get(next.includedByPath) : undefined;
+  }
+  return chain;
+}
+
+// Members from an archive member back to the reference that started its inclusion: the member itself,
+// the member whose reference pulled it in, and so on up to one included by a file outside the archives
+export function traceInclusion(member: ArchiveMember, members: ArchiveMember[]): ArchiveMember[] {
+  return inclusionChain(member, new Map(members.map(m => [m.inputPath, m])));
+}
+
+// Group archive members by the reference that started their inclusion chain (e.g. main.o calling printf),
+// so a single call shows everything it pulled in. Largest total first
+export function groupInclusionRoots(members: ArchiveMember[]): InclusionRoot[] {
+  const byPath = new Map(members.map(m => [m.inputPath, m]));
+  const roots = new Map<string, InclusionRoot>();
+
+  members.forEach(member => {
+    const chain = inclusionChain(member, byPath);
+    const origin = chain[chain.length - 1];
+    const key = `${origin.includedByPath}\0${origin.symbol}`;
+
+    const root = roots.get(key) || { includedBy: origin.includedBy, symbol: origin.symbol, size: 0, members: [] };
+    root.size += member.size;
+    root.members.push(member);
+    roots.set(key, root);
+  });
+
+  return Array.from(roots.values())
+    .map(root => ({ ...root, members: root.members.sort((a, b) => b.size - a.size) }))
+    .sort((a, b) => b.size - a.size);
+}
@@ -0,0 +1,62 @@
+// Runs the shared parser in the browser, off the UI thread: the same steps as the backend's
+// /analyze, /compare and /diff routes, without uploading the files
+import { parseMap, parseMapStream } from '../shared/parser/index';
+import { readSourceUnits } from '../shared/parser/parseElf';
+import { attributeSourcePaths } from '../shared/parser/dwarf';
+import { crossCheckElf } from '../shared/utils/elfCrossCheck';
+import { compareAnalyses } from '../shared/utils/compareAnalysis';
+import type { CompareOptions } from '../shared/utils/compareAnalysis';
+import { computeMemoryDiff } from '../shared/utils/memoryDiff';
+import type { DiffOptions } from '../shared/utils/memoryDiff';
+
+export type AnalysisRequest =
+  | { type: 'analyze'; mapFile?: File; elfFile?: File }
+  | { type: 'compare'; fileA: File; fileB: File; options: CompareOptions }
+  | { type: 'diff'; fileV1: File; fileV2: File; options: DiffOptions };
+
+export type AnalysisMessage =
+  | { type: 'progress'; bytesRead: number; totalBytes: number }
+  | { type: 'result'; result: unknown }
+  | { type: 'error'; message: string };
+
+const post = (message: AnalysisMessage) => self.postMessage(message);
+
+let lastPercent = -1;
+
+// One message per percent is plenty for a progress bar
+function reportProgress(bytesRead: number, totalBytes: number) {
+  const percent = totalBytes > 0 ? Math.floor((bytesRead / totalBytes) * 100) : 100;
+  if (percent !== lastPercent) {
+    lastPercent = percent;
+    post({ type: 'progress', bytesRead, totalBytes });
+  }
+}
+
+async function run(request: AnalysisRequest): Promise<unknown> {
+  switch (request.type) {
+    case 'analyze': {
+      // An ELF alone is analyzed in place of the map; given with the map it is a cross-check
+      // and its debug info attributes the map's sections and symbols to source files
+      const { mapFile, elfFile } = request;
+      const result = await parseMapStream((mapFile || elfFile)!, reportProgress);
+      if (mapFile && elfFile) {
+        const elfBytes = new Uint8Array(await elfFile.arrayBuffer());
+        result.elfCheck = crossCheckElf(result, await parseMap(elfBytes));
+        attributeSourcePaths(result, await readSourceUnits(elfBytes));
+      }
+      return result;
+    }
+    case 'compare':
+      return compareAnalyses(await parseMapStream(request.fileA), await parseMapStream(request.fileB), request.options);
+    case 'diff':
+      return computeMemoryDiff(await parseMapStream(request.fileV1), await parseMapStream(request.fileV2), request.options);
+  }
+}
+
+self.onmessage = async (event: MessageEvent<AnalysisRequest>) => {
+  try {
+    post({ type: 'result', result: await run(event.data) });
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+};